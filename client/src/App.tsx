@@ -1,15 +1,29 @@
-import { Routes, Route } from 'react-router-dom'
+import { Routes, Route, useLocation } from 'react-router-dom'
+import TraceViewer from './traces/TraceViewer'
+import LoginPage from './auth/LoginPage'
+import AccountPage from './auth/AccountPage'
+import ProtectedRoute from './auth/ProtectedRoute'
+import ErrorBoundary from './errors/ErrorBoundary'
 
 function App() {
+  const location = useLocation()
+
   return (
-    <Routes>
-      <Route path="/" element={
-        <div className="p-4">
-          <h1 className="text-2xl font-bold">React + Vite + TypeScript + Tailwind</h1>
-          <p className="text-gray-600">Running ✓</p>
-        </div>
-      } />
-    </Routes>
+    // Navigating away from a failed page clears the error
+    <ErrorBoundary resetKey={location.pathname}>
+      <Routes>
+        <Route path="/" element={
+          <div className="p-4">
+            <h1 className="text-2xl font-bold">React + Vite + TypeScript + Tailwind</h1>
+            <p className="text-gray-600">Running ✓</p>
+          </div>
+        } />
+        <Route path="/login" element={<LoginPage />} />
+        <Route path="/account" element={<ProtectedRoute><AccountPage /></ProtectedRoute>} />
+        {/* Live traces of the instrumented server (development only) */}
+        {import.meta.env.DEV && <Route path="/__traces" element={<TraceViewer />} />}
+      </Routes>
+    </ErrorBoundary>
   )
 }
 
@@ -0,0 +1,15 @@
+// Generated from server/src/contract/endpoints.ts by `npm run api:client`, do not edit
+import { contract, endpointCall } from '../../../server/src/contract'
+
+export { ApiError, NetworkError } from '../../../server/src/contract'
+export type { RequestOptions } from '../../../server/src/contract'
+
+// Relative URLs: in development the Vite dev server proxies /api to the API server
+export const api = {
+  /** GET /api/health: Liveness: the process is up (no dependency is checked) */
+  health: endpointCall(contract.health),
+  /** GET /api/health/ready: Readiness: dependency checks, version and uptime; 503 unless ready */
+  ready: endpointCall(contract.ready),
+  /** GET /api/me: The signed-in user (needs a Supabase access token: pass authHeaders(session) as headers) */
+  me: endpointCall(contract.me)
+}
@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react'
+import { api } from '../api/client'
+import ErrorMessage from '../errors/ErrorMessage'
+import { authHeaders, useSession } from './session'
+
+type Me = Awaited<ReturnType<typeof api.me>>
+
+// The signed-in user as the server sees it (GET /api/me verifies the access token)
+function AccountPage() {
+  const { session } = useSession()
+  const [me, setMe] = useState<Me | null>(null)
+  const [error, setError] = useState<unknown>(null)
+
+  // Refetched when the session changes (sign-in, token refresh); a response for an older session is ignored
+  useEffect(() => {
+    let cancelled = false
+    setError(null)
+    api.me({}, { headers: authHeaders(session) })
+      .then((user) => {
+        if (!cancelled) setMe(user)
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [session])
+
+  return (
+    <div className="mx-auto max-w-sm space-y-2 p-4">
+      <h1 className="text-2xl font-bold">Account</h1>
+      {error != null && <ErrorMessage error={error} />}
+      {me && (
+        <dl className="text-sm">
+          <dt className="font-medium">User id</dt><dd className="mb-2 font-mono">{me.id}</dd>
+          <dt className="font-medium">Email</dt><dd className="mb-2">{me.email ?? '—'}</dd>
+          <dt className="font-medium">Roles</dt><dd>{me.roles.join(', ') || '—'}</dd>
+        </dl>
+      )}
+    </div>
+  )
+}
+
+export default AccountPage
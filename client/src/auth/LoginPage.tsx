@@ -0,0 +1,77 @@
+import { useState, type FormEvent } from 'react'
+import { Link, useLocation, useNavigate, type Location } from 'react-router-dom'
+import { useSession } from './session'
+
+// Email/password sign-in; signed-in users see who they are and can sign out
+function LoginPage() {
+  const { user, loading, configured, signIn, signOut } = useSession()
+  const navigate = useNavigate()
+  const from = (useLocation().state as { from?: Location } | null)?.from
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+
+  const submit = async (event: FormEvent) => {
+    event.preventDefault()
+    setSubmitting(true)
+    const message = await signIn({ email, password })
+    setSubmitting(false)
+    setError(message)
+    if (!message) navigate(from ?? '/', { replace: true })
+  }
+
+  if (loading) return <p className="p-4 text-gray-500">Loading…</p>
+
+  if (user) {
+    return (
+      <div className="mx-auto max-w-sm space-y-4 p-4">
+        <h1 className="text-2xl font-bold">Signed in</h1>
+        <p className="text-gray-600">{user.email ?? user.id}</p>
+        <div className="flex gap-2">
+          <Link className="rounded border px-3 py-1 text-sm hover:bg-gray-50" to="/">Home</Link>
+          <button type="button" className="rounded border px-3 py-1 text-sm hover:bg-gray-50" onClick={() => signOut()}>
+            Sign out
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <form className="mx-auto max-w-sm space-y-3 p-4" onSubmit={submit}>
+      <h1 className="text-2xl font-bold">Sign in</h1>
+      {!configured && (
+        <p className="text-sm text-amber-700">Set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY to enable sign-in.</p>
+      )}
+      <input
+        className="w-full rounded border px-2 py-1"
+        type="email"
+        placeholder="Email"
+        autoComplete="email"
+        required
+        value={email}
+        onChange={e => setEmail(e.target.value)}
+      />
+      <input
+        className="w-full rounded border px-2 py-1"
+        type="password"
+        placeholder="Password"
+        autoComplete="current-password"
+        required
+        value={password}
+        onChange={e => setPassword(e.target.value)}
+      />
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <button
+        type="submit"
+        className="rounded bg-blue-600 px-3 py-1 text-white disabled:opacity-50"
+        disabled={submitting || !configured}
+      >
+        {submitting ? 'Signing in…' : 'Sign in'}
+      </button>
+    </form>
+  )
+}
+
+export default LoginPage
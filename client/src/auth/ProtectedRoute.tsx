@@ -0,0 +1,19 @@
+import type { ReactNode } from 'react'
+import { Navigate, useLocation } from 'react-router-dom'
+import { useSession } from './session'
+
+// Renders its children for signed-in users (with one of `roles`, when given);
+// anyone else goes to /login, which returns them here after signing in
+function ProtectedRoute({ children, roles }: { children: ReactNode, roles?: string[] }) {
+  const { user, roles: userRoles, loading } = useSession()
+  const location = useLocation()
+
+  if (loading) return <p className="p-4 text-gray-500">Loading…</p>
+  if (!user) return <Navigate to="/login" replace state={{ from: location }} />
+  if (roles && !roles.some(role => userRoles.includes(role))) {
+    return <p className="p-4 text-red-600">You don't have access to this page.</p>
+  }
+  return children
+}
+
+export default ProtectedRoute
@@ -0,0 +1,40 @@
+import { useEffect, useMemo, useState, type ReactNode } from 'react'
+import type { Session } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+import { SessionContext, rolesOf, type SessionState } from './session'
+
+// Supabase session for the app: restored from storage on load, kept in sync with Auth events
+function SessionProvider({ children }: { children: ReactNode }) {
+  const [session, setSession] = useState<Session | null>(null)
+  const [loading, setLoading] = useState(supabase !== null)
+
+  useEffect(() => {
+    if (!supabase) return
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session)
+      setLoading(false)
+    })
+    const { data } = supabase.auth.onAuthStateChange((_event, next) => setSession(next))
+    return () => data.subscription.unsubscribe()
+  }, [])
+
+  const value = useMemo<SessionState>(() => ({
+    session,
+    user: session?.user ?? null,
+    roles: rolesOf(session?.user ?? null),
+    loading,
+    configured: supabase !== null,
+    signIn: async (credentials) => {
+      if (!supabase) return 'Authentication is not configured'
+      const { error } = await supabase.auth.signInWithPassword(credentials)
+      return error ? error.message : null
+    },
+    signOut: async () => {
+      await supabase?.auth.signOut()
+    }
+  }), [session, loading])
+
+  return <SessionContext.Provider value={value}>{children}</SessionContext.Provider>
+}
+
+export default SessionProvider
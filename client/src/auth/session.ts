@@ -0,0 +1,37 @@
+import { createContext, useContext } from 'react'
+import type { Session, User } from '@supabase/supabase-js'
+
+export interface SessionState {
+  session: Session | null
+  user: User | null
+  // Application roles from the token's app_metadata (see server/src/auth/user.ts)
+  roles: string[]
+  // True until the stored session has been restored
+  loading: boolean
+  // False when VITE_SUPABASE_URL / VITE_SUPABASE_ANON_KEY are missing
+  configured: boolean
+  // Resolves with an error message, or null once signed in. One object, so traces redact the password by key
+  signIn: (credentials: { email: string, password: string }) => Promise<string | null>
+  signOut: () => Promise<void>
+}
+
+export const SessionContext = createContext<SessionState | null>(null)
+
+export function useSession(): SessionState {
+  const state = useContext(SessionContext)
+  if (!state) throw new Error('useSession must be used inside <SessionProvider>')
+  return state
+}
+
+// Authorization header for API calls on behalf of the signed-in user
+export function authHeaders(session: Session | null): Record<string, string> {
+  return session ? { Authorization: `Bearer ${session.access_token}` } : {}
+}
+
+export function rolesOf(user: User | null): string[] {
+  const metadata = user?.app_metadata ?? {}
+  const roles = new Set<string>()
+  if (Array.isArray(metadata.roles)) for (const role of metadata.roles) if (typeof role === 'string') roles.add(role)
+  if (typeof metadata.role === 'string') roles.add(metadata.role)
+  return [...roles]
+}
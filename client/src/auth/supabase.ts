@@ -0,0 +1,7 @@
+import { createClient } from '@supabase/supabase-js'
+
+// Browser Supabase client for Auth (public URL and anon key); null when the project isn't configured
+const url = import.meta.env.VITE_SUPABASE_URL
+const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
+
+export const supabase = url && anonKey ? createClient(url, anonKey) : null
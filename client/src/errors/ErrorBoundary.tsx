@@ -0,0 +1,46 @@
+import { Component, type ErrorInfo, type ReactNode } from 'react'
+import ErrorMessage from './ErrorMessage'
+
+interface Props {
+  children: ReactNode
+  // The boundary clears its error when this changes (e.g. on navigation)
+  resetKey?: unknown
+}
+
+interface State {
+  error: unknown
+  failed: boolean
+}
+
+// Errors thrown while rendering its children, shown in place of the page instead of a blank screen.
+// Async errors (event handlers, effects) only get here when rethrown during render
+class ErrorBoundary extends Component<Props, State> {
+  state: State = { error: null, failed: false }
+
+  static getDerivedStateFromError(error: unknown): State {
+    return { error, failed: true }
+  }
+
+  componentDidCatch(error: unknown, info: ErrorInfo) {
+    console.error('Render failed', error, info.componentStack)
+  }
+
+  componentDidUpdate(previous: Props) {
+    if (this.state.failed && previous.resetKey !== this.props.resetKey) this.reset()
+  }
+
+  reset = () => this.setState({ error: null, failed: false })
+
+  render() {
+    if (!this.state.failed) return this.props.children
+    return (
+      <div className="mx-auto max-w-lg space-y-3 p-4">
+        <h1 className="text-2xl font-bold">Something went wrong</h1>
+        <ErrorMessage error={this.state.error} />
+        <button type="button" className="rounded border px-3 py-1 text-sm hover:bg-gray-50" onClick={this.reset}>Try again</button>
+      </div>
+    )
+  }
+}
+
+export default ErrorBoundary
@@ -0,0 +1,22 @@
+import { describeError } from './describeError'
+
+// An error as the user sees it, with the request id to quote when reporting it
+function ErrorMessage({ error }: { error: unknown }) {
+  const { message, code, requestId, stack } = describeError(error)
+
+  return (
+    <div className="space-y-1 text-sm text-red-600">
+      <p>{message}</p>
+      {(code || requestId) && (
+        <p className="font-mono text-xs text-gray-500">
+          {code}{code && requestId && ' · '}{requestId && `request ${requestId}`}
+        </p>
+      )}
+      {import.meta.env.DEV && stack && (
+        <pre className="overflow-auto rounded bg-gray-100 p-2 text-xs text-gray-700">{stack}</pre>
+      )}
+    </div>
+  )
+}
+
+export default ErrorMessage
@@ -0,0 +1,24 @@
+import { ApiError, NetworkError } from '../api/client'
+
+export interface ErrorDescription {
+  message: string
+  // From the API's error envelope (server/src/contract/errors.ts)
+  code?: string
+  requestId?: string
+  // The server's stack in development, else the client's
+  stack?: string
+}
+
+// What to show for anything thrown or rejected: API errors bring the server's message, code and request id;
+// network errors come from api calls whose fetch failed (wording differs per browser, so no message matching)
+export function describeError(error: unknown): ErrorDescription {
+  if (error instanceof ApiError) {
+    const stack = (error.body as { error?: { stack?: string } } | undefined)?.error?.stack
+    return { message: error.message, code: error.code, requestId: error.requestId, stack: stack ?? error.stack }
+  }
+  if (error instanceof NetworkError) {
+    return { message: 'The server could not be reached', stack: error.stack }
+  }
+  if (error instanceof Error) return { message: error.message, stack: error.stack }
+  return { message: String(error) }
+}
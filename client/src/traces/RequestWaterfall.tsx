@@ -0,0 +1,95 @@
+import { useState } from 'react'
+import { formatMs, formatPayload } from './traceModel'
+import type { TraceFrame, TraceRequest } from './types'
+
+interface Row {
+  frame: TraceFrame
+  depth: number
+}
+
+function flatten(frames: TraceFrame[], depth = 0, rows: Row[] = []): Row[] {
+  for (const frame of frames) {
+    rows.push({ frame, depth })
+    flatten(frame.children, depth + 1, rows)
+  }
+  return rows
+}
+
+const BAR_COLORS: Record<TraceFrame['kind'], string> = {
+  ENDPOINT: 'bg-blue-500',
+  MIDDLEWARE: 'bg-slate-400',
+  FUNCTION: 'bg-emerald-500',
+  QUERY: 'bg-amber-500'
+}
+
+// Call tree of one request with timing bars relative to the request's duration
+function RequestWaterfall({ request }: { request: TraceRequest }) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+  const total = Math.max(request.end - request.start, 1)
+
+  const toggle = (spanId: string) => {
+    setExpanded(previous => {
+      const next = new Set(previous)
+      if (next.has(spanId)) next.delete(spanId)
+      else next.add(spanId)
+      return next
+    })
+  }
+
+  return (
+    <div className="divide-y divide-gray-100 font-mono text-xs">
+      {flatten(request.roots).map(({ frame, depth }) => {
+        const end = frame.end ?? request.end
+        const left = ((frame.start - request.start) / total) * 100
+        const width = Math.max(((end - frame.start) / total) * 100, 0.5)
+        const isOpen = expanded.has(frame.spanId)
+        return (
+          <div key={frame.spanId}>
+            <button
+              type="button"
+              onClick={() => toggle(frame.spanId)}
+              className="grid w-full grid-cols-[minmax(0,2fr)_minmax(0,3fr)_4rem] items-center gap-2 px-2 py-1 text-left hover:bg-gray-50"
+            >
+              <span className="truncate" style={{ paddingLeft: `${depth}rem` }} title={frame.location}>
+                <span className="text-gray-400">{isOpen ? '▾' : '▸'} </span>
+                <span className={frame.error !== null ? 'text-red-600' : ''}>{frame.label}</span>
+              </span>
+              <span className="relative h-3 rounded bg-gray-100">
+                <span
+                  className={`absolute h-3 rounded ${frame.error !== null ? 'bg-red-500' : BAR_COLORS[frame.kind]}`}
+                  style={{ left: `${left}%`, width: `${Math.min(width, 100 - left)}%` }}
+                />
+              </span>
+              <span className="text-right text-gray-500">{frame.end === null ? '…' : formatMs(end - frame.start)}</span>
+            </button>
+            {isOpen && <FrameDetails frame={frame} />}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+function FrameDetails({ frame }: { frame: TraceFrame }) {
+  const sections: [string, string][] = []
+  if (frame.input !== null) sections.push(['Input', frame.input])
+  frame.yields.forEach((value, i) => sections.push([`Yield ${i + 1}`, value]))
+  if (frame.output !== null) sections.push(['Output', frame.output])
+  if (frame.error !== null) sections.push(['Error', frame.error])
+
+  return (
+    <div className="space-y-2 bg-gray-50 px-4 py-2">
+      <div className="text-gray-500">{frame.location}</div>
+      {sections.map(([title, payload]) => (
+        <div key={title}>
+          <div className={`font-semibold ${title === 'Error' ? 'text-red-600' : 'text-gray-700'}`}>{title}</div>
+          <pre className="max-h-64 overflow-auto whitespace-pre-wrap break-all rounded border border-gray-200 bg-white p-2">
+            {payload === '' ? '(not recorded)' : formatPayload(payload)}
+          </pre>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default RequestWaterfall
@@ -0,0 +1,99 @@
+import { useMemo, useState } from 'react'
+import RequestWaterfall from './RequestWaterfall'
+import { buildRequests, formatMs, matchesFilters } from './traceModel'
+import type { TraceFilters, TraceRequest } from './types'
+import { useTraceStream } from './useTraceStream'
+
+const STATUS_CLASSES = ['', '2xx', '3xx', '4xx', '5xx']
+
+// Developer-only live view of the instrumented server's traces (npm run dev:instrumented)
+function TraceViewer() {
+  const [paused, setPaused] = useState(false)
+  const { events, connected, clear } = useTraceStream(paused)
+  const [filters, setFilters] = useState<TraceFilters>({ route: '', status: '', functionName: '', errorsOnly: false })
+  const [open, setOpen] = useState<string | null>(null)
+
+  const requests = useMemo(() => buildRequests(events), [events])
+  const visible = requests.filter(request => matchesFilters(request, filters))
+  const update = (patch: Partial<TraceFilters>) => setFilters(previous => ({ ...previous, ...patch }))
+
+  return (
+    <div className="mx-auto max-w-6xl space-y-4 p-4">
+      <header className="flex items-center gap-3">
+        <h1 className="text-2xl font-bold">Traces</h1>
+        <span className={`h-2 w-2 rounded-full ${connected ? 'bg-emerald-500' : 'bg-gray-300'}`} />
+        <span className="text-sm text-gray-500">
+          {paused ? 'paused' : connected ? 'live' : 'connecting…'} · {events.length} events · {requests.length} traces
+        </span>
+        <div className="ml-auto flex gap-2">
+          <button type="button" className="rounded border px-3 py-1 text-sm hover:bg-gray-50" onClick={() => setPaused(p => !p)}>
+            {paused ? 'Resume' : 'Pause'}
+          </button>
+          <button type="button" className="rounded border px-3 py-1 text-sm hover:bg-gray-50" onClick={clear}>
+            Clear
+          </button>
+        </div>
+      </header>
+
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <input
+          className="rounded border px-2 py-1"
+          placeholder="Route"
+          value={filters.route}
+          onChange={e => update({ route: e.target.value })}
+        />
+        <select className="rounded border px-2 py-1" value={filters.status} onChange={e => update({ status: e.target.value })}>
+          {STATUS_CLASSES.map(status => <option key={status} value={status}>{status || 'Any status'}</option>)}
+        </select>
+        <input
+          className="rounded border px-2 py-1"
+          placeholder="Function name"
+          value={filters.functionName}
+          onChange={e => update({ functionName: e.target.value })}
+        />
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={filters.errorsOnly} onChange={e => update({ errorsOnly: e.target.checked })} />
+          Errors only
+        </label>
+      </div>
+
+      {visible.length === 0 && (
+        <p className="text-sm text-gray-500">
+          {events.length === 0 ? 'Waiting for trace events from the instrumented server (npm run dev:instrumented)…' : 'No traces match the filters.'}
+        </p>
+      )}
+
+      <ul className="divide-y rounded border">
+        {visible.map(request => (
+          <li key={request.traceId}>
+            <RequestSummary request={request} isOpen={open === request.traceId} onToggle={() => setOpen(open === request.traceId ? null : request.traceId)} />
+            {open === request.traceId && <RequestWaterfall request={request} />}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+function RequestSummary({ request, isOpen, onToggle }: { request: TraceRequest, isOpen: boolean, onToggle: () => void }) {
+  const statusClass = request.status === null ? 'text-gray-400'
+    : request.status >= 500 ? 'text-red-600'
+      : request.status >= 400 ? 'text-amber-600'
+        : 'text-emerald-600'
+  const title = request.route ?? request.roots[0]?.label ?? request.traceId
+
+  return (
+    <button type="button" onClick={onToggle} className="flex w-full items-center gap-3 px-3 py-2 text-left text-sm hover:bg-gray-50">
+      <span className="text-gray-400">{isOpen ? '▾' : '▸'}</span>
+      <span className="w-16 font-semibold">{request.method ?? '—'}</span>
+      <span className="flex-1 truncate font-mono">{title}</span>
+      {request.hasError && <span className="rounded bg-red-100 px-1.5 text-xs text-red-700">error</span>}
+      <span className={`w-10 ${statusClass}`}>{request.status ?? '—'}</span>
+      <span className="w-16 text-right text-gray-500">{formatMs(request.end - request.start)}</span>
+      <span className="w-12 text-right text-gray-400">{request.frames.length}</span>
+      <span className="w-20 text-right text-gray-400">{new Date(request.start).toLocaleTimeString()}</span>
+    </button>
+  )
+}
+
+export default TraceViewer
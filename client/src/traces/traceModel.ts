@@ -0,0 +1,126 @@
+import type { TraceEvent, TraceFilters, TraceFrame, TraceRequest } from './types'
+
+// Groups events by trace id and nests frames by parent span, newest request first
+export function buildRequests(events: TraceEvent[]): TraceRequest[] {
+  const framesByTrace = new Map<string, Map<string, TraceFrame>>()
+  const parents = new Map<string, string | null>()
+
+  for (const event of events) {
+    let frames = framesByTrace.get(event.traceId)
+    if (!frames) {
+      frames = new Map()
+      framesByTrace.set(event.traceId, frames)
+    }
+    let frame = frames.get(event.spanId)
+    if (!frame) {
+      frame = createFrame(event)
+      frames.set(event.spanId, frame)
+      parents.set(event.spanId, event.parentSpanId)
+    }
+    switch (event.action) {
+      case 'ENTER':
+        frame.start = event.timestamp
+        frame.input = event.payload
+        break
+      case 'YIELD':
+        frame.yields.push(event.payload)
+        break
+      case 'EXIT':
+        frame.end = event.timestamp
+        frame.output = event.payload
+        break
+      case 'ERROR':
+        frame.end = event.timestamp
+        frame.error = event.payload
+        break
+    }
+  }
+
+  const requests: TraceRequest[] = []
+  for (const [traceId, frames] of framesByTrace) {
+    const roots: TraceFrame[] = []
+    for (const frame of frames.values()) {
+      const parent = frames.get(parents.get(frame.spanId) ?? '')
+      if (parent) parent.children.push(frame)
+      else roots.push(frame)
+    }
+    const all = [...frames.values()]
+    for (const frame of all) frame.children.sort(byStart)
+    roots.sort(byStart)
+    requests.push(summarize(traceId, roots, all))
+  }
+  return requests.sort((a, b) => b.start - a.start)
+}
+
+function createFrame(event: TraceEvent): TraceFrame {
+  const label = event.kind === 'FUNCTION'
+    ? (event.scope ? `${event.scope}.${event.name}` : event.name)
+    : `${event.kind === 'MIDDLEWARE' ? '[mw] ' : ''}${event.scope} ${event.name}${event.handler ? ` (${event.handler})` : ''}`
+  return {
+    spanId: event.spanId,
+    kind: event.kind,
+    scope: event.scope,
+    name: event.name,
+    label,
+    location: event.line !== undefined ? `${event.file}:${event.line}:${event.column ?? 0}` : event.file,
+    start: event.timestamp - (event.duration ?? 0),
+    end: null,
+    input: null,
+    output: null,
+    error: null,
+    yields: [],
+    children: []
+  }
+}
+
+function summarize(traceId: string, roots: TraceFrame[], frames: TraceFrame[]): TraceRequest {
+  const endpoint = frames.find(f => f.kind === 'ENDPOINT')
+  // ENDPOINT EXIT payload: { status, duration_ms }
+  const exit = endpoint?.output ? parsePayload(endpoint.output) : null
+  const status = exit && typeof exit === 'object' && 'status' in exit && typeof exit.status === 'number' ? exit.status : null
+  return {
+    traceId,
+    method: endpoint?.scope ?? null,
+    route: endpoint?.name ?? null,
+    status,
+    start: Math.min(...frames.map(f => f.start)),
+    end: Math.max(...frames.map(f => f.end ?? f.start)),
+    hasError: frames.some(f => f.error !== null),
+    roots,
+    frames
+  }
+}
+
+function byStart(a: TraceFrame, b: TraceFrame): number {
+  return a.start - b.start
+}
+
+export function matchesFilters(request: TraceRequest, filters: TraceFilters): boolean {
+  if (filters.errorsOnly && !request.hasError) return false
+  if (filters.route && !(request.route ?? '').toLowerCase().includes(filters.route.toLowerCase())) return false
+  if (filters.status && (request.status === null || `${Math.floor(request.status / 100)}xx` !== filters.status)) return false
+  if (filters.functionName) {
+    const needle = filters.functionName.toLowerCase()
+    if (!request.frames.some(f => f.label.toLowerCase().includes(needle))) return false
+  }
+  return true
+}
+
+// Payloads are JSON when the serializer could encode the value, plain text otherwise
+export function parsePayload(payload: string): unknown {
+  try {
+    return JSON.parse(payload)
+  } catch {
+    return payload
+  }
+}
+
+export function formatPayload(payload: string): string {
+  const value = parsePayload(payload)
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2)
+}
+
+// Durations are fractional milliseconds (high-resolution clock on the server)
+export function formatMs(ms: number): string {
+  return ms < 10 ? `${ms.toFixed(2)}ms` : `${Math.round(ms)}ms`
+}
@@ -0,0 +1,62 @@
+// Trace events as streamed by the server (/api/__traces, see server/tracing/runtime/emitter.ts)
+export type TraceAction = 'ENTER' | 'EXIT' | 'ERROR' | 'YIELD'
+export type TraceKind = 'FUNCTION' | 'ENDPOINT' | 'MIDDLEWARE' | 'QUERY'
+
+export interface TraceEvent {
+  action: TraceAction
+  kind: TraceKind
+  file: string
+  // FUNCTION: class/object name; ENDPOINT/MIDDLEWARE: HTTP method; QUERY: operation
+  scope: string
+  // FUNCTION: function name; ENDPOINT/MIDDLEWARE: route(s); QUERY: table
+  name: string
+  line?: number
+  column?: number
+  handler?: string
+  // Serialized arguments, return value or error
+  payload: string
+  timestamp: number
+  duration?: number
+  traceId: string
+  spanId: string
+  parentSpanId: string | null
+  depth: number
+}
+
+// One traced call (span) with its children
+export interface TraceFrame {
+  spanId: string
+  kind: TraceKind
+  scope: string
+  name: string
+  label: string
+  location: string
+  start: number
+  end: number | null
+  input: string | null
+  output: string | null
+  error: string | null
+  yields: string[]
+  children: TraceFrame[]
+}
+
+// Every frame of one trace id; method/route/status come from its ENDPOINT frame
+export interface TraceRequest {
+  traceId: string
+  method: string | null
+  route: string | null
+  status: number | null
+  start: number
+  end: number
+  hasError: boolean
+  roots: TraceFrame[]
+  frames: TraceFrame[]
+}
+
+export interface TraceFilters {
+  route: string
+  // '' (any), '2xx', '3xx', '4xx' or '5xx'
+  status: string
+  functionName: string
+  errorsOnly: boolean
+}
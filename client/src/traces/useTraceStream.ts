@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react'
+import type { TraceEvent } from './types'
+
+const STREAM_URL = '/api/__traces'
+// Oldest events are dropped beyond this
+const MAX_EVENTS = 5000
+
+export interface TraceStream {
+  events: TraceEvent[]
+  connected: boolean
+  clear: () => void
+}
+
+// Live trace events from the server (server-sent events, reconnects automatically)
+export function useTraceStream(paused: boolean): TraceStream {
+  const [events, setEvents] = useState<TraceEvent[]>([])
+  const [connected, setConnected] = useState(false)
+
+  useEffect(() => {
+    if (paused) return
+    const source = new EventSource(STREAM_URL)
+    source.onopen = () => setConnected(true)
+    source.onerror = () => setConnected(false)
+    // Sent first on every (re)connection, followed by the server's recent history
+    source.addEventListener('reset', () => setEvents([]))
+    source.onmessage = (message: MessageEvent<string>) => {
+      const event = JSON.parse(message.data) as TraceEvent
+      setEvents(previous => {
+        const next = previous.length >= MAX_EVENTS ? previous.slice(previous.length - MAX_EVENTS + 1) : previous.slice()
+        next.push(event)
+        return next
+      })
+    }
+    return () => {
+      source.close()
+      setConnected(false)
+    }
+  }, [paused])
+
+  return { events, connected, clear: () => setEvents([]) }
+}
@@ -1,26 +1,30 @@
 import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
+import { tracingPlugin } from '../server/tracing/vite-plugin.ts'
+import { loadClientConfig } from '../server/src/config/index.ts'
 
 // https://vite.dev/config/
 export default defineConfig(({ mode }) => {
-  const env = loadEnv(mode, process.cwd(), '')
+  // Validated against the schema in server/src/config/variables.ts; every problem is reported at once
+  const config = loadClientConfig(loadEnv(mode, process.cwd(), ''))
 
   return {
     plugins: [
+      // Dev only: traces components, hooks and handlers into the trace viewer (/__traces)
+      tracingPlugin(),
       react(),
       tailwindcss()
     ],
     server: {
-      port: parseInt(env.VITE_FRONTEND_PORT),
+      port: config.VITE_FRONTEND_PORT,
       host: '0.0.0.0',
       strictPort: true,
-      // Allow dev server requests coming from any sub-domain of `app.buildpanel.ai`.
-      // The leading dot authorises the base domain itself and all nested sub-domains.
-      allowedHosts: ['.app.buildpanel.ai'],
+      // A leading dot authorises the domain itself and all nested sub-domains (default `.app.buildpanel.ai`)
+      allowedHosts: config.VITE_ALLOWED_HOSTS,
       proxy: {
         '/api': {
-          target: `${env.VITE_BACKEND_URL}`,
+          target: config.VITE_BACKEND_URL,
           changeOrigin: true
         }
       }
@@ -0,0 +1,30 @@
+#!/usr/bin/env tsx
+/**
+ * Regenerates the client's typed API module (client/src/api/client.ts) from the contract
+ * (src/contract/endpoints.ts). With --check, only reports whether it is out of date
+ * (exit code 1), leaving it untouched.
+ *
+ *   npm run api:client [-- --check]
+ */
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { contract } from '../src/contract/index.js';
+import { formatApiClient, API_CLIENT_FILE } from '../src/contract/codegen.js';
+
+const REPO_ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../..');
+
+const target = path.join(REPO_ROOT, API_CLIENT_FILE);
+const contents = formatApiClient(contract);
+const current = fs.existsSync(target) ? fs.readFileSync(target, 'utf-8') : null;
+
+if (current === contents) {
+  console.log(`✅ ${API_CLIENT_FILE} is up to date`);
+} else if (process.argv.includes('--check')) {
+  console.error(`❌ ${API_CLIENT_FILE} is out of date, run npm run api:client`);
+  process.exit(1);
+} else {
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.writeFileSync(target, contents);
+  console.log(`📝 Wrote ${API_CLIENT_FILE}`);
+}
@@ -0,0 +1,32 @@
+#!/usr/bin/env tsx
+/**
+ * Regenerates server/.env.example and client/.env.example from the config schema
+ * (src/config/variables.ts). With --check, only reports files that are out of date
+ * and exits with 1, leaving them untouched.
+ *
+ *   npm run env:example [-- --check]
+ */
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { ENV_EXAMPLES, formatEnvExample } from '../src/config/index.js';
+
+const REPO_ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../..');
+const check = process.argv.includes('--check');
+
+let stale = 0;
+for (const [file, { header, sections }] of Object.entries(ENV_EXAMPLES)) {
+  const target = path.join(REPO_ROOT, file);
+  const contents = formatEnvExample(sections, header);
+  const current = fs.existsSync(target) ? fs.readFileSync(target, 'utf-8') : null;
+  if (current === contents) {
+    console.log(`✅ ${file} is up to date`);
+  } else if (check) {
+    console.error(`❌ ${file} is out of date, run npm run env:example`);
+    stale++;
+  } else {
+    fs.writeFileSync(target, contents);
+    console.log(`📝 Wrote ${file}`);
+  }
+}
+if (stale) process.exit(1);
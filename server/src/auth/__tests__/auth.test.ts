@@ -0,0 +1,90 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import express from 'express';
+import { authenticate, requireRole, signJwt, verifyJwt, JwtError } from '../index.js';
+import { errorHandler } from '../../errors/index.js';
+
+const SECRET = 'test-secret-with-at-least-32-characters';
+const now = () => Math.floor(Date.now() / 1000);
+
+describe('verifyJwt', () => {
+  it('accepts tokens signed with the secret', () => {
+    const claims = verifyJwt(signJwt({ sub: 'user-1', email: 'a@b.c' }, SECRET), { secret: SECRET });
+    assert.equal(claims.sub, 'user-1');
+    assert.equal(claims.email, 'a@b.c');
+  });
+
+  it('rejects bad signatures, expired tokens, other audiences and other algorithms', () => {
+    const cases: [string, RegExp][] = [
+      [signJwt({ sub: 'u' }, 'another-secret'), /signature/],
+      [signJwt({ sub: 'u', exp: now() - 120 }, SECRET), /expired/],
+      [signJwt({ sub: 'u', nbf: now() + 120 }, SECRET), /not yet valid/],
+      [signJwt({ sub: 'u', aud: 'anon' }, SECRET), /audience/],
+      [signJwt({ sub: '' }, SECRET), /subject/],
+      ['not.a.jwt', /Malformed/],
+      [`${Buffer.from('{"alg":"none"}').toString('base64url')}.${Buffer.from('{"sub":"u"}').toString('base64url')}.`, /algorithm/]
+    ];
+    for (const [token, message] of cases) {
+      assert.throws(() => verifyJwt(token, { secret: SECRET }), (error: unknown) => error instanceof JwtError && message.test(error.message));
+    }
+  });
+
+  it('honours the clock tolerance', () => {
+    const token = signJwt({ sub: 'u', exp: now() - 10 }, SECRET);
+    assert.equal(verifyJwt(token, { secret: SECRET }).sub, 'u');
+    assert.throws(() => verifyJwt(token, { secret: SECRET, clockToleranceSeconds: 0 }), /expired/);
+  });
+});
+
+describe('auth middleware', () => {
+  let server: Server;
+  let base: string;
+
+  before(async () => {
+    const app = express();
+    app.get('/me', authenticate({ secret: SECRET }), (req, res) => res.json(req.user));
+    app.get('/maybe', authenticate({ secret: SECRET, optional: true }), (req, res) => res.json({ user: req.user?.id ?? null }));
+    app.get('/admin', authenticate({ secret: SECRET }), requireRole('admin'), (req, res) => res.json({ ok: true }));
+    app.use(errorHandler());
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  const get = (path: string, token?: string) =>
+    fetch(base + path, token ? { headers: { Authorization: `Bearer ${token}` } } : {});
+
+  it('attaches the user from a valid token', async () => {
+    const res = await get('/me', signJwt({ sub: 'user-1', email: 'a@b.c', app_metadata: { roles: ['editor'], role: 'admin' } }, SECRET));
+    assert.equal(res.status, 200);
+    const user = await res.json() as Record<string, unknown>;
+    assert.equal(user.id, 'user-1');
+    assert.equal(user.email, 'a@b.c');
+    assert.equal(user.role, 'authenticated');
+    assert.deepEqual(user.roles, ['editor', 'admin']);
+  });
+
+  it('answers 401 without a valid token', async () => {
+    const missing = await get('/me');
+    assert.equal(missing.status, 401);
+    assert.equal(missing.headers.get('www-authenticate'), 'Bearer');
+    assert.equal(((await missing.json()) as { error: { code: string } }).error.code, 'unauthorized');
+    const invalid = await get('/me', signJwt({ sub: 'u' }, 'wrong'));
+    assert.equal(invalid.status, 401);
+    assert.match(invalid.headers.get('www-authenticate') ?? '', /invalid_token/);
+  });
+
+  it('lets anonymous requests through when optional', async () => {
+    assert.deepEqual(await (await get('/maybe')).json(), { user: null });
+    assert.deepEqual(await (await get('/maybe', signJwt({ sub: 'u' }, SECRET))).json(), { user: 'u' });
+  });
+
+  it('guards routes by role', async () => {
+    assert.equal((await get('/admin', signJwt({ sub: 'u' }, SECRET))).status, 403);
+    assert.equal((await get('/admin', signJwt({ sub: 'u', app_metadata: { role: 'admin' } }, SECRET))).status, 200);
+  });
+});
@@ -0,0 +1,6 @@
+export { authenticate, requireRole } from './middleware.js';
+export type { AuthenticateOptions } from './middleware.js';
+export { verifyJwt, signJwt, JwtError } from './jwt.js';
+export type { SupabaseClaims, VerifyOptions } from './jwt.js';
+export { userFromClaims } from './user.js';
+export type { AuthUser } from './user.js';
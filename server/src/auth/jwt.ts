@@ -0,0 +1,91 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+/**
+ * HS256 JSON Web Tokens as issued by Supabase Auth (signed with the project's JWT secret).
+ * verifyJwt checks the signature, `exp`/`nbf` (with clock tolerance), `aud` and optionally `iss`;
+ * signJwt issues tokens with the same secret, for tests and local development without Supabase.
+ * Arguments here include the secret and raw token parts, so tracing.config.json records this file by name only.
+ */
+
+export interface SupabaseClaims {
+  sub: string;
+  exp: number;
+  iat?: number;
+  nbf?: number;
+  aud?: string | string[];
+  iss?: string;
+  email?: string;
+  // Postgres role: authenticated, anon, service_role
+  role?: string;
+  app_metadata?: Record<string, unknown>;
+  user_metadata?: Record<string, unknown>;
+  [claim: string]: unknown;
+}
+
+export interface VerifyOptions {
+  secret: string;
+  // Expected `aud` (Supabase signs user tokens for "authenticated"); null skips the check
+  audience?: string | null;
+  issuer?: string;
+  clockToleranceSeconds?: number;
+  now?: () => number;
+}
+
+export class JwtError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JwtError';
+  }
+}
+
+function base64url(data: Buffer | string): string {
+  return Buffer.from(data).toString('base64url');
+}
+
+function sign(input: string, secret: string): Buffer {
+  return createHmac('sha256', secret).update(input).digest();
+}
+
+function decodeJson(segment: string, what: string): Record<string, unknown> {
+  try {
+    const value: unknown = JSON.parse(Buffer.from(segment, 'base64url').toString('utf-8'));
+    if (value && typeof value === 'object' && !Array.isArray(value)) return value as Record<string, unknown>;
+  } catch {}
+  throw new JwtError(`Malformed token ${what}`);
+}
+
+export function verifyJwt(token: string, options: VerifyOptions): SupabaseClaims {
+  const parts = token.split('.');
+  if (parts.length !== 3) throw new JwtError('Malformed token');
+  const [header, payload, signature] = parts as [string, string, string];
+
+  // Only HS256: never trust the token to pick the algorithm (`none`, or a public key used as HMAC secret)
+  if (decodeJson(header, 'header').alg !== 'HS256') throw new JwtError('Unsupported token algorithm');
+  const expected = sign(`${header}.${payload}`, options.secret);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) throw new JwtError('Invalid token signature');
+
+  const claims = decodeJson(payload, 'payload');
+  const now = Math.floor((options.now?.() ?? Date.now()) / 1000);
+  const tolerance = options.clockToleranceSeconds ?? 30;
+  if (typeof claims.exp !== 'number') throw new JwtError('Token has no expiry');
+  if (claims.exp + tolerance <= now) throw new JwtError('Token expired');
+  if (typeof claims.nbf === 'number' && claims.nbf - tolerance > now) throw new JwtError('Token not yet valid');
+  if (typeof claims.sub !== 'string' || !claims.sub) throw new JwtError('Token has no subject');
+
+  const audience = options.audience === undefined ? 'authenticated' : options.audience;
+  if (audience !== null) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(audience)) throw new JwtError('Token audience mismatch');
+  }
+  if (options.issuer !== undefined && claims.iss !== options.issuer) throw new JwtError('Token issuer mismatch');
+  return claims as SupabaseClaims;
+}
+
+// Signs `claims` (exp defaults to an hour from now, aud to "authenticated", role to "authenticated")
+export function signJwt(claims: Partial<SupabaseClaims> & { sub: string }, secret: string): string {
+  const now = Math.floor(Date.now() / 1000);
+  const payload = { aud: 'authenticated', role: 'authenticated', iat: now, exp: now + 3600, ...claims };
+  const unsigned = `${base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))}.${base64url(JSON.stringify(payload))}`;
+  return `${unsigned}.${base64url(sign(unsigned, secret))}`;
+}
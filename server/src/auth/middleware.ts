@@ -0,0 +1,69 @@
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import { ForbiddenError, HttpError, UnauthorizedError } from '../errors/index.js';
+import { JwtError, verifyJwt, type VerifyOptions } from './jwt.js';
+import { userFromClaims } from './user.js';
+
+/**
+ * Express middleware for Supabase sessions: `Authorization: Bearer <access token>`.
+ * - authenticate(): verifies the token with SUPABASE_JWT_SECRET (or `secret`) and sets `req.user`;
+ *   401 without a valid token, unless `optional` (then requests without a token pass through)
+ * - requireRole(...roles): 403 unless `req.user` has one of the application roles (401 if anonymous)
+ * Tokens can be signed locally with signJwt (jwt.ts) to test without a Supabase project.
+ * Refusals are passed on as UnauthorizedError/ForbiddenError (src/errors) for the error handler.
+ */
+
+export interface AuthenticateOptions extends Partial<Omit<VerifyOptions, 'secret'>> {
+  // Defaults to SUPABASE_JWT_SECRET, read per request
+  secret?: string;
+  optional?: boolean;
+}
+
+function bearerToken(req: Request): string | null {
+  const header = req.headers.authorization;
+  const match = header ? /^Bearer\s+(\S+)$/i.exec(header) : null;
+  return match ? match[1]! : null;
+}
+
+function unauthorized(message: string, error?: 'invalid_token'): UnauthorizedError {
+  const challenge = error ? `Bearer error="${error}", error_description="${message}"` : 'Bearer';
+  return new UnauthorizedError(message, { headers: { 'WWW-Authenticate': challenge } });
+}
+
+export function authenticate(options: AuthenticateOptions = {}): RequestHandler {
+  const { secret, optional = false, ...verify } = options;
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const key = secret ?? process.env.SUPABASE_JWT_SECRET;
+    if (!key) {
+      next(new HttpError(500, 'Authentication is not configured (SUPABASE_JWT_SECRET)'));
+      return;
+    }
+    const token = bearerToken(req);
+    if (!token) {
+      next(optional ? undefined : unauthorized('Authentication required'));
+      return;
+    }
+    try {
+      req.user = userFromClaims(verifyJwt(token, { ...verify, secret: key }));
+    } catch (error) {
+      if (!(error instanceof JwtError)) throw error;
+      next(unauthorized(error.message, 'invalid_token'));
+      return;
+    }
+    next();
+  };
+}
+
+export function requireRole(...roles: string[]): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      next(unauthorized('Authentication required'));
+      return;
+    }
+    if (!roles.some(role => req.user!.roles.includes(role))) {
+      next(new ForbiddenError(`Requires role: ${roles.join(' or ')}`));
+      return;
+    }
+    next();
+  };
+}
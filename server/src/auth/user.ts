@@ -0,0 +1,37 @@
+import type { SupabaseClaims } from './jwt.js';
+
+/**
+ * The authenticated user attached to `req.user` by the auth middleware (middleware.ts).
+ * `roles` are application roles from the token's `app_metadata` (`roles: string[]` or `role: string`,
+ * set server side, e.g. with a custom access token hook); `role` is the Postgres role claim.
+ */
+
+export interface AuthUser {
+  id: string;
+  email: string | null;
+  role: string;
+  roles: string[];
+  claims: SupabaseClaims;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
+
+export function userFromClaims(claims: SupabaseClaims): AuthUser {
+  const metadata = claims.app_metadata ?? {};
+  const roles = new Set<string>();
+  if (Array.isArray(metadata.roles)) for (const role of metadata.roles) if (typeof role === 'string') roles.add(role);
+  if (typeof metadata.role === 'string') roles.add(metadata.role);
+  return {
+    id: claims.sub,
+    email: typeof claims.email === 'string' ? claims.email : null,
+    role: typeof claims.role === 'string' ? claims.role : 'authenticated',
+    roles: [...roles],
+    claims
+  };
+}
@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import {
+  parseConfig, formatEnvExample, variable, ConfigError, loadServerConfig, loadClientConfig, ENV_EXAMPLES
+} from '../index.js';
+
+const REPO_ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../../..');
+
+const schema = {
+  PORT: variable.port({ description: 'Port', default: 3000 }),
+  MODE: variable.oneOf(['a', 'b'])({ description: 'Mode', required: true }),
+  HOSTS: variable.list({ description: 'Hosts' }),
+  DEBUG: variable.boolean({ description: 'Debug', default: false }),
+  TOKEN: variable.string({ description: 'Token', secret: true, required: true })
+};
+
+describe('parseConfig', () => {
+  it('parses values and applies defaults', () => {
+    const config = parseConfig(schema, { MODE: 'b', HOSTS: ' a.test, ,b.test ', TOKEN: 't', DEBUG: 'yes' }, { scope: 'test' });
+    assert.deepEqual(config, { PORT: 3000, MODE: 'b', HOSTS: ['a.test', 'b.test'], DEBUG: true, TOKEN: 't' });
+    const port: number = config.PORT;
+    const hosts: string[] | undefined = config.HOSTS;
+    assert.ok(port && hosts);
+  });
+
+  it('reports every problem at once and never echoes secrets', () => {
+    let error: unknown;
+    try {
+      parseConfig(schema, { PORT: '70000', MODE: 'c', DEBUG: 'maybe', TOKEN: '' }, { scope: 'test', hint: 'See .env.example' });
+    } catch (e) {
+      error = e;
+    }
+    assert.ok(error instanceof ConfigError);
+    assert.deepEqual(error.problems, [
+      'PORT must be an integer between 1 and 65535 (got "70000")',
+      'MODE must be one of "a", "b" (got "c")',
+      'DEBUG must be true or false (got "maybe")',
+      'TOKEN is required: Token'
+    ]);
+    assert.match(error.message, /^Invalid test configuration \(4 problems\):\n {2}- PORT[\s\S]*\nSee \.env\.example$/);
+
+    assert.throws(() => parseConfig(schema, { MODE: 'a', TOKEN: 't', PORT: 'abc' }, { scope: 'test' }), /\(got "abc"\)/);
+    const secret = { KEY: variable.integer({ description: 'Key', secret: true }) };
+    assert.throws(() => parseConfig(secret, { KEY: 'hunter2' }, { scope: 'test' }), (e: ConfigError) => !e.message.includes('hunter2'));
+  });
+
+  it('runs cross-variable checks', () => {
+    assert.throws(() => parseConfig(schema, { MODE: 'a', TOKEN: 't' }, {
+      scope: 'test',
+      check: config => (config.MODE === 'a' && !config.HOSTS ? ['HOSTS is required when MODE=a'] : [])
+    }), /HOSTS is required when MODE=a/);
+  });
+});
+
+describe('loaders', () => {
+  it('start the server and the dev server without any .env', () => {
+    assert.equal(loadServerConfig({}).PORT, 3000);
+    assert.deepEqual(loadClientConfig({}).VITE_ALLOWED_HOSTS, ['.app.buildpanel.ai']);
+  });
+
+  it('reject invalid values instead of starting on NaN', () => {
+    assert.throws(() => loadServerConfig({ PORT: 'three thousand' }), /PORT must be an integer/);
+    assert.throws(() => loadClientConfig({ VITE_BACKEND_URL: 'localhost:3000' }), /VITE_BACKEND_URL must be an http\(s\) URL/);
+  });
+});
+
+describe('formatEnvExample', () => {
+  it('documents each variable and comments out optional ones without a default', () => {
+    assert.equal(formatEnvExample([{ schema }], 'Header'), [
+      '# Header',
+      '',
+      '# Port (port, default: 3000)',
+      'PORT=3000',
+      '# Mode (a | b, required)',
+      'MODE=',
+      '# Hosts (comma separated list, optional)',
+      '# HOSTS=',
+      '# Debug (boolean, default: false)',
+      'DEBUG=false',
+      '# Token (string, required)',
+      'TOKEN=',
+      ''
+    ].join('\n'));
+  });
+
+  it('matches the committed .env.example files', () => {
+    for (const [file, { header, sections }] of Object.entries(ENV_EXAMPLES)) {
+      assert.equal(fs.readFileSync(path.join(REPO_ROOT, file), 'utf-8'), formatEnvExample(sections, header),
+        `${file} is out of date, run npm run env:example`);
+    }
+  });
+});
@@ -0,0 +1,44 @@
+import { parseConfig, type ConfigOf, type EnvExampleSection, type Env } from './schema.js';
+import { serverVariables, tracingVariables, clientVariables } from './variables.js';
+
+/**
+ * Validated configuration, shared by the server (src/index.ts), the Vite config
+ * (client/vite.config.ts) and the instrumented dev server (tracing/dev-instrumented.ts).
+ * Loaders throw a ConfigError listing every missing or invalid variable.
+ */
+
+export { ConfigError, parseConfig, formatEnvExample, variable } from './schema.js';
+export type { ConfigOf, Env, EnvExampleSection, Schema, Variable, VariableOptions } from './schema.js';
+export { serverVariables, databaseVariables, tracingVariables, clientVariables } from './variables.js';
+
+export type ServerConfig = ConfigOf<typeof serverVariables>;
+export type TracingEnv = ConfigOf<typeof tracingVariables>;
+export type ClientConfig = ConfigOf<typeof clientVariables>;
+
+export function loadServerConfig(env: Env = process.env): ServerConfig {
+  return parseConfig(serverVariables, env, { scope: 'server', hint: 'Set them in server/.env (see server/.env.example).' });
+}
+
+// Named apart from loadTracingConfig of tracing/tracing-config.ts (tracing.config.json)
+export function loadTracingEnv(env: Env = process.env): TracingEnv {
+  return parseConfig(tracingVariables, env, { scope: 'tracing', hint: 'Set them in server/.env (see server/.env.example).' });
+}
+
+export function loadClientConfig(env: Env): ClientConfig {
+  return parseConfig(clientVariables, env, { scope: 'client', hint: 'Set them in client/.env (see client/.env.example).' });
+}
+
+// Contents of the generated .env.example files, relative to the repository root
+export const ENV_EXAMPLES: Record<string, { header: string; sections: EnvExampleSection[] }> = {
+  'server/.env.example': {
+    header: 'Server environment (copy to server/.env). Generated from server/src/config/variables.ts: npm run env:example',
+    sections: [
+      { schema: serverVariables },
+      { title: 'Tracing (npm run dev:instrumented)', schema: tracingVariables, commented: true }
+    ]
+  },
+  'client/.env.example': {
+    header: 'Client environment (copy to client/.env). Generated from server/src/config/variables.ts: npm run env:example',
+    sections: [{ schema: clientVariables }]
+  }
+};
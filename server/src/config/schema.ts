@@ -0,0 +1,198 @@
+/**
+ * Declarative environment schema. Each variable declares its type, a description, and either
+ * a default or whether it is required. parseConfig checks a whole environment and reports every
+ * problem at once; formatEnvExample renders schemas as a `.env.example` file.
+ * No Node APIs, so the Vite config and the dev tooling can share it with the server.
+ */
+
+export type Env = Record<string, string | undefined>;
+
+export interface Variable<T, Optional extends boolean = boolean> {
+  // Human readable type, used in reports and .env.example (e.g. "port", "supabase | memory")
+  type: string;
+  description: string;
+  required: boolean;
+  default: T | undefined;
+  // .env.example value for variables without a default
+  example: string | undefined;
+  // Never echoed in reports
+  secret: boolean;
+  // Throws an Error whose message completes "NAME ..." when the raw value is invalid
+  parse(raw: string): T;
+  // A method, not a function property: method parameters are bivariant, so any Variable<T> is a Variable<unknown>
+  format(value: T): string;
+  // Type-level only: whether the parsed value may be undefined
+  readonly optional?: Optional;
+}
+
+export interface VariableOptions<T> {
+  description: string;
+  required?: boolean;
+  default?: T;
+  example?: string;
+  secret?: boolean;
+}
+
+export type Schema = Record<string, Variable<unknown>>;
+
+type IsOptional<O> = O extends { required: true } ? false : O extends { default: unknown } ? false : true;
+
+export type ConfigOf<S extends Schema> = {
+  readonly [K in keyof S]: S[K] extends Variable<infer T, infer O> ? (O extends false ? T : T | undefined) : never;
+};
+
+export class ConfigError extends Error {
+  readonly problems: string[];
+
+  constructor(scope: string, problems: string[], hint?: string) {
+    const lines = [`Invalid ${scope} configuration (${problems.length} problem${problems.length === 1 ? '' : 's'}):`];
+    lines.push(...problems.map(p => `  - ${p}`));
+    if (hint) lines.push(hint);
+    super(lines.join('\n'));
+    this.name = 'ConfigError';
+    this.problems = problems;
+  }
+}
+
+function define<T>(type: string, parse: (raw: string) => T, format: (value: T) => string = String) {
+  return <O extends VariableOptions<T>>(options: O): Variable<T, IsOptional<O>> => ({
+    type,
+    description: options.description,
+    required: options.required ?? false,
+    default: options.default,
+    example: options.example,
+    secret: options.secret ?? false,
+    parse,
+    format
+  });
+}
+
+interface Range {
+  min?: number;
+  max?: number;
+}
+
+// "integer", "integer >= 0", "number between 0 and 1"...
+function rangeType(type: string, min: number, max: number): string {
+  const hasMin = Number.isFinite(min) && min !== Number.MIN_SAFE_INTEGER;
+  const hasMax = Number.isFinite(max) && max !== Number.MAX_SAFE_INTEGER;
+  if (hasMin && hasMax) return `${type} between ${min} and ${max}`;
+  if (hasMin) return `${type} >= ${min}`;
+  if (hasMax) return `${type} <= ${max}`;
+  return type;
+}
+
+function parseInteger(raw: string, min: number, max: number): number {
+  const value = Number(raw);
+  if (!/^-?\d+$/.test(raw) || value < min || value > max) {
+    throw new Error(`must be an ${rangeType('integer', min, max)}`);
+  }
+  return value;
+}
+
+function parseUrl(raw: string): string {
+  let protocol: string;
+  try {
+    protocol = new URL(raw).protocol;
+  } catch {
+    throw new Error('must be an http(s) URL');
+  }
+  if (protocol !== 'http:' && protocol !== 'https:') throw new Error('must be an http(s) URL');
+  return raw;
+}
+
+const TRUE = ['true', '1', 'yes', 'on'];
+const FALSE = ['false', '0', 'no', 'off'];
+
+/** Variable builders; the parsed type follows the builder, `required`/`default` drop `undefined`. */
+export const variable = {
+  string: define<string>('string', raw => raw),
+  integer: <O extends VariableOptions<number> & Range>({ min = Number.MIN_SAFE_INTEGER, max = Number.MAX_SAFE_INTEGER, ...options }: O) =>
+    define<number>(rangeType('integer', min, max), raw => parseInteger(raw, min, max))(options as O),
+  port: define<number>('port', raw => parseInteger(raw, 1, 65535)),
+  number: <O extends VariableOptions<number> & Range>({ min = -Infinity, max = Infinity, ...options }: O) =>
+    define<number>(rangeType('number', min, max), raw => {
+      const value = Number(raw);
+      if (!Number.isFinite(value) || value < min || value > max) throw new Error(`must be a ${rangeType('number', min, max)}`);
+      return value;
+    })(options as O),
+  url: define<string>('http(s) URL', parseUrl),
+  boolean: define<boolean>('boolean', raw => {
+    const value = raw.toLowerCase();
+    if (TRUE.includes(value)) return true;
+    if (FALSE.includes(value)) return false;
+    throw new Error('must be true or false');
+  }),
+  oneOf: <const V extends readonly string[]>(values: V) => define<V[number]>(values.join(' | '), raw => {
+    if (!values.includes(raw)) throw new Error(`must be one of ${values.map(v => `"${v}"`).join(', ')}`);
+    return raw as V[number];
+  }),
+  // Comma separated, blank entries dropped
+  list: define<string[]>('comma separated list', raw => raw.split(',').map(s => s.trim()).filter(Boolean), value => value.join(','))
+};
+
+export interface ParseOptions<S extends Schema> {
+  // Named in the report: "Invalid <scope> configuration"
+  scope: string;
+  // Printed under the problems, e.g. where to set the variables
+  hint?: string;
+  // Rules across variables; variables that failed to parse are undefined here
+  check?: (config: Partial<ConfigOf<S>>) => string[];
+}
+
+/**
+ * Parses `env` against `schema`. Empty values count as unset. Throws a ConfigError listing
+ * every missing or invalid variable, then the problems reported by `check`.
+ */
+export function parseConfig<S extends Schema>(schema: S, env: Env, options: ParseOptions<S>): ConfigOf<S> {
+  const problems: string[] = [];
+  const config: Record<string, unknown> = {};
+
+  for (const [name, spec] of Object.entries(schema)) {
+    const raw = env[name]?.trim();
+    if (!raw) {
+      if (spec.default !== undefined) config[name] = spec.default;
+      else if (spec.required) problems.push(`${name} is required: ${spec.description}`);
+      continue;
+    }
+    try {
+      config[name] = spec.parse(raw);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      problems.push(`${name} ${reason}${spec.secret ? '' : ` (got "${raw}")`}`);
+    }
+  }
+
+  const parsed = config as ConfigOf<S>;
+  if (options.check) problems.push(...options.check(parsed));
+  if (problems.length) throw new ConfigError(options.scope, problems, options.hint);
+  return parsed;
+}
+
+export interface EnvExampleSection {
+  title?: string;
+  schema: Schema;
+  // Every variable commented out, for settings that are rarely changed
+  commented?: boolean;
+}
+
+/** `.env.example` contents: each variable with its description, type and default or example value. */
+export function formatEnvExample(sections: EnvExampleSection[], header?: string): string {
+  const blocks: string[] = [];
+  if (header) blocks.push(header.split('\n').map(line => `# ${line}`.trimEnd()).join('\n'));
+
+  for (const section of sections) {
+    const lines: string[] = [];
+    if (section.title) lines.push(`# --- ${section.title} ---`);
+    for (const [name, spec] of Object.entries(section.schema)) {
+      const notes = [spec.type, spec.required ? 'required' : spec.default !== undefined ? `default: ${spec.format(spec.default)}` : 'optional'];
+      lines.push(`# ${spec.description} (${notes.join(', ')})`);
+      const value = spec.default !== undefined ? spec.format(spec.default) : spec.example ?? '';
+      // Optional variables without a default stay unset until uncommented
+      const commented = section.commented || (!spec.required && spec.default === undefined);
+      lines.push(`${commented ? '# ' : ''}${name}=${value}`);
+    }
+    blocks.push(lines.join('\n'));
+  }
+  return blocks.join('\n\n') + '\n';
+}
@@ -0,0 +1,196 @@
+import { variable } from './schema.js';
+
+/**
+ * Every environment variable of the app, grouped by where it is read:
+ * - server: server/.env, read by src/index.ts and the modules it loads
+ * - tracing: server/.env, read by the tracing runtime of `npm run dev:instrumented` (tracing/runtime)
+ * - client: client/.env, read by vite.config.ts; VITE_* values are also exposed to the browser code
+ * The .env.example files are generated from these (npm run env:example).
+ */
+
+export const databaseVariables = {
+  DATA_BACKEND: variable.oneOf(['supabase', 'memory'])({
+    description: 'Data backend; memory is an in-process stand-in that needs no Supabase project',
+    default: 'supabase'
+  }),
+  SUPABASE_URL: variable.url({
+    description: 'Supabase project URL, required when DATA_BACKEND=supabase',
+    example: 'https://<project-ref>.supabase.co'
+  }),
+  SUPABASE_SERVICE_ROLE_KEY: variable.string({
+    description: 'Server key, bypasses row level security (Project Settings > API)',
+    secret: true
+  }),
+  SUPABASE_ANON_KEY: variable.string({
+    description: 'Public key, used when no service role key is set',
+    secret: true
+  })
+};
+
+export const serverVariables = {
+  PORT: variable.port({
+    description: 'Port of the API server (the client proxies /api to VITE_BACKEND_URL)',
+    default: 3000
+  }),
+  NODE_ENV: variable.oneOf(['development', 'production', 'test'])({
+    description: 'Runtime mode; production serves the built client and disables the dev-only trace endpoints',
+    default: 'development'
+  }),
+  CLIENT_DIST_DIR: variable.string({
+    description: 'Built client served in production (npm run build:client), relative to the server directory',
+    default: '../client/dist'
+  }),
+  BUILD_VERSION: variable.string({
+    description: 'Version reported by /api/health/ready (e.g. the git commit); the server package version when unset',
+    example: 'abc1234'
+  }),
+  HEALTH_CHECK_TIMEOUT_MS: variable.integer({
+    description: 'Time each readiness check (database, ...) gets before it counts as failed',
+    min: 1,
+    default: 2000
+  }),
+  SHUTDOWN_TIMEOUT_MS: variable.integer({
+    description: 'Time in-flight requests get to finish on SIGTERM/SIGINT before their connections are cut',
+    min: 0,
+    default: 10000
+  }),
+  CORS_ALLOWED_ORIGINS: variable.list({
+    description: 'Origins whose pages may call the API, as VITE_ALLOWED_HOSTS: a leading dot allows the domain and its sub-domains; the server\'s own host is always allowed, localhost outside production',
+    default: ['.app.buildpanel.ai']
+  }),
+  CONTENT_SECURITY_POLICY: variable.string({
+    description: 'Content-Security-Policy header of every response; the default allows the app\'s own scripts and styles and Supabase (src/security/headers.ts)',
+    example: "default-src 'self'"
+  }),
+  JSON_BODY_LIMIT_BYTES: variable.integer({
+    description: 'Largest JSON request body; larger ones answer 413',
+    min: 1,
+    default: 102400
+  }),
+  RATE_LIMIT_WINDOW_MS: variable.integer({
+    description: 'Rate limiting window of the API',
+    min: 1000,
+    default: 60000
+  }),
+  RATE_LIMIT_MAX: variable.integer({
+    description: 'Requests a client (IP) may send to each API route per window before answering 429; 0 turns rate limiting off',
+    min: 0,
+    default: 300
+  }),
+  TRUST_PROXY: variable.string({
+    description: 'Reverse proxies trusted for the client IP (X-Forwarded-For), as Express\'s trust proxy: hop count, true, or addresses/subnets',
+    example: 'loopback'
+  }),
+  ...databaseVariables,
+  SUPABASE_JWT_SECRET: variable.string({
+    description: 'Verifies Supabase access tokens (Project Settings > API > JWT secret); authenticated routes answer 500 without it',
+    secret: true
+  })
+};
+
+// Defaults mirror the ones applied by tracing/runtime (sinks.ts, serializer.ts, controls.ts)
+export const tracingVariables = {
+  TRACE_SINKS: variable.list({
+    description: 'Trace sinks: stdout, jsonl, memory',
+    default: ['stdout']
+  }),
+  TRACE_FILE: variable.string({
+    description: 'File of the jsonl sink',
+    default: 'tracing/tracing.jsonl'
+  }),
+  TRACE_MAX_BYTES: variable.integer({
+    description: 'Rotate the jsonl file at this size',
+    min: 1,
+    example: '10485760'
+  }),
+  TRACE_ROTATE_INTERVAL_MS: variable.integer({
+    description: 'Rotate the jsonl file at this age',
+    min: 1,
+    example: '3600000'
+  }),
+  TRACE_MAX_FILES: variable.integer({
+    description: 'Rotated jsonl files to keep',
+    min: 1,
+    example: '5'
+  }),
+  TRACE_BUFFER_SIZE: variable.integer({
+    description: 'Events kept by the memory sink',
+    min: 1,
+    example: '1000'
+  }),
+  TRACE_REDACT_KEYS: variable.list({
+    description: 'Extra payload keys to redact, added to the built-in ones',
+    example: 'ssn,iban'
+  }),
+  TRACE_MAX_DEPTH: variable.integer({
+    description: 'Max depth of serialized payloads',
+    min: 1,
+    default: 6
+  }),
+  TRACE_MAX_STRING: variable.integer({
+    description: 'Max length of serialized strings',
+    min: 1,
+    default: 2000
+  }),
+  TRACE_MAX_ARRAY: variable.integer({
+    description: 'Max items serialized per array, Map or Set',
+    min: 1,
+    default: 50
+  }),
+  TRACE_SAMPLE_RATE: variable.number({
+    description: 'Share of requests traced, overrides sampling.endpoints of tracing.config.json',
+    min: 0,
+    max: 1,
+    example: '1'
+  }),
+  TRACE_TOGGLES: variable.string({
+    description: 'Runtime toggles added to tracing.config.json, e.g. file:src/hot/**=off,route:/api/health=off',
+    example: 'route:/api/health=off'
+  }),
+  TRACE_ADMIN_PORT: variable.port({
+    description: 'Port of the local tracing admin endpoint (127.0.0.1)',
+    example: '9230'
+  }),
+  TRACE_PROFILE_FILE: variable.string({
+    description: 'At exit, write the per-function profile here as folded stacks (flame graphs) and print its summary; npm run dev:instrumented defaults it to tracing/profile.folded',
+    example: 'tracing/profile.folded'
+  }),
+  TRACE_COVERAGE_FILE: variable.string({
+    description: 'At exit, add the instrumented targets that ran to this file (npm run trace:query -- coverage); npm run dev:instrumented defaults it to tracing/coverage.json, emptied when it starts',
+    example: 'tracing/coverage.json'
+  }),
+  TRACE_RECORD_DIR: variable.string({
+    description: 'Save each traced request and its response as a fixture in this directory, for npm run trace:replay',
+    example: 'tracing/recordings'
+  }),
+  TRACE_PROPAGATION: variable.oneOf(['on', 'off'])({
+    description: 'Add traceparent headers to outbound fetch calls',
+    default: 'on'
+  }),
+  TRACING_CONFIG: variable.string({
+    description: 'Path of the tracing config file',
+    default: 'tracing.config.json'
+  })
+};
+
+export const clientVariables = {
+  VITE_FRONTEND_PORT: variable.port({
+    description: 'Port of the Vite dev server',
+    default: 5173
+  }),
+  VITE_BACKEND_URL: variable.url({
+    description: 'API server the dev server proxies /api to',
+    default: 'http://localhost:3000'
+  }),
+  VITE_ALLOWED_HOSTS: variable.list({
+    description: 'Host names the dev server answers besides localhost; a leading dot allows the domain and its sub-domains',
+    default: ['.app.buildpanel.ai']
+  }),
+  VITE_SUPABASE_URL: variable.url({
+    description: 'Supabase project URL for Supabase Auth; sign-in is disabled without it',
+    example: 'https://<project-ref>.supabase.co'
+  }),
+  VITE_SUPABASE_ANON_KEY: variable.string({
+    description: 'Supabase public (anon) key; public, shipped to the browser'
+  })
+};
@@ -0,0 +1,142 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import express from 'express';
+import { contract, defineEndpoint, buildUrl, endpointCall, ApiError, NetworkError, parse, s } from '../index.js';
+import { handle } from '../express.js';
+import { errorHandler } from '../../errors/index.js';
+import { formatApiClient, API_CLIENT_FILE } from '../codegen.js';
+
+const REPO_ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../../..');
+
+const updateTodo = defineEndpoint({
+  method: 'PATCH',
+  path: '/api/todos/:id',
+  description: 'Update a todo',
+  params: s.object({ id: s.number({ integer: true, min: 1 }) }),
+  query: s.object({ notify: s.boolean().optional(), tags: s.array(s.string()).optional() }),
+  body: s.object({ title: s.string({ min: 1 }), done: s.boolean().optional() }),
+  response: s.object({ id: s.number(), title: s.string(), done: s.boolean(), notify: s.boolean(), tags: s.array(s.string()) })
+});
+
+describe('schemas', () => {
+  it('infer and check objects, keeping declared keys only', () => {
+    const schema = s.object({ name: s.string(), age: s.number().optional(), tags: s.array(s.oneOf(['a', 'b'])) });
+    const result = parse(schema, { name: 'x', tags: ['a'], extra: true });
+    assert.deepEqual(result, { ok: true, value: { name: 'x', tags: ['a'] } });
+    if (result.ok) {
+      const name: string = result.value.name;
+      const age: number | undefined = result.value.age;
+      assert.equal(name, 'x');
+      assert.equal(age, undefined);
+    }
+  });
+
+  it('report every issue with its path', () => {
+    const result = parse(updateTodo.body, { title: '', done: 'yes' }, { path: 'body' });
+    assert.deepEqual(result, { ok: false, issues: [
+      { path: 'body.title', message: 'must be at least 1 character(s)' },
+      { path: 'body.done', message: 'expected a boolean, got string' }
+    ] });
+    assert.deepEqual(parse(s.object({ id: s.string() }), {}), { ok: false, issues: [{ path: 'id', message: 'is required' }] });
+  });
+
+  it('read numbers and booleans from strings in coerce mode only', () => {
+    assert.deepEqual(parse(updateTodo.params, { id: '7' }, { coerce: true }), { ok: true, value: { id: 7 } });
+    assert.equal(parse(updateTodo.params, { id: '7' }).ok, false);
+    assert.equal(parse(updateTodo.params, { id: '7.5' }, { coerce: true }).ok, false);
+    assert.deepEqual(parse(s.string().optional().nullable(), undefined), { ok: true, value: undefined });
+  });
+});
+
+describe('buildUrl', () => {
+  it('fills path parameters and appends the query', () => {
+    assert.equal(buildUrl(updateTodo, { params: { id: 3 }, query: { notify: true, tags: ['a b', 'c'], skip: undefined } }),
+      '/api/todos/3?notify=true&tags=a+b&tags=c');
+    assert.throws(() => buildUrl(updateTodo), /Missing path parameter "id"/);
+  });
+});
+
+describe('handle() and endpointCall()', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    const app = express();
+    app.use(express.json());
+    app.patch(updateTodo.path, handle(updateTodo, (req, res) => {
+      res.json({ id: req.params.id, title: req.body.title, done: req.body.done ?? false, notify: req.query.notify ?? false, tags: req.query.tags ?? [] });
+    }));
+    // Registered with the wrong method on purpose
+    app.post(updateTodo.path, handle(updateTodo, (req, res) => {
+      res.status(500).end();
+    }));
+    app.use(errorHandler({ log: () => {} }));
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  it('passes parsed params, query and body to the handler', async () => {
+    const call = endpointCall(updateTodo);
+    const todo = await call({ params: { id: 4 }, query: { notify: true, tags: ['x'] }, body: { title: 'Write tests' } }, { baseUrl });
+    assert.deepEqual(todo, { id: 4, title: 'Write tests', done: false, notify: true, tags: ['x'] });
+  });
+
+  it('answers 400 with the issues of an invalid request', async () => {
+    const response = await fetch(`${baseUrl}/api/todos/abc?notify=maybe`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ done: 1 })
+    });
+    assert.equal(response.status, 400);
+    assert.deepEqual(await response.json(), { error: {
+      code: 'validation_failed',
+      message: 'Invalid request',
+      details: { issues: [
+        { path: 'params.id', message: 'expected an integer, got "abc"' },
+        { path: 'query.notify', message: 'expected a boolean, got string' },
+        { path: 'body.title', message: 'is required' },
+        { path: 'body.done', message: 'expected a boolean, got number' }
+      ] },
+      requestId: ''
+    } });
+
+    await assert.rejects(endpointCall(updateTodo)({ params: { id: 0 }, body: { title: 'x' } }, { baseUrl }),
+      (error: ApiError) => error instanceof ApiError && error.status === 400 && error.code === 'validation_failed'
+        && error.message === 'Invalid request');
+  });
+
+  it('refuses a route registered with another method than declared', async () => {
+    const response = await fetch(`${baseUrl}/api/todos/1`, { method: 'POST' });
+    assert.equal(response.status, 500);
+    assert.equal(((await response.json()) as { error: { code: string } }).error.code, 'internal_server_error');
+  });
+
+  it('rejects with NetworkError when the server cannot be reached, and passes aborts through', async () => {
+    const closed = express().listen(0);
+    await new Promise(resolve => closed.once('listening', resolve));
+    const port = (closed.address() as AddressInfo).port;
+    await new Promise<void>(resolve => closed.close(() => resolve()));
+
+    const call = endpointCall(updateTodo);
+    await assert.rejects(call({ params: { id: 1 }, body: { title: 'x' } }, { baseUrl: `http://127.0.0.1:${port}` }),
+      (error: NetworkError) => error instanceof NetworkError && error.cause instanceof TypeError
+        && error.message === 'PATCH /api/todos/:id could not reach the server');
+    await assert.rejects(call({ params: { id: 1 }, body: { title: 'x' } }, { baseUrl, signal: AbortSignal.abort() }),
+      (error: Error) => !(error instanceof NetworkError) && error.name === 'AbortError');
+  });
+});
+
+describe('generated client', () => {
+  it('matches the contract', () => {
+    assert.equal(fs.readFileSync(path.join(REPO_ROOT, API_CLIENT_FILE), 'utf-8'), formatApiClient(contract),
+      `${API_CLIENT_FILE} is out of date, run npm run api:client`);
+  });
+});
@@ -0,0 +1,75 @@
+import { buildUrl, type Endpoint, type RequestInput, type ResponseOf } from './endpoint.js';
+import { isErrorEnvelope } from './errors.js';
+
+/**
+ * Typed fetch calls for contract endpoints, used by the generated client (client/src/api).
+ * Relative URLs by default, so browser calls go through the Vite `/api` proxy.
+ * Non-2xx responses reject with ApiError carrying the status and the parsed body; when the body is
+ * the API's error envelope (errors.ts), its code, message, details and request id are lifted onto it.
+ * When fetch itself fails (server down, DNS, CORS, offline) the call rejects with NetworkError instead,
+ * whatever the browser's wording ("Failed to fetch", "Load failed", "NetworkError when...").
+ */
+
+export interface RequestOptions extends Omit<RequestInit, 'method' | 'body'> {
+  // Prepended to the endpoint path, e.g. http://localhost:3000 outside the browser
+  baseUrl?: string;
+}
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly body: unknown;
+  // From the error envelope; `http_<status>` when the body is not one (e.g. a proxy's error page)
+  readonly code: string;
+  readonly details: unknown;
+  readonly requestId: string | undefined;
+
+  constructor(endpoint: Endpoint, status: number, body: unknown) {
+    const envelope = isErrorEnvelope(body) ? body.error : undefined;
+    super(envelope?.message ?? `${endpoint.method} ${endpoint.path} failed with ${status}`);
+    this.name = 'ApiError';
+    this.status = status;
+    this.body = body;
+    this.code = envelope?.code ?? `http_${status}`;
+    this.details = envelope?.details;
+    this.requestId = envelope?.requestId;
+  }
+}
+
+export class NetworkError extends Error {
+  constructor(endpoint: Endpoint, cause: unknown) {
+    super(`${endpoint.method} ${endpoint.path} could not reach the server`, { cause });
+    this.name = 'NetworkError';
+  }
+}
+
+// Input may be left out when the endpoint declares no required parts
+export type EndpointCall<E extends Endpoint> = {} extends RequestInput<E>
+  ? (input?: RequestInput<E>, options?: RequestOptions) => Promise<ResponseOf<E>>
+  : (input: RequestInput<E>, options?: RequestOptions) => Promise<ResponseOf<E>>;
+
+async function readBody(response: Response): Promise<unknown> {
+  if (response.status === 204) return undefined;
+  const text = await response.text();
+  if (!text) return undefined;
+  return response.headers.get('content-type')?.includes('json') ? JSON.parse(text) : text;
+}
+
+export function endpointCall<E extends Endpoint>(endpoint: E): EndpointCall<E> {
+  const call = async (input: { params?: object; query?: object; body?: unknown } = {}, options: RequestOptions = {}) => {
+    const { baseUrl = '', headers, ...init } = options;
+    const hasBody = input.body !== undefined;
+    const response = await fetch(baseUrl + buildUrl(endpoint, input), {
+      ...init,
+      method: endpoint.method,
+      headers: { ...(hasBody ? { 'Content-Type': 'application/json' } : {}), ...Object.fromEntries(new Headers(headers)) },
+      ...(hasBody ? { body: JSON.stringify(input.body) } : {})
+    }).catch((error: unknown) => {
+      // fetch rejects with a TypeError on network failures; aborts (AbortError) pass through as they are
+      throw error instanceof TypeError ? new NetworkError(endpoint, error) : error;
+    });
+    const body = await readBody(response);
+    if (!response.ok) throw new ApiError(endpoint, response.status, body);
+    return body as ResponseOf<E>;
+  };
+  return call as EndpointCall<E>;
+}
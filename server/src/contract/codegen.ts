@@ -0,0 +1,33 @@
+import type { Endpoint } from './endpoint.js';
+
+// Relative to the repository root
+export const API_CLIENT_FILE = 'client/src/api/client.ts';
+// The contract as imported from API_CLIENT_FILE
+const CONTRACT_IMPORT = '../../../server/src/contract';
+
+/**
+ * Source of the client's API module (client/src/api/client.ts): one typed call per contract
+ * endpoint, documented with its method and path. Written by `npm run api:client`.
+ */
+export function formatApiClient(contract: Record<string, Endpoint>): string {
+  const calls = Object.entries(contract).map(([name, endpoint]) => {
+    const notes = endpoint.auth ? ' (needs a Supabase access token: pass authHeaders(session) as headers)' : '';
+    return [
+      `  /** ${endpoint.method} ${endpoint.path}: ${endpoint.description}${notes} */`,
+      `  ${name}: endpointCall(contract.${name})`
+    ].join('\n');
+  });
+  return [
+    '// Generated from server/src/contract/endpoints.ts by `npm run api:client`, do not edit',
+    `import { contract, endpointCall } from '${CONTRACT_IMPORT}'`,
+    '',
+    `export { ApiError, NetworkError } from '${CONTRACT_IMPORT}'`,
+    `export type { RequestOptions } from '${CONTRACT_IMPORT}'`,
+    '',
+    '// Relative URLs: in development the Vite dev server proxies /api to the API server',
+    'export const api = {',
+    calls.join(',\n'),
+    '}',
+    ''
+  ].join('\n');
+}
@@ -0,0 +1,61 @@
+import type { Infer, Schema } from './schema.js';
+
+/**
+ * An API endpoint as declared in the contract (endpoints.ts): method, path (Express syntax,
+ * `:name` parameters) and the schemas of its params, query, body and response.
+ * The server validates params/query/body against them (express.ts); the client takes its
+ * argument and result types from them (client.ts).
+ */
+
+export type Method = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface Endpoint {
+  method: Method;
+  path: string;
+  description: string;
+  // Needs a Supabase access token (`Authorization: Bearer ...`)
+  auth?: boolean;
+  params?: Schema<Record<string, unknown>>;
+  query?: Schema<Record<string, unknown>>;
+  body?: Schema<unknown>;
+  response: Schema<unknown>;
+}
+
+// `const` keeps method and path literal: the tracer reads route paths from their types
+export function defineEndpoint<const E extends Endpoint>(endpoint: E): E {
+  return endpoint;
+}
+
+type Empty = Record<string, never>;
+
+export type ParamsOf<E extends Endpoint> = E extends { params: Schema<infer T> } ? T : Empty;
+export type QueryOf<E extends Endpoint> = E extends { query: Schema<infer T> } ? T : Empty;
+export type BodyOf<E extends Endpoint> = E extends { body: Schema<infer T> } ? T : undefined;
+export type ResponseOf<E extends Endpoint> = Infer<E['response']>;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+// Client call argument: the parts the endpoint declares; query may be left out when all its keys are optional
+export type RequestInput<E extends Endpoint> = Simplify<
+  (E extends { params: Schema<infer P> } ? { params: P } : unknown) &
+  (E extends { query: Schema<infer Q> } ? ({} extends Q ? { query?: Q } : { query: Q }) : unknown) &
+  (E extends { body: Schema<infer B> } ? { body: B } : unknown)
+>;
+
+// Path with `:name` parameters filled in and the query string appended (undefined values left out)
+export function buildUrl(endpoint: Endpoint, input: { params?: object; query?: object } = {}): string {
+  const params = (input.params ?? {}) as Record<string, unknown>;
+  const path = endpoint.path.replace(/:(\w+)/g, (_, name: string) => {
+    if (params[name] === undefined) throw new Error(`Missing path parameter "${name}" for ${endpoint.method} ${endpoint.path}`);
+    return encodeURIComponent(String(params[name]));
+  });
+
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(input.query ?? {})) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item !== undefined && item !== null) search.append(key, String(item));
+    }
+  }
+  const query = search.toString();
+  return query ? `${path}?${query}` : path;
+}
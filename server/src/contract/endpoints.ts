@@ -0,0 +1,48 @@
+import { defineEndpoint } from './endpoint.js';
+import { s } from './schema.js';
+
+/**
+ * The API served by src/index.ts and called by the client (client/src/api, generated from this
+ * file by `npm run api:client`). Renaming a route or a field here breaks the type-check of
+ * both workspaces until the handlers and callers follow.
+ */
+export const contract = {
+  health: defineEndpoint({
+    method: 'GET',
+    path: '/api/health',
+    description: 'Liveness: the process is up (no dependency is checked)',
+    response: s.object({ status: s.literal('OK') })
+  }),
+
+  ready: defineEndpoint({
+    method: 'GET',
+    path: '/api/health/ready',
+    description: 'Readiness: dependency checks, version and uptime; 503 unless ready',
+    response: s.object({
+      status: s.oneOf(['ready', 'not_ready', 'draining']),
+      version: s.string(),
+      uptime_s: s.number(),
+      checks: s.array(s.object({
+        name: s.string(),
+        status: s.oneOf(['ok', 'error', 'timeout']),
+        latency_ms: s.number(),
+        error: s.string().optional()
+      }))
+    })
+  }),
+
+  me: defineEndpoint({
+    method: 'GET',
+    path: '/api/me',
+    description: 'The signed-in user',
+    auth: true,
+    response: s.object({
+      id: s.string(),
+      email: s.string().nullable(),
+      role: s.string(),
+      roles: s.array(s.string())
+    })
+  })
+};
+
+export type Contract = typeof contract;
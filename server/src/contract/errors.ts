@@ -0,0 +1,22 @@
+import { parse, s, type Infer } from './schema.js';
+
+/**
+ * Body of every error answered by the API (src/errors): a stable `code` to branch on, a message
+ * for people, optional details (e.g. validation issues) and the request id to find it in the logs.
+ * `stack` is only sent in development.
+ */
+export const errorEnvelope = s.object({
+  error: s.object({
+    code: s.string(),
+    message: s.string(),
+    details: s.unknown().optional(),
+    requestId: s.string(),
+    stack: s.string().optional()
+  })
+});
+
+export type ErrorEnvelope = Infer<typeof errorEnvelope>;
+
+export function isErrorEnvelope(value: unknown): value is ErrorEnvelope {
+  return parse(errorEnvelope, value).ok;
+}
@@ -0,0 +1,50 @@
+import type { RequestHandler } from 'express';
+import { ValidationError } from '../errors/index.js';
+import { parse, type Issue, type Schema } from './schema.js';
+import type { BodyOf, Endpoint, ParamsOf, QueryOf, ResponseOf } from './endpoint.js';
+
+/**
+ * Express side of the contract. Routes keep their plain registration, so the tracer still sees
+ * them; handle() wraps the route handler, which gets its types from the endpoint:
+ *
+ *   app.get(contract.me.path, authenticate(), handle(contract.me, (req, res) => { ... }));
+ *
+ * Invalid params, query or body are passed on as a ValidationError (400 `validation_failed` with
+ * `details.issues: [{ path, message }]`, see src/errors) before the handler runs; valid ones
+ * replace req.params/req.query/req.body with the parsed values (numbers and booleans of params
+ * and query converted, undeclared keys dropped).
+ */
+
+export type ContractHandler<E extends Endpoint> = RequestHandler<ParamsOf<E>, ResponseOf<E>, BodyOf<E>, QueryOf<E>>;
+
+function check(schema: Schema<unknown> | undefined, value: unknown, path: string, issues: Issue[], coerce: boolean): unknown {
+  if (!schema) return value;
+  const result = parse(schema, value, { path, coerce });
+  if (!result.ok) issues.push(...result.issues);
+  return result.ok ? result.value : value;
+}
+
+export function handle<E extends Endpoint>(endpoint: E, handler: ContractHandler<E>): ContractHandler<E> {
+  return (req, res, next) => {
+    if (req.method !== endpoint.method && !(req.method === 'HEAD' && endpoint.method === 'GET')) {
+      next(new Error(`${endpoint.method} ${endpoint.path} is registered for ${req.method}`));
+      return;
+    }
+
+    const issues: Issue[] = [];
+    const params = check(endpoint.params, req.params, 'params', issues, true);
+    const query = check(endpoint.query, req.query, 'query', issues, true);
+    // No body schema: whatever express.json() produced is left alone
+    const body = check(endpoint.body, req.body, 'body', issues, false);
+    if (issues.length) {
+      next(new ValidationError(issues));
+      return;
+    }
+
+    req.params = params as ParamsOf<E>;
+    // req.query is a getter in Express 5: shadow it on the request
+    Object.defineProperty(req, 'query', { value: query, writable: true, configurable: true, enumerable: true });
+    req.body = body as BodyOf<E>;
+    return handler(req, res, next);
+  };
+}
@@ -0,0 +1,15 @@
+/**
+ * Shared API contract: endpoint declarations and the schemas they are checked against.
+ * Browser-safe: the client imports this barrel; the Express binding (express.ts) is
+ * imported by the server on its own.
+ */
+export { contract } from './endpoints.js';
+export type { Contract } from './endpoints.js';
+export { defineEndpoint, buildUrl } from './endpoint.js';
+export type { Endpoint, Method, ParamsOf, QueryOf, BodyOf, ResponseOf, RequestInput } from './endpoint.js';
+export { s, parse } from './schema.js';
+export type { Schema, Infer, Issue, ParseResult } from './schema.js';
+export { errorEnvelope, isErrorEnvelope } from './errors.js';
+export type { ErrorEnvelope } from './errors.js';
+export { endpointCall, ApiError, NetworkError } from './client.js';
+export type { EndpointCall, RequestOptions } from './client.js';
@@ -0,0 +1,146 @@
+/**
+ * Minimal runtime schemas for the API contract: each schema checks a value and carries its
+ * TypeScript type (Infer<typeof schema>), so the server validates requests and the client is
+ * typed from the same declaration. Browser-safe (the client imports the contract).
+ * - Objects keep declared keys only; `.optional()` keys may be missing
+ * - In coerce mode (path params and query strings) numbers and booleans are also read from strings
+ */
+
+export interface Issue {
+  // e.g. "query.limit", "body.items[2].title"
+  path: string;
+  message: string;
+}
+
+export interface CheckContext {
+  issues: Issue[];
+  coerce: boolean;
+}
+
+export interface Schema<T> {
+  // Shown in messages, e.g. "string", "integer >= 1"
+  readonly type: string;
+  // Pushes an issue per problem; the returned value is only meaningful when none were pushed
+  check(value: unknown, path: string, context: CheckContext): T;
+  optional(): Schema<T | undefined>;
+  nullable(): Schema<T | null>;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+type Shape = Record<string, Schema<unknown>>;
+type InferShape<S extends Shape> = Simplify<
+  { [K in keyof S as undefined extends Infer<S[K]> ? never : K]: Infer<S[K]> } &
+  { [K in keyof S as undefined extends Infer<S[K]> ? K : never]?: Infer<S[K]> }
+>;
+
+// `check` only sees defined values: undefined is reported as missing unless the schema is optional()
+function define<T>(type: string, check: (value: unknown, path: string, context: CheckContext) => T, optional = false): Schema<T> {
+  return {
+    type,
+    check: (value, path, context) => {
+      if (value !== undefined) return check(value, path, context);
+      return optional ? (undefined as T) : fail(context, path, 'is required');
+    },
+    optional: () => define<T | undefined>(`${type} (optional)`, check, true),
+    nullable: () => define<T | null>(`${type} | null`, (value, path, context) => (value === null ? null : check(value, path, context)), optional)
+  };
+}
+
+function fail<T>(context: CheckContext, path: string, message: string): T {
+  context.issues.push({ path, message });
+  return undefined as T;
+}
+
+function kindOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+interface StringOptions {
+  min?: number;
+  max?: number;
+  pattern?: RegExp;
+}
+
+interface NumberOptions {
+  integer?: boolean;
+  min?: number;
+  max?: number;
+}
+
+export const s = {
+  string: ({ min, max, pattern }: StringOptions = {}) => define<string>('string', (value, path, context) => {
+    if (typeof value !== 'string') return fail(context, path, `expected a string, got ${kindOf(value)}`);
+    if (min !== undefined && value.length < min) return fail(context, path, `must be at least ${min} character(s)`);
+    if (max !== undefined && value.length > max) return fail(context, path, `must be at most ${max} character(s)`);
+    if (pattern && !pattern.test(value)) return fail(context, path, `must match ${pattern}`);
+    return value;
+  }),
+
+  number: ({ integer = false, min, max }: NumberOptions = {}) => define<number>(integer ? 'integer' : 'number', (value, path, context) => {
+    const number = context.coerce && typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    if (typeof number !== 'number' || !Number.isFinite(number)) {
+      return fail(context, path, `expected ${integer ? 'an integer' : 'a number'}, got ${JSON.stringify(value) ?? kindOf(value)}`);
+    }
+    if (integer && !Number.isInteger(number)) return fail(context, path, `expected an integer, got ${number}`);
+    if (min !== undefined && number < min) return fail(context, path, `must be >= ${min}`);
+    if (max !== undefined && number > max) return fail(context, path, `must be <= ${max}`);
+    return number;
+  }),
+
+  boolean: () => define<boolean>('boolean', (value, path, context) => {
+    if (context.coerce && (value === 'true' || value === 'false')) return value === 'true';
+    if (typeof value !== 'boolean') return fail(context, path, `expected a boolean, got ${kindOf(value)}`);
+    return value;
+  }),
+
+  literal: <const V extends string | number | boolean | null>(expected: V) => define<V>(JSON.stringify(expected), (value, path, context) => {
+    if (value !== expected) return fail(context, path, `expected ${JSON.stringify(expected)}, got ${JSON.stringify(value) ?? kindOf(value)}`);
+    return expected;
+  }),
+
+  oneOf: <const V extends readonly string[]>(values: V) => define<V[number]>(values.join(' | '), (value, path, context) => {
+    if (typeof value !== 'string' || !values.includes(value)) {
+      return fail(context, path, `expected one of ${values.map(v => `"${v}"`).join(', ')}, got ${JSON.stringify(value) ?? kindOf(value)}`);
+    }
+    return value as V[number];
+  }),
+
+  array: <T>(item: Schema<T>, { max }: { max?: number } = {}) => define<T[]>(`${item.type}[]`, (value, path, context) => {
+    // A single query string value (`?tag=a`) counts as a one-item list
+    const list = context.coerce && typeof value === 'string' ? [value] : value;
+    if (!Array.isArray(list)) return fail(context, path, `expected an array, got ${kindOf(value)}`);
+    if (max !== undefined && list.length > max) return fail(context, path, `must have at most ${max} item(s)`);
+    return list.map((element, i) => item.check(element, `${path}[${i}]`, context));
+  }),
+
+  object: <S extends Shape>(shape: S) => define<InferShape<S>>('object', (value, path, context) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return fail(context, path, `expected an object, got ${kindOf(value)}`);
+    }
+    const input = value as Record<string, unknown>;
+    const output: Record<string, unknown> = {};
+    for (const [key, schema] of Object.entries(shape)) {
+      const checked = schema.check(input[key], join(path, key), context);
+      if (checked !== undefined) output[key] = checked;
+    }
+    return output as InferShape<S>;
+  }),
+
+  unknown: () => define<unknown>('unknown', value => value)
+};
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; issues: Issue[] };
+
+export function parse<T>(schema: Schema<T>, value: unknown, { path = '', coerce = false } = {}): ParseResult<T> {
+  const context: CheckContext = { issues: [], coerce };
+  const checked = schema.check(value, path, context);
+  return context.issues.length ? { ok: false, issues: context.issues } : { ok: true, value: checked };
+}
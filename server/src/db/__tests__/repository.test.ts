@@ -0,0 +1,87 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { subscribe, unsubscribe } from 'node:diagnostics_channel';
+import { createDatabase, DatabaseError, MemoryBackend } from '../index.js';
+import { databaseConfigFromEnv } from '../config.js';
+
+const backend = new MemoryBackend({ defaults: { todos: { done: false } } });
+const todos = createDatabase({ backend: 'memory' }, backend).repository('todos');
+
+describe('repository on the memory backend', () => {
+  beforeEach(() => backend.reset());
+
+  it('creates rows with defaults and reads them back', async () => {
+    const created = await todos.create({ title: 'write docs' });
+    assert.equal(created.done, false);
+    assert.equal(typeof created.id, 'string');
+    assert.deepEqual(await todos.get(created.id), created);
+    assert.equal(await todos.get('missing'), null);
+  });
+
+  it('lists with filters, order and limit', async () => {
+    await todos.create({ id: 'b', title: 'b', done: true });
+    await todos.create({ id: 'a', title: 'a', done: true });
+    await todos.create({ id: 'c', title: 'c' });
+    const done = await todos.list({ done: true }, { orderBy: { column: 'title' } });
+    assert.deepEqual(done.map(t => t.id), ['a', 'b']);
+    assert.deepEqual((await todos.list({}, { orderBy: { column: 'title', ascending: false }, limit: 1 })).map(t => t.id), ['c']);
+  });
+
+  it('updates and removes by id', async () => {
+    const { id } = await todos.create({ title: 'x' });
+    assert.equal((await todos.update(id, { done: true }))?.done, true);
+    assert.equal(await todos.update('missing', { done: true }), null);
+    assert.equal(await todos.remove(id), true);
+    assert.equal(await todos.remove(id), false);
+  });
+
+  it('rejects duplicate ids', async () => {
+    await todos.create({ id: 'same', title: 'one' });
+    await assert.rejects(todos.create({ id: 'same', title: 'two' }), (error: unknown) =>
+      error instanceof DatabaseError && error.code === '23505');
+  });
+
+  it('does not share row objects with callers', async () => {
+    const created = await todos.create({ title: 'original' });
+    created.title = 'changed';
+    assert.equal((await todos.get(created.id))?.title, 'original');
+  });
+});
+
+describe('query tracing', () => {
+  it('publishes each query when it starts and when it settles', async () => {
+    backend.reset();
+    const messages: Record<string, unknown>[] = [];
+    const listener = (message: unknown) => messages.push({ ...(message as Record<string, unknown>) });
+    subscribe('tracing:queries', listener);
+    try {
+      await todos.list({ done: false }, { limit: 5 });
+    } finally {
+      unsubscribe('tracing:queries', listener);
+    }
+    assert.equal(messages.length, 2);
+    assert.deepEqual(messages[0], {
+      phase: 'start', backend: 'memory', table: 'todos', operation: 'select', filters: { done: false }, options: { limit: 5 }
+    });
+    assert.equal(messages[1]!.phase, 'end');
+    assert.equal(messages[1]!.rows, 0);
+    assert.equal(typeof messages[1]!.duration, 'number');
+  });
+});
+
+describe('databaseConfigFromEnv', () => {
+  it('needs no Supabase settings for the memory backend', () => {
+    assert.deepEqual(databaseConfigFromEnv({ DATA_BACKEND: 'memory' }), { backend: 'memory' });
+  });
+
+  it('prefers the service role key', () => {
+    assert.deepEqual(databaseConfigFromEnv({ SUPABASE_URL: 'https://x.supabase.co', SUPABASE_ANON_KEY: 'anon', SUPABASE_SERVICE_ROLE_KEY: 'service' }),
+      { backend: 'supabase', url: 'https://x.supabase.co', key: 'service' });
+  });
+
+  it('reports every problem at once', () => {
+    assert.throws(() => databaseConfigFromEnv({ SUPABASE_URL: 'not a url' }),
+      /SUPABASE_URL must be an http\(s\) URL[\s\S]*SUPABASE_SERVICE_ROLE_KEY or SUPABASE_ANON_KEY is required/);
+    assert.throws(() => databaseConfigFromEnv({ DATA_BACKEND: 'mysql' }), /DATA_BACKEND must be one of "supabase", "memory"/);
+  });
+});
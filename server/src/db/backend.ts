@@ -0,0 +1,35 @@
+/**
+ * Storage behind the repositories (repository.ts): the Supabase project (supabase-backend.ts) or the
+ * in-process stand-in (memory-backend.ts). Backends work on plain rows; typing happens in the repositories.
+ * Filters are column equality matches.
+ */
+
+export type DataRow = Record<string, unknown>;
+export type Filters = Record<string, unknown>;
+
+export interface SelectOptions {
+  orderBy?: { column: string; ascending?: boolean };
+  limit?: number;
+}
+
+export interface DataBackend {
+  readonly name: 'supabase' | 'memory';
+  select(table: string, filters: Filters, options: SelectOptions): Promise<DataRow[]>;
+  // Inserted/updated/deleted rows are returned as stored
+  insert(table: string, rows: DataRow[]): Promise<DataRow[]>;
+  update(table: string, filters: Filters, patch: DataRow): Promise<DataRow[]>;
+  delete(table: string, filters: Filters): Promise<DataRow[]>;
+}
+
+// Failed query; `code` is the PostgREST/Postgres error code when there is one (e.g. 23505 unique violation)
+export class DatabaseError extends Error {
+  readonly code: string | undefined;
+  readonly details: string | undefined;
+
+  constructor(message: string, options: { code?: string; details?: string } = {}) {
+    super(message);
+    this.name = 'DatabaseError';
+    this.code = options.code;
+    this.details = options.details;
+  }
+}
@@ -0,0 +1,9 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from './database.types.js';
+
+// Server-side client: no session persistence or token refresh (each request carries its own auth)
+export function createSupabaseClient(url: string, key: string): SupabaseClient<Database> {
+  return createClient<Database>(url, key, {
+    auth: { persistSession: false, autoRefreshToken: false, detectSessionInUrl: false }
+  });
+}
@@ -0,0 +1,33 @@
+import { parseConfig, databaseVariables, type Env } from '../config/index.js';
+
+/**
+ * Data backend settings from the environment (declared in src/config/variables.ts):
+ *   DATA_BACKEND               supabase (default) | memory (in-process stand-in, no other variables needed)
+ *   SUPABASE_URL               project URL, e.g. https://<project-ref>.supabase.co
+ *   SUPABASE_SERVICE_ROLE_KEY  server key (bypasses row level security), or
+ *   SUPABASE_ANON_KEY          public key, used when no service role key is set
+ * Checked when the database is first used, so the server runs without Supabase until then.
+ * Every problem is reported at once (ConfigError).
+ */
+
+export type DatabaseConfig =
+  | { backend: 'memory' }
+  | { backend: 'supabase'; url: string; key: string };
+
+export function databaseConfigFromEnv(env: Env = process.env): DatabaseConfig {
+  const config = parseConfig(databaseVariables, env, {
+    scope: 'database',
+    hint: 'Set DATA_BACKEND=memory to run without Supabase.',
+    check: ({ DATA_BACKEND, SUPABASE_SERVICE_ROLE_KEY, SUPABASE_ANON_KEY }) => {
+      if (DATA_BACKEND !== 'supabase') return [];
+      const problems: string[] = [];
+      if (!env.SUPABASE_URL?.trim()) problems.push('SUPABASE_URL is required when DATA_BACKEND=supabase');
+      if (!SUPABASE_SERVICE_ROLE_KEY && !SUPABASE_ANON_KEY) {
+        problems.push('SUPABASE_SERVICE_ROLE_KEY or SUPABASE_ANON_KEY is required when DATA_BACKEND=supabase');
+      }
+      return problems;
+    }
+  });
+  if (config.DATA_BACKEND === 'memory') return { backend: 'memory' };
+  return { backend: 'supabase', url: config.SUPABASE_URL!, key: (config.SUPABASE_SERVICE_ROLE_KEY ?? config.SUPABASE_ANON_KEY)! };
+}
@@ -0,0 +1,47 @@
+/**
+ * Database schema in the shape generated by the Supabase CLI:
+ *   npx supabase gen types typescript --project-id <project-ref> > src/db/database.types.ts
+ * Regenerate after schema changes; repositories and the typed client pick the tables up from here.
+ * `todos` is an example table (see supabase/migrations in a real project).
+ */
+
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[];
+
+export type Database = {
+  public: {
+    Tables: {
+      todos: {
+        Row: {
+          id: string;
+          title: string;
+          done: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          title: string;
+          done?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          title?: string;
+          done?: boolean;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+    };
+    Views: { [_ in never]: never };
+    Functions: { [_ in never]: never };
+    Enums: { [_ in never]: never };
+    CompositeTypes: { [_ in never]: never };
+  };
+};
+
+type PublicSchema = Database['public'];
+
+export type TableName = keyof PublicSchema['Tables'];
+export type Row<T extends TableName> = PublicSchema['Tables'][T]['Row'];
+export type Insert<T extends TableName> = PublicSchema['Tables'][T]['Insert'];
+export type Update<T extends TableName> = PublicSchema['Tables'][T]['Update'];
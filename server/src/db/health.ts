@@ -0,0 +1,12 @@
+import type { Check } from '../health/index.js';
+import type { DatabaseConfig } from './config.js';
+
+// Readiness check: the Supabase project answers its health endpoint with our key.
+// The memory backend lives in the process and needs none.
+export function databaseCheck(config: DatabaseConfig): Check | null {
+  if (config.backend === 'memory') return null;
+  return async (signal) => {
+    const response = await fetch(new URL('/auth/v1/health', config.url), { headers: { apikey: config.key }, signal });
+    if (!response.ok) throw new Error(`Supabase answered ${response.status} ${response.statusText}`.trim());
+  };
+}
@@ -0,0 +1,66 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { DataBackend } from './backend.js';
+import { createSupabaseClient } from './client.js';
+import { databaseConfigFromEnv, type DatabaseConfig } from './config.js';
+import type { Database, TableName } from './database.types.js';
+import { MemoryBackend } from './memory-backend.js';
+import { createRepository, type Repository } from './repository.js';
+import { SupabaseBackend } from './supabase-backend.js';
+
+/**
+ * Data access: the Supabase client (or the in-process stand-in) and typed repositories per table.
+ *
+ *   const todos = getDatabase().repository('todos');
+ *   await todos.create({ title: 'Write docs' });
+ *
+ * getDatabase() is built from the environment on first use (see config.ts); tests and scripts can
+ * build their own with createDatabase({ backend: 'memory' }).
+ */
+
+export interface DataAccess {
+  backend: DataBackend;
+  // The typed Supabase client for queries the repositories don't cover (null with the memory backend)
+  supabase: SupabaseClient<Database> | null;
+  repository<T extends TableName>(table: T): Repository<T>;
+}
+
+// Column defaults of the schema, for the memory backend (Supabase applies them itself)
+const MEMORY_DEFAULTS = {
+  todos: { done: false }
+};
+
+export function createDatabase(config: DatabaseConfig, backend?: DataBackend): DataAccess {
+  const supabase = config.backend === 'supabase' ? createSupabaseClient(config.url, config.key) : null;
+  const store = backend ?? (supabase ? new SupabaseBackend(supabase) : new MemoryBackend({ defaults: MEMORY_DEFAULTS }));
+  const repositories = new Map<TableName, Repository<TableName>>();
+
+  return {
+    backend: store,
+    supabase,
+    repository<T extends TableName>(table: T): Repository<T> {
+      let repository = repositories.get(table);
+      if (!repository) {
+        repository = createRepository(store, table);
+        repositories.set(table, repository);
+      }
+      return repository as Repository<T>;
+    }
+  };
+}
+
+let database: DataAccess | undefined;
+
+export function getDatabase(): DataAccess {
+  database ??= createDatabase(databaseConfigFromEnv());
+  return database;
+}
+
+export { databaseCheck } from './health.js';
+export { databaseConfigFromEnv } from './config.js';
+export { DatabaseError } from './backend.js';
+export type { DataBackend, DataRow, Filters, SelectOptions } from './backend.js';
+export { MemoryBackend } from './memory-backend.js';
+export type { MemoryBackendOptions } from './memory-backend.js';
+export type { DatabaseConfig } from './config.js';
+export type { Database, TableName, Row, Insert, Update } from './database.types.js';
+export type { Repository, ListOptions, RowId } from './repository.js';
@@ -0,0 +1,94 @@
+import { randomUUID } from 'node:crypto';
+import { DatabaseError, type DataBackend, type DataRow, type Filters, type SelectOptions } from './backend.js';
+
+/**
+ * In-process stand-in for Supabase (DATA_BACKEND=memory): tables are arrays of rows kept in memory,
+ * so routes and tests run offline. Mirrors the defaults a Supabase table usually has (`id` uuid,
+ * `created_at` timestamp) plus per-table column defaults, and rejects duplicate ids like a primary key.
+ * Rows are copied in and out, so callers never share state with the store.
+ */
+
+export interface MemoryBackendOptions {
+  // Column defaults per table, applied on insert
+  defaults?: Record<string, DataRow>;
+  // Initial rows per table
+  seed?: Record<string, DataRow[]>;
+}
+
+export class MemoryBackend implements DataBackend {
+  readonly name = 'memory';
+  private readonly tables = new Map<string, DataRow[]>();
+  private readonly defaults: Record<string, DataRow>;
+
+  constructor(options: MemoryBackendOptions = {}) {
+    this.defaults = options.defaults ?? {};
+    this.reset(options.seed);
+  }
+
+  // Drops every row, then loads `seed`
+  reset(seed: Record<string, DataRow[]> = {}): void {
+    this.tables.clear();
+    for (const [table, rows] of Object.entries(seed)) this.tables.set(table, rows.map(row => structuredClone(row)));
+  }
+
+  async select(table: string, filters: Filters, options: SelectOptions): Promise<DataRow[]> {
+    let rows = this.rows(table).filter(row => matches(row, filters));
+    if (options.orderBy) {
+      const { column, ascending = true } = options.orderBy;
+      rows = [...rows].sort((a, b) => compare(a[column], b[column]) * (ascending ? 1 : -1));
+    }
+    if (options.limit !== undefined) rows = rows.slice(0, options.limit);
+    return rows.map(row => structuredClone(row));
+  }
+
+  async insert(table: string, rows: DataRow[]): Promise<DataRow[]> {
+    const stored = this.rows(table);
+    const created = rows.map(row => ({
+      id: randomUUID(),
+      created_at: new Date().toISOString(),
+      ...this.defaults[table],
+      ...structuredClone(row)
+    }));
+    for (const row of created) {
+      if (stored.some(existing => existing.id === row.id)) {
+        throw new DatabaseError(`duplicate key value violates unique constraint "${table}_pkey"`, { code: '23505' });
+      }
+    }
+    stored.push(...created);
+    return created.map(row => structuredClone(row));
+  }
+
+  async update(table: string, filters: Filters, patch: DataRow): Promise<DataRow[]> {
+    const updated = this.rows(table).filter(row => matches(row, filters));
+    for (const row of updated) Object.assign(row, structuredClone(patch));
+    return updated.map(row => structuredClone(row));
+  }
+
+  async delete(table: string, filters: Filters): Promise<DataRow[]> {
+    const rows = this.rows(table);
+    const deleted = rows.filter(row => matches(row, filters));
+    this.tables.set(table, rows.filter(row => !deleted.includes(row)));
+    return deleted;
+  }
+
+  private rows(table: string): DataRow[] {
+    let rows = this.tables.get(table);
+    if (!rows) {
+      rows = [];
+      this.tables.set(table, rows);
+    }
+    return rows;
+  }
+}
+
+function matches(row: DataRow, filters: Filters): boolean {
+  return Object.entries(filters).every(([column, value]) => row[column] === value);
+}
+
+// Postgres order: nulls last when ascending
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  return (a as string | number) < (b as string | number) ? -1 : 1;
+}
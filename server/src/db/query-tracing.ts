@@ -0,0 +1,40 @@
+import { channel } from 'node:diagnostics_channel';
+
+/**
+ * Query trace records without a dependency on the tracing tooling: each query is published on the
+ * `tracing:queries` diagnostics channel when it starts and when it settles. The instrumented build's
+ * runtime subscribes and records them as QUERY spans (see tracing/runtime/queries.ts); otherwise
+ * nobody listens and queries run as is.
+ */
+
+export interface QueryDescription {
+  backend: string;
+  table: string;
+  operation: 'select' | 'insert' | 'update' | 'delete';
+  filters?: unknown;
+  options?: unknown;
+}
+
+const queries = channel('tracing:queries');
+
+// Milliseconds, to the microsecond (as the runtime's other durations)
+function elapsedMs(start: number): number {
+  return Math.round((performance.now() - start) * 1000) / 1000;
+}
+
+export async function traceQuery<T>(query: QueryDescription, run: () => Promise<T>, rowCount: (result: T) => number): Promise<T> {
+  if (!queries.hasSubscribers) return run();
+  const message: Record<string, unknown> = { phase: 'start', ...query };
+  const start = performance.now();
+  queries.publish(message);
+  try {
+    const result = await run();
+    Object.assign(message, { phase: 'end', rows: rowCount(result), duration: elapsedMs(start) });
+    return result;
+  } catch (error) {
+    Object.assign(message, { phase: 'end', error, duration: elapsedMs(start) });
+    throw error;
+  } finally {
+    queries.publish(message);
+  }
+}
@@ -0,0 +1,57 @@
+import type { DataBackend, DataRow } from './backend.js';
+import type { Insert, Row, TableName, Update } from './database.types.js';
+import { traceQuery } from './query-tracing.js';
+
+/**
+ * Typed CRUD helpers for one table. Rows are addressed by their `id` column; `list` filters by
+ * column equality. Every call is one traced query (see query-tracing.ts).
+ */
+
+export type RowId = string | number;
+
+export interface ListOptions<T extends TableName> {
+  orderBy?: { column: keyof Row<T> & string; ascending?: boolean };
+  limit?: number;
+}
+
+export interface Repository<T extends TableName> {
+  list(filters?: Partial<Row<T>>, options?: ListOptions<T>): Promise<Row<T>[]>;
+  get(id: RowId): Promise<Row<T> | null>;
+  create(row: Insert<T>): Promise<Row<T>>;
+  update(id: RowId, patch: Update<T>): Promise<Row<T> | null>;
+  // false when no row had that id
+  remove(id: RowId): Promise<boolean>;
+}
+
+export function createRepository<T extends TableName>(backend: DataBackend, table: T): Repository<T> {
+  const describe = (operation: 'select' | 'insert' | 'update' | 'delete', filters?: unknown, options?: unknown) =>
+    ({ backend: backend.name, table, operation, filters, options });
+  const count = (rows: DataRow[]) => rows.length;
+
+  return {
+    async list(filters = {}, options = {}) {
+      const rows = await traceQuery(describe('select', filters, options), () => backend.select(table, filters, options), count);
+      return rows as Row<T>[];
+    },
+
+    async get(id) {
+      const rows = await traceQuery(describe('select', { id }, { limit: 1 }), () => backend.select(table, { id }, { limit: 1 }), count);
+      return (rows[0] as Row<T> | undefined) ?? null;
+    },
+
+    async create(row) {
+      const rows = await traceQuery(describe('insert'), () => backend.insert(table, [row as DataRow]), count);
+      return rows[0] as Row<T>;
+    },
+
+    async update(id, patch) {
+      const rows = await traceQuery(describe('update', { id }), () => backend.update(table, { id }, patch as DataRow), count);
+      return (rows[0] as Row<T> | undefined) ?? null;
+    },
+
+    async remove(id) {
+      const rows = await traceQuery(describe('delete', { id }), () => backend.delete(table, { id }), count);
+      return rows.length > 0;
+    }
+  };
+}
@@ -0,0 +1,51 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from './database.types.js';
+import { DatabaseError, type DataBackend, type DataRow, type Filters, type SelectOptions } from './backend.js';
+
+/**
+ * Backend on a Supabase project through the typed client (client.ts). Row types are enforced by
+ * the repositories, so queries here go through the untyped builder.
+ */
+
+interface QueryResult {
+  data: unknown;
+  error: { message: string; code?: string; details?: string } | null;
+}
+
+export class SupabaseBackend implements DataBackend {
+  readonly name = 'supabase';
+  private readonly client: SupabaseClient;
+
+  constructor(client: SupabaseClient<Database>) {
+    this.client = client as unknown as SupabaseClient;
+  }
+
+  async select(table: string, filters: Filters, options: SelectOptions): Promise<DataRow[]> {
+    let query = this.client.from(table).select('*').match(filters);
+    if (options.orderBy) query = query.order(options.orderBy.column, { ascending: options.orderBy.ascending ?? true });
+    if (options.limit !== undefined) query = query.limit(options.limit);
+    return rowsOf(await query);
+  }
+
+  async insert(table: string, rows: DataRow[]): Promise<DataRow[]> {
+    return rowsOf(await this.client.from(table).insert(rows).select());
+  }
+
+  async update(table: string, filters: Filters, patch: DataRow): Promise<DataRow[]> {
+    return rowsOf(await this.client.from(table).update(patch).match(filters).select());
+  }
+
+  async delete(table: string, filters: Filters): Promise<DataRow[]> {
+    return rowsOf(await this.client.from(table).delete().match(filters).select());
+  }
+}
+
+function rowsOf(result: QueryResult): DataRow[] {
+  if (result.error) {
+    const options: { code?: string; details?: string } = {};
+    if (result.error.code) options.code = result.error.code;
+    if (result.error.details) options.details = result.error.details;
+    throw new DatabaseError(result.error.message, options);
+  }
+  return Array.isArray(result.data) ? (result.data as DataRow[]) : [];
+}
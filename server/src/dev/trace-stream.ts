@@ -0,0 +1,78 @@
+import { subscribe } from 'node:diagnostics_channel';
+import type { Request, Response, RequestHandler } from 'express';
+import { BadRequestError } from '../errors/index.js';
+
+/**
+ * Live trace events for the client trace viewer (/__traces), as server-sent events.
+ * The instrumented server (npm run dev:instrumented) publishes every trace event on the
+ * `tracing:events` diagnostics channel (see tracing/runtime/emitter.ts); a plain server
+ * never publishes, so the stream stays empty. Each connection first gets a `reset` event
+ * and the recent history, then events as they happen. Development only.
+ * `collect` receives batches of events from the instrumented client (tracing/browser, added by
+ * the Vite plugin in client/vite.config.ts) and streams them alongside the server's.
+ * `close` ends the open streams (on shutdown; viewers reconnect to the next server).
+ */
+
+const TRACE_CHANNEL = 'tracing:events';
+const HISTORY_SIZE = 2000;
+const HEARTBEAT_MS = 15_000;
+
+export interface TraceStream {
+  stream: RequestHandler;
+  collect: RequestHandler;
+  close(): void;
+}
+
+function isTraceEvent(value: unknown): boolean {
+  if (!value || typeof value !== 'object') return false;
+  const event = value as Record<string, unknown>;
+  return typeof event.action === 'string' && typeof event.traceId === 'string' && typeof event.spanId === 'string';
+}
+
+export function createTraceStream(): TraceStream {
+  const history: string[] = [];
+  const clients = new Set<Response>();
+
+  const broadcast = (event: unknown) => {
+    const message = `data: ${JSON.stringify(event)}\n\n`;
+    history.push(message);
+    if (history.length > HISTORY_SIZE) history.shift();
+    for (const res of clients) res.write(message);
+  };
+  subscribe(TRACE_CHANNEL, broadcast);
+
+  const collect = (req: Request, res: Response) => {
+    const events: unknown = req.body;
+    if (!Array.isArray(events) || !events.every(isTraceEvent)) {
+      throw new BadRequestError('Expected an array of trace events');
+    }
+    for (const event of events) broadcast(event);
+    res.status(204).end();
+  };
+
+  const stream = (req: Request, res: Response) => {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // Keeps reverse proxies from buffering the stream
+      'X-Accel-Buffering': 'no'
+    });
+    res.write('retry: 2000\nevent: reset\ndata: {}\n\n');
+    for (const message of history) res.write(message);
+    clients.add(res);
+
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_MS);
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      clients.delete(res);
+    });
+  };
+
+  const close = () => {
+    for (const res of clients) res.end();
+    clients.clear();
+  };
+
+  return { stream, collect, close };
+}
@@ -0,0 +1,95 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import express from 'express';
+import { isErrorEnvelope } from '../../contract/index.js';
+import { ConflictError, HttpError, codeForStatus, errorHandler, notFound, requestId } from '../index.js';
+
+describe('HttpError', () => {
+  it('derives the code from the status unless given', () => {
+    assert.equal(new HttpError(413, 'Too big').code, 'payload_too_large');
+    assert.equal(new ConflictError('Title taken').code, 'conflict');
+    assert.equal(new HttpError(409, 'Title taken', { code: 'title_taken' }).code, 'title_taken');
+    assert.equal(codeForStatus(499), 'http_499');
+  });
+});
+
+describe('error middleware', () => {
+  let server: Server;
+  let base: string;
+  const logged: unknown[] = [];
+
+  const start = async (exposeStack: boolean) => {
+    const app = express();
+    app.use(requestId());
+    app.use(express.json({ limit: '10b' }));
+    app.post('/api/todos', (req, res) => {
+      throw new ConflictError('Title taken', { details: { field: 'title' }, headers: { 'Retry-After': '1' } });
+    });
+    app.get('/api/crash', async () => {
+      throw new Error('secret connection string');
+    });
+    app.use('/api', notFound());
+    app.use(errorHandler({ exposeStack, log: (message, error) => logged.push(error) }));
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  };
+  const stop = () => new Promise<void>(resolve => server.close(() => resolve()));
+
+  describe('in production', () => {
+    before(() => start(false));
+    after(stop);
+
+    it('answers HttpErrors with their status, code, details and headers', async () => {
+      const response = await fetch(`${base}/api/todos`, { method: 'POST', headers: { 'X-Request-Id': 'req-1' } });
+      assert.equal(response.status, 409);
+      assert.equal(response.headers.get('retry-after'), '1');
+      assert.equal(response.headers.get('x-request-id'), 'req-1');
+      assert.deepEqual(await response.json(), {
+        error: { code: 'conflict', message: 'Title taken', details: { field: 'title' }, requestId: 'req-1' }
+      });
+    });
+
+    it('hides the message of unexpected errors, including async rejections', async () => {
+      const response = await fetch(`${base}/api/crash`, {
+        headers: { traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01' }
+      });
+      assert.equal(response.status, 500);
+      const body = await response.json();
+      assert.ok(isErrorEnvelope(body));
+      assert.deepEqual(body.error, {
+        code: 'internal_server_error',
+        message: 'Internal server error',
+        requestId: '4bf92f3577b34da6a3ce929d0e0e4736'
+      });
+      assert.equal((logged.at(-1) as Error).message, 'secret connection string');
+    });
+
+    it('answers JSON for unknown API routes and parser errors', async () => {
+      const missing = await fetch(`${base}/api/nope`);
+      assert.equal(missing.status, 404);
+      assert.equal(((await missing.json()) as { error: { message: string } }).error.message, 'Not found: GET /api/nope');
+
+      const tooLarge = await fetch(`${base}/api/todos`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title: 'longer than ten bytes' })
+      });
+      assert.equal(tooLarge.status, 413);
+      assert.equal(((await tooLarge.json()) as { error: { code: string } }).error.code, 'payload_too_large');
+    });
+  });
+
+  describe('in development', () => {
+    before(() => start(true));
+    after(stop);
+
+    it('adds the stack', async () => {
+      const body = await (await fetch(`${base}/api/crash`)).json() as { error: { stack?: string; requestId: string } };
+      assert.match(body.error.stack ?? '', /secret connection string/);
+      assert.match(body.error.requestId, /^[\da-f-]{36}$/);
+    });
+  });
+});
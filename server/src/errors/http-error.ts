@@ -0,0 +1,93 @@
+import { STATUS_CODES } from 'node:http';
+import type { Issue } from '../contract/index.js';
+
+/**
+ * Errors that answer with their own status: throw them (or pass them to next()) from any
+ * handler or middleware and the error handler (middleware.ts) turns them into the JSON envelope.
+ * Their message is sent to the client as is; anything else is a 500 with a generic message.
+ */
+
+export interface HttpErrorOptions {
+  // Stable, machine-readable; defaults to the subclass's
+  code?: string;
+  details?: unknown;
+  // Set on the response, e.g. WWW-Authenticate
+  headers?: Record<string, string>;
+  cause?: unknown;
+}
+
+export class HttpError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly details: unknown;
+  readonly headers: Record<string, string>;
+
+  constructor(status: number, message: string, { code, details, headers = {}, cause }: HttpErrorOptions = {}) {
+    super(message, { cause });
+    this.name = 'HttpError';
+    this.status = status;
+    this.code = code ?? codeForStatus(status);
+    this.details = details;
+    this.headers = headers;
+  }
+}
+
+export class BadRequestError extends HttpError {
+  constructor(message = 'Bad request', options: HttpErrorOptions = {}) {
+    super(400, message, { code: 'bad_request', ...options });
+    this.name = 'BadRequestError';
+  }
+}
+
+// Params, query or body not matching the endpoint's schemas (src/contract)
+export class ValidationError extends HttpError {
+  readonly issues: Issue[];
+
+  constructor(issues: Issue[], message = 'Invalid request') {
+    super(400, message, { code: 'validation_failed', details: { issues } });
+    this.name = 'ValidationError';
+    this.issues = issues;
+  }
+}
+
+export class UnauthorizedError extends HttpError {
+  constructor(message = 'Authentication required', options: HttpErrorOptions = {}) {
+    super(401, message, { code: 'unauthorized', ...options });
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class ForbiddenError extends HttpError {
+  constructor(message = 'Forbidden', options: HttpErrorOptions = {}) {
+    super(403, message, { code: 'forbidden', ...options });
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(message = 'Not found', options: HttpErrorOptions = {}) {
+    super(404, message, { code: 'not_found', ...options });
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends HttpError {
+  constructor(message = 'Conflict', options: HttpErrorOptions = {}) {
+    super(409, message, { code: 'conflict', ...options });
+    this.name = 'ConflictError';
+  }
+}
+
+// Retry-After (seconds) is sent with it; the rate limiter (src/security) adds its RateLimit-* headers
+export class TooManyRequestsError extends HttpError {
+  constructor(retryAfterSeconds: number, message = 'Too many requests', options: HttpErrorOptions = {}) {
+    super(429, message, { code: 'too_many_requests', ...options, headers: { 'Retry-After': String(retryAfterSeconds), ...options.headers } });
+    this.name = 'TooManyRequestsError';
+  }
+}
+
+// From the status's reason phrase: 413 → payload_too_large
+export function codeForStatus(status: number): string {
+  const reason = STATUS_CODES[status];
+  return reason ? reason.toLowerCase().replace(/[^a-z]+/g, '_') : `http_${status}`;
+}
@@ -0,0 +1,4 @@
+export { HttpError, BadRequestError, ValidationError, UnauthorizedError, ForbiddenError, NotFoundError, ConflictError, TooManyRequestsError, codeForStatus } from './http-error.js';
+export type { HttpErrorOptions } from './http-error.js';
+export { requestId, notFound, errorHandler, toHttpError } from './middleware.js';
+export type { ErrorHandlerOptions } from './middleware.js';
@@ -0,0 +1,82 @@
+import { randomUUID } from 'node:crypto';
+import type { ErrorRequestHandler, NextFunction, Request, RequestHandler, Response } from 'express';
+import type { ErrorEnvelope } from '../contract/index.js';
+import { HttpError, NotFoundError } from './http-error.js';
+
+/**
+ * - requestId(): `req.id` and the X-Request-Id response header, taken from the request's
+ *   X-Request-Id, else the trace id of its `traceparent` (so an error can be found in /__traces), else new
+ * - notFound(): a NotFoundError for whatever reaches it; mounted on /api after the routes
+ * - errorHandler(): last middleware, answers every error with the envelope of src/contract/errors.ts.
+ *   HttpErrors keep their status and message; other errors (including async rejections, which
+ *   Express 5 forwards) are logged and answer 500 without their message. `exposeStack` adds the
+ *   stack of 5xx errors, for development only.
+ */
+
+declare global {
+  namespace Express {
+    interface Request {
+      id?: string;
+    }
+  }
+}
+
+export interface ErrorHandlerOptions {
+  exposeStack?: boolean;
+  log?: (message: string, error: unknown) => void;
+}
+
+const REQUEST_ID = /^[\w.:-]{1,128}$/;
+const TRACEPARENT = /^[\da-f]{2}-([\da-f]{32})-[\da-f]{16}-[\da-f]{2}$/;
+
+export function requestId(): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const header = req.get('X-Request-Id');
+    const traceparent = TRACEPARENT.exec(req.get('traceparent') ?? '');
+    req.id = header && REQUEST_ID.test(header) ? header : traceparent ? traceparent[1]! : randomUUID();
+    res.setHeader('X-Request-Id', req.id);
+    next();
+  };
+}
+
+export function notFound(): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    next(new NotFoundError(`Not found: ${req.method} ${req.originalUrl}`));
+  };
+}
+
+// Errors of Express's own parsers (http-errors: body too large, malformed JSON...) carry a status
+function isClientError(error: unknown): error is Error & { status: number } {
+  const status = (error as { status?: unknown } | null)?.status;
+  return error instanceof Error && typeof status === 'number' && status >= 400 && status < 500;
+}
+
+export function toHttpError(error: unknown): HttpError {
+  if (error instanceof HttpError) return error;
+  if (isClientError(error)) return new HttpError(error.status, error.message, { cause: error });
+  return new HttpError(500, 'Internal server error', { cause: error });
+}
+
+export function errorHandler({ exposeStack = false, log = console.error }: ErrorHandlerOptions = {}): ErrorRequestHandler {
+  return (error: unknown, req: Request, res: Response, next: NextFunction) => {
+    const httpError = toHttpError(error);
+    if (httpError.status >= 500) log(`❌ ${req.method} ${req.originalUrl} failed (request ${req.id ?? '-'})`, error);
+    // Part of the response is out: only Express can end it (by closing the connection)
+    if (res.headersSent) {
+      next(error);
+      return;
+    }
+
+    const stack = exposeStack && httpError.status >= 500 && error instanceof Error ? error.stack : undefined;
+    const body: ErrorEnvelope = {
+      error: {
+        code: httpError.code,
+        message: httpError.message,
+        ...(httpError.details !== undefined ? { details: httpError.details } : {}),
+        requestId: req.id ?? '',
+        ...(stack ? { stack } : {})
+      }
+    };
+    res.set(httpError.headers).status(httpError.status).json(body);
+  };
+}
@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHealth } from '../index.js';
+
+describe('createHealth', () => {
+  it('is ready when every check passes', async () => {
+    let clock = 1_000;
+    const health = createHealth({ version: '1.2.3', now: () => clock });
+    health.addCheck('database', () => {
+      clock += 5;
+    });
+    clock += 60_000;
+
+    const readiness = await health.readiness();
+    assert.equal(readiness.status, 'ready');
+    assert.equal(readiness.version, '1.2.3');
+    assert.equal(readiness.uptime_s, 60);
+    assert.deepEqual(readiness.checks, [{ name: 'database', status: 'ok', latency_ms: 5 }]);
+  });
+
+  it('reports failing and slow checks, aborting the slow ones', async () => {
+    const health = createHealth({ version: 'dev', timeoutMs: 20 });
+    let aborted = false;
+    health.addCheck('database', async () => {
+      throw new Error('connection refused');
+    });
+    health.addCheck('cache', signal => new Promise(() => {
+      signal.addEventListener('abort', () => {
+        aborted = true;
+      });
+    }));
+
+    const readiness = await health.readiness();
+    assert.equal(readiness.status, 'not_ready');
+    assert.deepEqual(readiness.checks.map(({ name, status, error }) => ({ name, status, error })), [
+      { name: 'database', status: 'error', error: 'connection refused' },
+      { name: 'cache', status: 'timeout', error: 'timed out after 20ms' }
+    ]);
+    assert.equal(aborted, true);
+  });
+
+  it('reports draining once shutdown has started', async () => {
+    const health = createHealth({ version: 'dev' });
+    health.startDraining();
+    assert.equal(health.isDraining(), true);
+    assert.equal((await health.readiness()).status, 'draining');
+  });
+});
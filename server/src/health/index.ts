@@ -0,0 +1,93 @@
+/**
+ * Liveness and readiness.
+ * - Liveness: the process is up and serving requests; no dependency is consulted
+ * - Readiness: every registered check (database, ...) passes within its timeout, and the
+ *   server is not draining for shutdown (see src/lifecycle)
+ * Checks run in parallel on each readiness request and get an AbortSignal that fires on timeout.
+ */
+
+export type Check = (signal: AbortSignal) => Promise<void> | void;
+
+export interface CheckResult {
+  name: string;
+  status: 'ok' | 'error' | 'timeout';
+  latency_ms: number;
+  error?: string;
+}
+
+export interface Readiness {
+  status: 'ready' | 'not_ready' | 'draining';
+  version: string;
+  uptime_s: number;
+  checks: CheckResult[];
+}
+
+export interface HealthOptions {
+  // Reported by readiness, e.g. a git commit or the package version
+  version: string;
+  // Per-check default
+  timeoutMs?: number;
+  now?: () => number;
+}
+
+export interface Health {
+  addCheck(name: string, check: Check, options?: { timeoutMs?: number }): void;
+  readiness(): Promise<Readiness>;
+  startDraining(): void;
+  isDraining(): boolean;
+}
+
+const TIMED_OUT = Symbol('timeout');
+
+async function runCheck(name: string, check: Check, timeoutMs: number, now: () => number): Promise<CheckResult> {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<typeof TIMED_OUT>(resolve => {
+    timer = setTimeout(() => {
+      controller.abort(new Error(`timed out after ${timeoutMs}ms`));
+      resolve(TIMED_OUT);
+    }, timeoutMs);
+  });
+  const start = now();
+  try {
+    const outcome = await Promise.race([Promise.resolve().then(() => check(controller.signal)), timeout]);
+    const latency_ms = now() - start;
+    if (outcome === TIMED_OUT) return { name, status: 'timeout', latency_ms, error: `timed out after ${timeoutMs}ms` };
+    return { name, status: 'ok', latency_ms };
+  } catch (error) {
+    return { name, status: 'error', latency_ms: now() - start, error: error instanceof Error ? error.message : String(error) };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export function createHealth({ version, timeoutMs = 2000, now = Date.now }: HealthOptions): Health {
+  const startedAt = now();
+  const checks = new Map<string, { check: Check; timeoutMs: number }>();
+  let draining = false;
+
+  return {
+    addCheck(name, check, options = {}) {
+      checks.set(name, { check, timeoutMs: options.timeoutMs ?? timeoutMs });
+    },
+
+    async readiness() {
+      const results = await Promise.all([...checks].map(([name, entry]) => runCheck(name, entry.check, entry.timeoutMs, now)));
+      const failed = results.some(result => result.status !== 'ok');
+      return {
+        status: draining ? 'draining' : failed ? 'not_ready' : 'ready',
+        version,
+        uptime_s: Math.round((now() - startedAt) / 1000),
+        checks: results
+      };
+    },
+
+    startDraining() {
+      draining = true;
+    },
+
+    isDraining() {
+      return draining;
+    }
+  };
+}
@@ -2,19 +2,111 @@ import dotenv from 'dotenv';
 dotenv.config();
 
 import express from 'express';
-import cors from 'cors';
+import compression from 'compression';
+import { createTraceStream } from './dev/trace-stream.js';
+import { authenticate } from './auth/index.js';
+import { loadServerConfig, ConfigError, type ServerConfig } from './config/index.js';
+import { databaseCheck, databaseConfigFromEnv } from './db/index.js';
+import { requestId, notFound, errorHandler } from './errors/index.js';
+import { createHealth } from './health/index.js';
+import { createShutdown } from './lifecycle/index.js';
+import { corsPolicy, securityHeaders, rateLimit, byClientAndRoute, trustProxySetting } from './security/index.js';
+import { contract } from './contract/index.js';
+import { handle } from './contract/express.js';
+import { serveClient } from './static/index.js';
+
+// Fail fast: every missing or invalid variable is reported before anything starts
+let config: ServerConfig;
+try {
+  config = loadServerConfig();
+} catch (error) {
+  if (!(error instanceof ConfigError)) throw error;
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+}
 
 const app = express();
-const PORT = parseInt(process.env.PORT);
+const PORT = config.PORT;
+
+const health = createHealth({
+  version: config.BUILD_VERSION ?? process.env.npm_package_version ?? 'dev',
+  timeoutMs: config.HEALTH_CHECK_TIMEOUT_MS
+});
+// Supabase reachability, once the database is configured (an incomplete configuration is reported on first use)
+try {
+  const check = databaseCheck(databaseConfigFromEnv());
+  if (check) health.addCheck('database', check);
+} catch (error) {
+  if (!(error instanceof ConfigError)) throw error;
+}
+
+app.disable('x-powered-by');
+// Client IPs (rate limiting) from X-Forwarded-For of these proxies only
+if (config.TRUST_PROXY) app.set('trust proxy', trustProxySetting(config.TRUST_PROXY));
 
+app.use(requestId());
+app.use(securityHeaders({
+  hsts: config.NODE_ENV === 'production',
+  ...(config.CONTENT_SECURITY_POLICY ? { contentSecurityPolicy: config.CONTENT_SECURITY_POLICY } : {})
+}));
+app.use(corsPolicy({ allowedOrigins: config.CORS_ALLOWED_ORIGINS, allowLocalhost: config.NODE_ENV !== 'production' }));
+// gzip/brotli as the client accepts; the trace event stream is left alone so events are not held back
+app.use(compression({
+  filter: (req, res) => !String(res.getHeader('Content-Type')).startsWith('text/event-stream') && compression.filter(req, res)
+}));
 
-app.use(cors());
-app.use(express.json());
+// Live trace events for the client trace viewer (/__traces); client events are POSTed in batches,
+// parsed here with a larger limit than the JSON parser below
+const traces = config.NODE_ENV !== 'production' ? createTraceStream() : null;
+if (traces) {
+  app.get('/api/__traces', traces.stream);
+  app.post('/api/__traces', express.json({ limit: '5mb' }), traces.collect);
+}
 
-app.get('/api/health', (req, res) => {
+// Routes of the shared contract (src/contract/endpoints.ts): handle() types and checks each request
+app.get(contract.health.path, handle(contract.health, (req, res) => {
   res.json({ status: 'OK' });
-});
+}));
+
+app.get(contract.ready.path, handle(contract.ready, async (req, res) => {
+  const readiness = await health.readiness();
+  res.status(readiness.status === 'ready' ? 200 : 503).json(readiness);
+}));
+
+// Per client and route, for the routes below (health probes are never limited); before the body is parsed
+if (config.RATE_LIMIT_MAX > 0) {
+  app.use('/api', rateLimit({
+    limit: config.RATE_LIMIT_MAX,
+    windowMs: config.RATE_LIMIT_WINDOW_MS,
+    key: byClientAndRoute(Object.values(contract))
+  }));
+}
 
-app.listen(PORT, () => {
+app.use(express.json({ limit: config.JSON_BODY_LIMIT_BYTES }));
+
+// The signed-in user (Supabase access token in `Authorization: Bearer ...`)
+app.get(contract.me.path, authenticate(), handle(contract.me, (req, res) => {
+  const { id, email, role, roles } = req.user!;
+  res.json({ id, email, role, roles });
+}));
+
+// Unknown API routes answer JSON, never the client's index.html
+app.use('/api', notFound());
+
+// Production: the built client from this same process (in development Vite serves it and proxies /api here)
+if (config.NODE_ENV === 'production') {
+  app.use(serveClient({ distDir: config.CLIENT_DIST_DIR }));
+}
+
+// Every error, thrown or passed to next(), answers the JSON error envelope (src/contract/errors.ts)
+app.use(errorHandler({ exposeStack: config.NODE_ENV === 'development' }));
+
+const server = app.listen(PORT, () => {
   console.log(`🚀 Server running on http://localhost:${PORT}`);
-}); 
\ No newline at end of file
+});
+
+// SIGTERM/SIGINT: report draining, finish in-flight requests within SHUTDOWN_TIMEOUT_MS, then exit
+const shutdown = createShutdown(server, { timeoutMs: config.SHUTDOWN_TIMEOUT_MS });
+shutdown.onDrain(health.startDraining);
+if (traces) shutdown.onDrain(traces.close);
+shutdown.handleSignals(); 
\ No newline at end of file
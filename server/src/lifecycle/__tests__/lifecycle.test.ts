@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import express from 'express';
+import { createShutdown } from '../index.js';
+
+// `started` resolves once the handler of /slow runs: the request is then in flight
+async function startServer(delayMs: number) {
+  const app = express();
+  let handlerStarted!: () => void;
+  const started = new Promise<void>(resolve => {
+    handlerStarted = resolve;
+  });
+  app.get('/slow', (req, res) => {
+    handlerStarted();
+    setTimeout(() => res.json({ done: true }), delayMs);
+  });
+  const server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  return { server, started, base: `http://127.0.0.1:${(server.address() as AddressInfo).port}` };
+}
+
+describe('createShutdown', () => {
+  it('lets in-flight requests finish, then runs the hooks in order', async () => {
+    const { server, started, base } = await startServer(50);
+    const calls: string[] = [];
+    const shutdown = createShutdown(server, { timeoutMs: 1000, log: () => {} });
+    shutdown.onDrain(() => calls.push('drain'));
+    shutdown.onShutdown(async () => {
+      calls.push('first');
+    });
+    shutdown.onShutdown(() => {
+      calls.push('second');
+    });
+
+    const request = fetch(`${base}/slow`);
+    await started;
+    const stopped = shutdown.shutdown('test');
+    assert.equal(shutdown.isDraining(), true);
+    assert.strictEqual(shutdown.shutdown('again'), stopped);
+
+    assert.deepEqual(await (await request).json(), { done: true });
+    assert.equal(await stopped, true);
+    assert.deepEqual(calls, ['drain', 'first', 'second']);
+    assert.equal(server.listening, false);
+  });
+
+  it('cuts requests still running at the deadline and reports an unclean stop', async () => {
+    const { server, started, base } = await startServer(5000);
+    const logs: string[] = [];
+    const shutdown = createShutdown(server, { timeoutMs: 50, log: message => logs.push(message) });
+    shutdown.onShutdown(() => {
+      throw new Error('flush failed');
+    });
+
+    const request = fetch(`${base}/slow`).catch(() => null);
+    await started;
+    assert.equal(await shutdown.shutdown('test'), false);
+    assert.equal(await request, null);
+    assert.ok(logs.some(message => message.includes('still running after 50ms')));
+    assert.ok(logs.some(message => message.includes('flush failed')));
+  });
+});
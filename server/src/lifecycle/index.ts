@@ -0,0 +1,110 @@
+import type { Server, ServerResponse } from 'node:http';
+
+/**
+ * Graceful shutdown of the HTTP server on SIGTERM/SIGINT:
+ * 1. Drain hooks run: readiness starts answering "draining", long-lived streams are ended...
+ * 2. The server stops accepting connections; idle keep-alive connections are closed
+ * 3. In-flight requests get until the deadline to finish (their responses carry `Connection: close`
+ *    and their connections are closed once done), then remaining connections are cut
+ * 4. Shutdown hooks run in registration order (closing pools, flushing logs...), each awaited
+ * A second signal while draining exits immediately.
+ */
+
+export type ShutdownHook = () => Promise<void> | void;
+
+export interface ShutdownOptions {
+  // Deadline for in-flight requests
+  timeoutMs?: number;
+  log?: (message: string) => void;
+}
+
+export interface Shutdown {
+  // Runs as soon as the shutdown starts, before connections are drained
+  onDrain(hook: () => void): void;
+  // Runs once in-flight requests are done (or cut)
+  onShutdown(hook: ShutdownHook): void;
+  isDraining(): boolean;
+  // Resolves with true when every request finished in time and every hook succeeded
+  shutdown(reason: string): Promise<boolean>;
+  // SIGTERM/SIGINT → shutdown, then process exit (1 when the shutdown was not clean)
+  handleSignals(signals?: NodeJS.Signals[]): void;
+}
+
+export function createShutdown(server: Server, { timeoutMs = 10_000, log = console.log }: ShutdownOptions = {}): Shutdown {
+  const drainHooks: (() => void)[] = [];
+  const hooks: ShutdownHook[] = [];
+  let running: Promise<boolean> | null = null;
+
+  // A keep-alive connection would otherwise hold server.close() until the deadline
+  const inFlight = new Set<ServerResponse>();
+  server.on('request', (req, res: ServerResponse) => {
+    inFlight.add(res);
+    if (running) res.setHeader('Connection', 'close');
+    res.once('close', () => {
+      inFlight.delete(res);
+      if (running) setImmediate(() => server.closeIdleConnections());
+    });
+  });
+
+  const closeServer = () => new Promise<boolean>(resolve => {
+    const deadline = setTimeout(() => {
+      log(`⚠️  Requests still running after ${timeoutMs}ms, closing their connections`);
+      server.closeAllConnections();
+      resolve(false);
+    }, timeoutMs);
+    server.close(() => {
+      clearTimeout(deadline);
+      resolve(true);
+    });
+    server.closeIdleConnections();
+  });
+
+  const shutdown = async (reason: string): Promise<boolean> => {
+    log(`🛑 ${reason}: draining connections (up to ${timeoutMs}ms)`);
+    for (const hook of drainHooks) hook();
+    for (const res of inFlight) if (!res.headersSent) res.setHeader('Connection', 'close');
+    let clean = await closeServer();
+    for (const hook of hooks) {
+      try {
+        await hook();
+      } catch (error) {
+        log(`❌ Shutdown hook failed: ${error instanceof Error ? error.message : String(error)}`);
+        clean = false;
+      }
+    }
+    log(clean ? '👋 Server stopped' : '👋 Server stopped, not cleanly');
+    return clean;
+  };
+
+  const api: Shutdown = {
+    onDrain(hook) {
+      drainHooks.push(hook);
+    },
+
+    onShutdown(hook) {
+      hooks.push(hook);
+    },
+
+    isDraining() {
+      return running !== null;
+    },
+
+    shutdown(reason) {
+      running ??= shutdown(reason);
+      return running;
+    },
+
+    handleSignals(signals = ['SIGTERM', 'SIGINT']) {
+      for (const signal of signals) {
+        process.on(signal, () => {
+          if (running) {
+            log(`🛑 ${signal} again, exiting now`);
+            process.exit(1);
+          }
+          void api.shutdown(signal).then(clean => process.exit(clean ? 0 : 1));
+        });
+      }
+    }
+  };
+  return api;
+}
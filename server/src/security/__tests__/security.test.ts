@@ -0,0 +1,102 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import express from 'express';
+import { corsPolicy, isAllowedOrigin, securityHeaders, rateLimit, byClientAndRoute, DEFAULT_CSP } from '../index.js';
+import { errorHandler } from '../../errors/index.js';
+import { defineEndpoint, s } from '../../contract/index.js';
+
+const getTodo = defineEndpoint({ method: 'GET', path: '/api/todos/:id', description: 'A todo', response: s.object({ id: s.number() }) });
+
+describe('isAllowedOrigin', () => {
+  it('matches domains, hosts and exact origins', () => {
+    const allowed = ['.app.buildpanel.ai', 'example.com', 'https://admin.test'];
+    assert.equal(isAllowedOrigin('https://my-app.app.buildpanel.ai', allowed), true);
+    assert.equal(isAllowedOrigin('http://app.buildpanel.ai:8080', allowed), true);
+    assert.equal(isAllowedOrigin('https://example.com', allowed), true);
+    assert.equal(isAllowedOrigin('https://www.example.com', allowed), false);
+    assert.equal(isAllowedOrigin('https://admin.test', allowed), true);
+    assert.equal(isAllowedOrigin('http://admin.test', allowed), false);
+    assert.equal(isAllowedOrigin('https://evilapp.buildpanel.ai', allowed), false);
+    assert.equal(isAllowedOrigin('http://localhost:5173', allowed), false);
+    assert.equal(isAllowedOrigin('http://localhost:5173', allowed, true), true);
+    assert.equal(isAllowedOrigin('null', allowed, true), false);
+  });
+});
+
+describe('security middleware', () => {
+  let server: Server;
+  let base: string;
+  let time = 0;
+
+  before(async () => {
+    const app = express();
+    app.use(securityHeaders({ hsts: true }));
+    app.use(corsPolicy({ allowedOrigins: ['.app.buildpanel.ai'] }));
+    app.use('/api', rateLimit({ limit: 2, windowMs: 60_000, key: byClientAndRoute([getTodo]), now: () => time }));
+    app.use(express.json({ limit: 64 }));
+    app.get(getTodo.path, (req, res) => res.json({ id: Number(req.params.id) }));
+    app.post('/api/echo', (req, res) => res.json(req.body));
+    app.use(errorHandler({ log: () => {} }));
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  it('sets the security headers', async () => {
+    const response = await fetch(`${base}/api/todos/1`);
+    assert.equal(response.headers.get('content-security-policy'), DEFAULT_CSP);
+    assert.equal(response.headers.get('strict-transport-security'), 'max-age=15552000; includeSubDomains');
+    assert.equal(response.headers.get('x-frame-options'), 'DENY');
+    assert.equal(response.headers.get('x-content-type-options'), 'nosniff');
+  });
+
+  it('answers CORS preflights of allowed origins only', async () => {
+    const preflight = (origin: string) => fetch(`${base}/api/echo`, {
+      method: 'OPTIONS',
+      headers: { Origin: origin, 'Access-Control-Request-Method': 'POST', 'Access-Control-Request-Headers': 'content-type' }
+    });
+    const allowed = await preflight('https://demo.app.buildpanel.ai');
+    assert.equal(allowed.headers.get('access-control-allow-origin'), 'https://demo.app.buildpanel.ai');
+    assert.match(allowed.headers.get('access-control-allow-headers') ?? '', /Authorization/);
+    const refused = await preflight('https://attacker.example');
+    assert.equal(refused.headers.get('access-control-allow-origin'), null);
+  });
+
+  it('limits each client per route and answers 429 with RateLimit headers', async () => {
+    time = 1_000_000;
+    const first = await fetch(`${base}/api/todos/1`);
+    assert.equal(first.headers.get('ratelimit-policy'), '2;w=60');
+    assert.equal(first.headers.get('ratelimit-remaining'), '1');
+    assert.equal(first.headers.get('ratelimit-reset'), '60');
+    // Same route, other path parameter: same budget
+    assert.equal((await fetch(`${base}/api/todos/2`)).status, 200);
+
+    time += 15_000;
+    const limited = await fetch(`${base}/api/todos/3`);
+    assert.equal(limited.status, 429);
+    assert.equal(limited.headers.get('retry-after'), '45');
+    assert.equal(limited.headers.get('ratelimit-remaining'), '0');
+    const { error } = await limited.json() as { error: { code: string; message: string } };
+    assert.equal(error.code, 'too_many_requests');
+    assert.equal(error.message, 'Too many requests, retry in 45s');
+
+    // Other routes have their own budget; a new window starts afresh
+    assert.equal((await fetch(`${base}/api/echo`, { method: 'POST' })).status, 200);
+    time += 45_000;
+    assert.equal((await fetch(`${base}/api/todos/3`)).status, 200);
+  });
+
+  it('refuses JSON bodies over the limit', async () => {
+    const response = await fetch(`${base}/api/echo`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text: 'x'.repeat(100) })
+    });
+    assert.equal(response.status, 413);
+    assert.equal(((await response.json()) as { error: { code: string } }).error.code, 'payload_too_large');
+  });
+});
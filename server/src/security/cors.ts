@@ -0,0 +1,61 @@
+import cors from 'cors';
+import type { Request, RequestHandler } from 'express';
+
+/**
+ * CORS for the API: only allowed origins get CORS headers, so pages of other sites cannot read its
+ * responses or send it requests that need a preflight (JSON bodies, Authorization).
+ * `allowedOrigins` entries take the form of VITE_ALLOWED_HOSTS (client/vite.config.ts):
+ * - `.example.com`: the domain and all its sub-domains, any scheme and port
+ * - `example.com`: that host only; `https://example.com`: that exact origin
+ * The server's own host (the production client) is always allowed, localhost with `allowLocalhost`.
+ * Preflights allow the API's methods and the request headers it reads only.
+ */
+
+export interface CorsPolicyOptions {
+  allowedOrigins: string[];
+  allowLocalhost?: boolean;
+}
+
+const METHODS = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE'];
+// traceparent/tracestate: sent by the instrumented client (server/tracing/browser)
+const ALLOWED_HEADERS = ['Content-Type', 'Authorization', 'X-Request-Id', 'traceparent', 'tracestate'];
+const EXPOSED_HEADERS = ['X-Request-Id', 'Retry-After', 'RateLimit-Policy', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset'];
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+// Seconds a browser reuses a preflight answer
+const PREFLIGHT_MAX_AGE = 600;
+
+export function isAllowedOrigin(origin: string, allowedOrigins: string[], allowLocalhost = false): boolean {
+  let url: URL;
+  try {
+    url = new URL(origin);
+  } catch {
+    return false;
+  }
+  if (allowLocalhost && LOCAL_HOSTS.includes(url.hostname)) return true;
+  return allowedOrigins.some((entry) => {
+    if (entry.startsWith('.')) return url.hostname === entry.slice(1) || url.hostname.endsWith(entry);
+    if (entry.includes('://')) return url.origin === entry.replace(/\/+$/, '');
+    return url.hostname === entry;
+  });
+}
+
+function isSameOrigin(req: Request, origin: string): boolean {
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+}
+
+export function corsPolicy({ allowedOrigins, allowLocalhost = false }: CorsPolicyOptions): RequestHandler {
+  return cors<Request>((req, callback) => {
+    const origin = req.headers.origin;
+    callback(null, {
+      origin: !!origin && (isSameOrigin(req, origin) || isAllowedOrigin(origin, allowedOrigins, allowLocalhost)),
+      methods: METHODS,
+      allowedHeaders: ALLOWED_HEADERS,
+      exposedHeaders: EXPOSED_HEADERS,
+      maxAge: PREFLIGHT_MAX_AGE
+    });
+  });
+}
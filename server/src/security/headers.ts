@@ -0,0 +1,51 @@
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+
+/**
+ * Security headers on every response (API and, in production, the built client):
+ * - Content-Security-Policy: DEFAULT_CSP unless configured (CONTENT_SECURITY_POLICY)
+ * - Strict-Transport-Security with `hsts`: browsers use HTTPS only for the host from then on, so
+ *   production only (the development server is plain HTTP)
+ * - no framing, no MIME sniffing, no referrer to other origins, isolated browsing context and
+ *   resources, no camera/microphone/geolocation
+ * X-Powered-By is turned off on the app (src/index.ts).
+ */
+
+export interface SecurityHeadersOptions {
+  contentSecurityPolicy?: string;
+  hsts?: boolean;
+}
+
+// The built client loads its own scripts and styles; React sets style attributes; Supabase Auth runs in the browser
+export const DEFAULT_CSP = [
+  "default-src 'self'",
+  "base-uri 'self'",
+  "object-src 'none'",
+  "frame-ancestors 'none'",
+  "form-action 'self'",
+  "script-src 'self'",
+  "style-src 'self' 'unsafe-inline'",
+  "img-src 'self' data: blob:",
+  "font-src 'self' data:",
+  "connect-src 'self' https://*.supabase.co wss://*.supabase.co"
+].join('; ');
+
+// 180 days, sub-domains included
+const HSTS = 'max-age=15552000; includeSubDomains';
+
+export function securityHeaders({ contentSecurityPolicy = DEFAULT_CSP, hsts = false }: SecurityHeadersOptions = {}): RequestHandler {
+  const headers: Record<string, string> = {
+    'Content-Security-Policy': contentSecurityPolicy,
+    'X-Frame-Options': 'DENY',
+    'X-Content-Type-Options': 'nosniff',
+    'Referrer-Policy': 'strict-origin-when-cross-origin',
+    'Cross-Origin-Opener-Policy': 'same-origin',
+    'Cross-Origin-Resource-Policy': 'same-origin',
+    'Permissions-Policy': 'camera=(), microphone=(), geolocation=()',
+    'X-DNS-Prefetch-Control': 'off'
+  };
+  if (hsts) headers['Strict-Transport-Security'] = HSTS;
+  return (req: Request, res: Response, next: NextFunction) => {
+    res.set(headers);
+    next();
+  };
+}
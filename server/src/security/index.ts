@@ -0,0 +1,6 @@
+export { corsPolicy, isAllowedOrigin } from './cors.js';
+export type { CorsPolicyOptions } from './cors.js';
+export { securityHeaders, DEFAULT_CSP } from './headers.js';
+export type { SecurityHeadersOptions } from './headers.js';
+export { rateLimit, byClientAndRoute, trustProxySetting } from './rate-limit.js';
+export type { RateLimitOptions } from './rate-limit.js';
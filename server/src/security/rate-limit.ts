@@ -0,0 +1,91 @@
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import type { Endpoint } from '../contract/index.js';
+import { TooManyRequestsError } from '../errors/index.js';
+
+/**
+ * In-memory rate limiting: at most `limit` requests per key in each window of `windowMs`, a window
+ * starting with the key's first request. Keyed by client IP by default; byClientAndRoute() gives each
+ * route of the contract its own budget per client.
+ * Counted responses carry RateLimit-Policy (`<limit>;w=<window seconds>`), RateLimit-Limit,
+ * RateLimit-Remaining and RateLimit-Reset (seconds), after the IETF RateLimit header fields draft.
+ * A request over the limit is passed on as a TooManyRequestsError: the error handler answers 429 with
+ * Retry-After, and the instrumented server records it as an ERROR of this middleware in the trace log.
+ * Counts live in this process: each instance behind a load balancer counts its own requests.
+ * Client IPs are `req.ip`: behind a reverse proxy, set Express's `trust proxy` (TRUST_PROXY).
+ */
+
+export interface RateLimitOptions {
+  limit: number;
+  windowMs: number;
+  key?: (req: Request) => string;
+  // Requests that are neither counted nor limited
+  skip?: (req: Request) => boolean;
+  now?: () => number;
+}
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+export function rateLimit({ limit, windowMs, key = req => req.ip ?? 'unknown', skip, now = Date.now }: RateLimitOptions): RequestHandler {
+  const windows = new Map<string, Window>();
+  const policy = `${limit};w=${Math.ceil(windowMs / 1000)}`;
+  // Ended windows are forgotten once per window; never keeps the process alive
+  setInterval(() => {
+    const time = now();
+    for (const [id, window] of windows) {
+      if (window.resetAt <= time) windows.delete(id);
+    }
+  }, windowMs).unref();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (skip?.(req)) {
+      next();
+      return;
+    }
+    const time = now();
+    const id = key(req);
+    let window = windows.get(id);
+    if (!window || window.resetAt <= time) {
+      window = { count: 0, resetAt: time + windowMs };
+      windows.set(id, window);
+    }
+    window.count++;
+
+    const reset = Math.ceil((window.resetAt - time) / 1000);
+    res.set({
+      'RateLimit-Policy': policy,
+      'RateLimit-Limit': String(limit),
+      'RateLimit-Remaining': String(Math.max(0, limit - window.count)),
+      'RateLimit-Reset': String(reset)
+    });
+    if (window.count > limit) {
+      next(new TooManyRequestsError(reset, `Too many requests, retry in ${reset}s`, { details: { limit, windowMs } }));
+      return;
+    }
+    next();
+  };
+}
+
+// `<ip> <METHOD> <route>`: requests of one endpoint share a budget whatever their path parameters;
+// paths of no endpoint share one per client (404 probing)
+export function byClientAndRoute(endpoints: Endpoint[]): (req: Request) => string {
+  const routes = endpoints.map(endpoint => ({
+    endpoint,
+    pattern: new RegExp(`^${endpoint.path.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/:\w+/g, '[^/]+')}/?$`)
+  }));
+  return (req: Request) => {
+    const method = req.method === 'HEAD' ? 'GET' : req.method;
+    const path = req.baseUrl + req.path;
+    const route = routes.find(r => r.endpoint.method === method && r.pattern.test(path));
+    return `${req.ip ?? 'unknown'} ${route ? `${method} ${route.endpoint.path}` : '(no route)'}`;
+  };
+}
+
+// TRUST_PROXY as Express reads it: hop count, true/false, or addresses and subnets (loopback, 10.0.0.0/8, ...)
+export function trustProxySetting(value: string): boolean | number | string {
+  if (/^\d+$/.test(value)) return Number(value);
+  if (value === 'true' || value === 'false') return value === 'true';
+  return value;
+}
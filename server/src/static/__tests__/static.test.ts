@@ -0,0 +1,69 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { fileURLToPath } from 'node:url';
+import express from 'express';
+import { serveClient } from '../index.js';
+
+describe('serveClient', () => {
+  const distDir = fs.mkdtempSync(path.join(os.tmpdir(), 'client-dist-'));
+  let server: Server;
+  let base: string;
+
+  before(async () => {
+    fs.mkdirSync(path.join(distDir, 'assets'));
+    fs.writeFileSync(path.join(distDir, 'index.html'), '<!doctype html><div id="root"></div>');
+    fs.writeFileSync(path.join(distDir, 'assets', 'index-abc123.js'), 'console.log(1)');
+    fs.writeFileSync(path.join(distDir, 'vite.svg'), '<svg/>');
+
+    const app = express();
+    app.get('/api/health', (req, res) => res.json({ status: 'OK' }));
+    app.use(serveClient({ distDir }));
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    fs.rmSync(distDir, { recursive: true, force: true });
+  });
+
+  it('caches hashed assets as immutable and revalidates index.html', async () => {
+    const asset = await fetch(`${base}/assets/index-abc123.js`);
+    assert.equal(asset.status, 200);
+    assert.equal(asset.headers.get('cache-control'), 'public, max-age=31536000, immutable');
+
+    const file = await fetch(`${base}/vite.svg`);
+    assert.equal(file.headers.get('cache-control'), 'public, max-age=3600');
+
+    const index = await fetch(`${base}/`, { headers: { Accept: 'text/html' } });
+    assert.equal(index.headers.get('cache-control'), 'no-cache');
+    assert.match(await index.text(), /id="root"/);
+  });
+
+  it('falls back to index.html for client routes only', async () => {
+    const deepLink = await fetch(`${base}/account/settings`, { headers: { Accept: 'text/html' } });
+    assert.equal(deepLink.status, 200);
+    assert.match(await deepLink.text(), /id="root"/);
+
+    assert.equal((await fetch(`${base}/assets/missing-123.js`)).status, 404);
+    assert.equal((await fetch(`${base}/api/unknown`, { headers: { Accept: 'text/html' } })).status, 404);
+    assert.equal((await fetch(`${base}/account`, { method: 'POST', headers: { Accept: 'text/html' } })).status, 404);
+    assert.equal((await fetch(`${base}/api/health`)).status, 200);
+  });
+
+  it('refuses to start without a build', () => {
+    assert.throws(() => serveClient({ distDir: path.join(distDir, 'nowhere') }), /npm run build:client/);
+  });
+
+  it('resolves a relative build directory against the server directory', () => {
+    const serverDir = fileURLToPath(new URL('../../../', import.meta.url));
+    const expected = path.join(serverDir, '../client/missing-dist');
+    assert.throws(() => serveClient({ distDir: '../client/missing-dist' }), (error: Error) => error.message.includes(`at ${expected} `));
+  });
+});
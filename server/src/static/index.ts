@@ -0,0 +1,66 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import express, { type Router } from 'express';
+
+/**
+ * Serves the built client (client/dist from `npm run build:client`) from the API process:
+ * - /assets/* (Vite's content-hashed output) cached for a year as immutable; a missing asset is a 404
+ * - other files of the build (copied from client/public) revalidated after an hour
+ * - index.html never cached, so a deploy is picked up on the next navigation
+ * - any other GET/HEAD that accepts HTML gets index.html, so BrowserRouter deep links load the app
+ * /api paths are never handled here; mount after the API routes.
+ */
+
+export interface ServeClientOptions {
+  // Directory of the build, containing index.html; a relative path is relative to the server directory
+  distDir: string;
+}
+
+const ASSET_CACHE = 'public, max-age=31536000, immutable';
+const FILE_CACHE = 'public, max-age=3600';
+const INDEX_CACHE = 'no-cache';
+
+export function serveClient({ distDir }: ServeClientOptions): Router {
+  const root = path.resolve(serverDir(), distDir);
+  const indexFile = path.join(root, 'index.html');
+  if (!fs.existsSync(indexFile)) {
+    throw new Error(`No client build at ${root} (index.html missing), run npm run build:client`);
+  }
+
+  const router = express.Router();
+  router.use('/assets', express.static(path.join(root, 'assets'), {
+    index: false,
+    setHeaders: res => res.setHeader('Cache-Control', ASSET_CACHE)
+  }), (req, res) => {
+    // An asset of another build: index.html would be parsed as a script
+    res.status(404).end();
+  });
+  router.use(express.static(root, {
+    index: false,
+    setHeaders: (res, file) => res.setHeader('Cache-Control', file === indexFile ? INDEX_CACHE : FILE_CACHE)
+  }));
+
+  // SPA fallback: client-side routes are resolved by the app
+  router.use((req, res, next) => {
+    if ((req.method !== 'GET' && req.method !== 'HEAD') || isApiPath(req.path) || !req.accepts('html')) {
+      next();
+      return;
+    }
+    res.setHeader('Cache-Control', INDEX_CACHE);
+    res.sendFile(indexFile);
+  });
+  return router;
+}
+
+export function isApiPath(requestPath: string): boolean {
+  return requestPath === '/api' || requestPath.startsWith('/api/');
+}
+
+// The server package directory (nearest package.json above this module), whatever the working directory
+// and whether this runs from src/, dist/ or dist/instrumented/
+function serverDir(): string {
+  let dir = path.dirname(fileURLToPath(import.meta.url));
+  while (!fs.existsSync(path.join(dir, 'package.json')) && path.dirname(dir) !== dir) dir = path.dirname(dir);
+  return dir;
+}
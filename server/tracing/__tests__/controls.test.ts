@@ -0,0 +1,39 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { getRuntimeSettings, resetToggles, startAdminServer } from '../runtime/controls.js';
+
+describe('admin endpoint', () => {
+    let server: Server;
+    let baseUrl: string;
+
+    before(async () => {
+        server = startAdminServer(0);
+        await new Promise(resolve => server.once('listening', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(async () => {
+        resetToggles();
+        await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    const send = (method: string, route: string, body: string) =>
+        fetch(`${baseUrl}${route}`, { method, headers: { 'Content-Type': 'application/json' }, body });
+
+    it('updates toggles', async () => {
+        const response = await send('POST', '/tracing/toggles', JSON.stringify({ file: 'src/db/**', enabled: false }));
+        assert.equal(response.status, 200);
+        assert.deepEqual(getRuntimeSettings().toggles.at(-1), { file: 'src/db/**', enabled: false });
+    });
+
+    it('refuses bodies that are not JSON objects', async () => {
+        for (const body of ['null', '[]', '42', '"on"']) {
+            assert.equal((await send('POST', '/tracing/toggles', body)).status, 400, body);
+            assert.equal((await send('PUT', '/tracing/sampling', body)).status, 400, body);
+        }
+        assert.equal((await send('PUT', '/tracing/sampling', '{')).status, 400);
+        assert.equal((await fetch(`${baseUrl}/tracing`)).status, 200);
+    });
+});
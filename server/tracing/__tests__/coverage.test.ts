@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { instrumentSourceCode } from '../ts-morph-function-tracer.js';
+import { coverageOf, formatCoverage, getHits, recordHit, resetCoverage, targetId, type ManifestTarget, type TraceEvent, type TraceTarget } from '../runtime/index.js';
+
+const SOURCE = `
+import express from 'express';
+const app = express();
+
+function loadTodos() {
+    return [];
+}
+
+class TodoService {
+    *ids() {
+        yield* super.constructor.name;
+    }
+    remove(id: string) {
+        return id;
+    }
+}
+
+app.get('/api/todos', (req, res) => res.json(loadTodos()));
+app.delete('/api/todos/:id', (req, res) => res.end());
+`;
+
+function targetsOf(source: string): TraceTarget[] {
+    const targets: TraceTarget[] = [];
+    instrumentSourceCode('/project/src/todos.ts', source, { projectRoot: '/project', onTarget: target => targets.push(target) });
+    return targets;
+}
+
+describe('coverage', () => {
+    it('collects every target the tracer instruments', () => {
+        assert.deepEqual(targetsOf(SOURCE).map(t => `${t.kind} ${t.scope} ${t.name} ${t.file}:${t.line}`).sort(), [
+            'ENDPOINT DELETE /api/todos/:id src/todos.ts:19',
+            'ENDPOINT GET /api/todos src/todos.ts:18',
+            'FUNCTION  loadTodos src/todos.ts:5',
+            'FUNCTION TodoService remove src/todos.ts:13'
+        ]);
+    });
+
+    it('reports the targets that never ran', () => {
+        const manifest = { targets: targetsOf(SOURCE) as ManifestTarget[] };
+        const get = manifest.targets.find(t => t.name === '/api/todos');
+        const load = manifest.targets.find(t => t.name === 'loadTodos');
+        resetCoverage();
+        for (const target of [get!, load!]) {
+            const event: TraceEvent = { ...target, action: 'ENTER', payload: '', timestamp: 0, traceId: 't', spanId: 's', parentSpanId: null, depth: 0 };
+            recordHit(event);
+            recordHit({ ...event, action: 'EXIT' });
+        }
+        assert.deepEqual(getHits().sort(), [targetId(get!), targetId(load!)].sort());
+
+        const report = coverageOf(manifest, getHits());
+        assert.deepEqual(report.summary, { FUNCTION: { total: 2, hit: 1 }, ENDPOINT: { total: 2, hit: 1 } });
+        assert.deepEqual(report.missed.map(t => t.name), ['/api/todos/:id', 'remove']);
+        assert.equal(formatCoverage(report), [
+            'ENDPOINT    1/2 ran (50%)',
+            'FUNCTION    1/2 ran (50%)',
+            'Never ran:',
+            '  ENDPOINT    DELETE /api/todos/:id (<anonymous>)  src/todos.ts:19',
+            '  FUNCTION    TodoService.remove  src/todos.ts:13'
+        ].join('\n'));
+    });
+});
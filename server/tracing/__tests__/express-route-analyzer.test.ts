@@ -0,0 +1,86 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createExpressProjectAnalyzer, type FileRouteSites, type RouteSite } from '../express-route-analyzer.js';
+
+const SERVER_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../..');
+// In-memory modules next to the server sources, so `express` resolves to its real typings
+const SRC = path.join(SERVER_DIR, 'src/__analyzer__');
+
+const analyze = createExpressProjectAnalyzer(path.join(SERVER_DIR, 'tsconfig.json'));
+
+function sitesOf(files: Record<string, string>): Map<string, FileRouteSites> {
+    return analyze(new Map(Object.entries(files).map(([name, text]) => [path.join(SRC, name), text])));
+}
+
+// `METHOD routes: KIND label, ...` per registration, in source order
+function summary(sites: FileRouteSites | undefined): string[] {
+    return [...(sites ?? new Map<string, RouteSite>()).values()].map(site =>
+        `${site.method} ${site.routes.join(',')}: ${site.handlers.map(h => `${h.kind} ${h.label}`).join(', ')}`);
+}
+
+const APP = `import express from 'express';
+import api from './api.js';
+const server = express();
+server.use(express.json());
+server.use('/api', api);
+const cache = new Map<string, string>();
+cache.get('/not-a-route');
+server.route('/todos').get((req, res) => res.json([])).post(requireAuth, [audit], function create(req, res) { res.end(); });
+function requireAuth(req: express.Request, res: express.Response, next: express.NextFunction) { next(); }
+function audit(req: express.Request, res: express.Response, next: express.NextFunction) { next(); }
+`;
+
+const API = `import { Router } from 'express';
+import users from './users.js';
+const v1: Router = Router();
+v1.use('/users', users);
+v1.use((req, res, next) => next());
+export default v1;
+`;
+
+const USERS = `import express from 'express';
+const PATH = '/:id' as const;
+const users = express.Router();
+users.get(PATH, (req, res, next) => next(), (req, res) => res.end());
+users.delete(['/:id', '/:id/all'], (req, res) => res.end());
+export default users;
+`;
+
+describe('createExpressProjectAnalyzer', () => {
+    it('recognises apps, routers and app.route() chains by type, whatever their names', () => {
+        const sites = sitesOf({ 'app.ts': APP, 'api.ts': API, 'users.ts': USERS });
+        assert.deepEqual(summary(sites.get(path.join(SRC, 'app.ts'))), [
+            'USE /: MIDDLEWARE express.json()',
+            'POST /todos: MIDDLEWARE requireAuth, MIDDLEWARE audit, ENDPOINT create',
+            'GET /todos: ENDPOINT <anonymous>'
+        ]);
+        // Located by the method name of each call; Map.get is not a route
+        assert.deepEqual([...sites.get(path.join(SRC, 'app.ts'))!.keys()], ['4:8', '8:56', '8:24']);
+    });
+
+    it('resolves mount prefixes across files', () => {
+        const sites = sitesOf({ 'app.ts': APP, 'api.ts': API, 'users.ts': USERS });
+        assert.deepEqual(summary(sites.get(path.join(SRC, 'api.ts'))), ['USE /api: MIDDLEWARE <anonymous>']);
+        assert.deepEqual(summary(sites.get(path.join(SRC, 'users.ts'))), [
+            'GET /api/users/:id: MIDDLEWARE <anonymous>, ENDPOINT <anonymous>',
+            'DELETE /api/users/:id,/api/users/:id/all: ENDPOINT <anonymous>'
+        ]);
+    });
+
+    it('follows mounts again when a file changes', () => {
+        const sites = sitesOf({ 'app.ts': APP.replace(`'/api', api`, `['/v1', '/v2'], api`), 'api.ts': API, 'users.ts': USERS });
+        assert.deepEqual(summary(sites.get(path.join(SRC, 'users.ts')))[0],
+            'GET /v1/users/:id,/v2/users/:id: MIDDLEWARE <anonymous>, ENDPOINT <anonymous>');
+    });
+
+    it('leaves routers that are never mounted at their own paths', () => {
+        const sites = sitesOf({ 'users.ts': USERS });
+        assert.deepEqual([...sites.keys()], [path.join(SRC, 'users.ts')]);
+        assert.deepEqual(summary(sites.get(path.join(SRC, 'users.ts'))), [
+            'GET /:id: MIDDLEWARE <anonymous>, ENDPOINT <anonymous>',
+            'DELETE /:id,/:id/all: ENDPOINT <anonymous>'
+        ]);
+    });
+});
@@ -0,0 +1,142 @@
+// Classes: constructors with super, fields, statics, #private, accessors, generators, new.target, empty bodies
+export const effects: unknown[] = [];
+
+class Base {
+    readonly created: string[] = [];
+
+    constructor(public readonly id: number) {
+        this.created.push(`Base(${new.target.name})`);
+    }
+
+    describe() {
+        return `base ${this.id}`;
+    }
+}
+
+class Derived extends Base {
+    static instances = 0;
+    #secret = 'hidden';
+    label = `derived-${this.id}`;
+    onClick = () => this.label;
+
+    constructor(id: number) {
+        super(id);
+        Derived.instances++;
+        this.created.push('Derived');
+    }
+
+    static create(id: number) {
+        return new Derived(id);
+    }
+
+    override describe() {
+        return `${super.describe()} + derived`;
+    }
+
+    get secret() {
+        return this.#secret;
+    }
+
+    set secret(value: string) {
+        effects.push(`secret ${value}`);
+        this.#secret = value;
+    }
+
+    #reveal() {
+        return this.#secret.toUpperCase();
+    }
+
+    reveal() {
+        return this.#reveal();
+    }
+
+    *range(to: number) {
+        for (let i = this.id; i <= to; i++) yield i;
+        return 'done';
+    }
+
+    async *ticks(count: number) {
+        for (let i = 0; i < count; i++) {
+            await Promise.resolve();
+            yield `tick ${i}`;
+        }
+    }
+}
+
+// Statements before super(), parameter properties and arrow fields (static, async, expression-bodied)
+class Audited extends Base {
+    static format = (id: number) => `#${id}`;
+    load = async (delay: number) => this.id + delay;
+    check = (expected: number): boolean => {
+        return this.id === expected;
+    };
+
+    constructor(id: number, private readonly audit: string[]) {
+        const doubled = id * 2;
+        audit.push(`before super ${doubled}`);
+        super(doubled);
+        this.audit.push(`after super ${this.id}`);
+    }
+
+    entries() {
+        return this.audit;
+    }
+}
+
+// Services: an empty constructor with parameter properties, empty methods and generators
+class TodoService {
+    constructor(private readonly store: string[], public readonly name = 'todos') {}
+
+    reset() {}
+
+    *none() {}
+
+    onChange = () => {};
+
+    list() {
+        return [...this.store];
+    }
+}
+
+export const scenarios: Record<string, () => unknown> = {
+    construction: () => {
+        const d = Derived.create(2);
+        return [d.created, d.label, Derived.instances > 0, d instanceof Base];
+    },
+    superCalls: () => new Derived(3).describe(),
+    boundFieldArrow: () => {
+        const { onClick } = new Derived(4);
+        return onClick();
+    },
+    privateMembers: () => {
+        const d = new Derived(5);
+        d.secret = 'changed';
+        return [d.secret, d.reveal()];
+    },
+    generators: () => {
+        const it = new Derived(1).range(3);
+        return [...it];
+    },
+    generatorReturn: () => {
+        const it = new Derived(1).range(1);
+        return [it.next(), it.next(), it.next()];
+    },
+    asyncGenerators: async () => {
+        const values: string[] = [];
+        for await (const tick of new Derived(1).ticks(2)) values.push(tick);
+        return values;
+    },
+    statementsBeforeSuper: () => {
+        const audited = new Audited(2, []);
+        return [audited.id, audited.entries(), audited.created, Audited.format(audited.id), audited.check(4)];
+    },
+    asyncArrowField: async () => {
+        const { load } = new Audited(1, []);
+        return [await load(1), load.name, load.length];
+    },
+    emptyBodies: () => {
+        const service = new TodoService(['a']);
+        return [service.name, service.list(), service.reset(), [...service.none()], service.onChange()];
+    },
+    names: () => [Derived.name, Derived.create.name, new Derived(1).describe.name, Derived.prototype.reveal.length]
+};
@@ -0,0 +1,24 @@
+// `export default` arrow and named arrow exports
+export const effects: unknown[] = [];
+
+export const double = (n: number) => n * 2;
+
+export const greet = async (name: string) => {
+    effects.push(`greet ${name}`);
+    return `hi ${name}`;
+};
+
+export default (a: number, b = 1) => {
+    effects.push(['default', a, b]);
+    return double(a) + b;
+};
+
+type Module = { default: (a: number, b?: number) => number };
+
+// The default export is anonymous: scenarios get the module namespace
+export const scenarios: Record<string, (module: Module) => unknown> = {
+    defaultArrow: ({ default: run }) => run(3),
+    defaultArrowName: ({ default: run }) => [run.name, run.length],
+    namedArrow: () => [double(4), double.name],
+    asyncArrow: () => greet('ada')
+};
@@ -0,0 +1,76 @@
+// Thrown values that are not Errors, rejections, finally blocks and rethrows
+export const effects: unknown[] = [];
+
+class ValidationError extends Error {
+    constructor(message: string, public readonly field: string) {
+        super(message);
+        this.name = 'ValidationError';
+    }
+}
+
+function throwValue(value: unknown): never {
+    throw value;
+}
+
+async function rejectWith(value: unknown): Promise<never> {
+    await Promise.resolve();
+    throw value;
+}
+
+function withFinally(fail: boolean) {
+    try {
+        if (fail) throw new Error('inside');
+        return 'ok';
+    } finally {
+        effects.push(`finally ${fail}`);
+    }
+}
+
+function rethrow() {
+    try {
+        throwValue({ code: 42 });
+    } catch (error) {
+        effects.push(['caught', error]);
+        throw new ValidationError('wrapped', 'code');
+    }
+}
+
+function* failingGenerator() {
+    yield 1;
+    throw 'generator failure';
+}
+
+function capture(fn: () => unknown) {
+    try {
+        return { returned: fn() };
+    } catch (error) {
+        return { thrown: error instanceof Error ? `${error.name}: ${error.message}` : error };
+    }
+}
+
+export const scenarios: Record<string, () => unknown> = {
+    throwString: () => throwValue('plain string'),
+    throwNumber: () => throwValue(404),
+    throwObject: () => throwValue({ status: 500, detail: ['a', 'b'] }),
+    throwUndefined: () => throwValue(undefined),
+    throwNull: () => throwValue(null),
+    rejectString: () => rejectWith('async string'),
+    rejectObject: () => rejectWith({ reason: 'nope' }),
+    finallyBlocks: () => [withFinally(false), capture(() => withFinally(true))],
+    customError: () => {
+        try {
+            rethrow();
+        } catch (error) {
+            return [error instanceof ValidationError, (error as ValidationError).field, (error as Error).message];
+        }
+    },
+    generatorThrow: () => {
+        const values: unknown[] = [];
+        try {
+            for (const value of failingGenerator()) values.push(value);
+        } catch (error) {
+            values.push(error);
+        }
+        return values;
+    }
+};
@@ -0,0 +1,58 @@
+// Hoisting and module initialization order
+export const effects: unknown[] = [];
+
+// Runs at import time, before the declarations below
+effects.push(`init:${isEven(4)}`);
+effects.push(`hoisted:${typeof later}`);
+
+function isEven(n: number): boolean {
+    return n === 0 ? true : isOdd(n - 1);
+}
+
+function isOdd(n: number): boolean {
+    return n === 0 ? false : isEven(n - 1);
+}
+
+function later() {
+    return helper();
+
+    function helper() {
+        return 'declared after return';
+    }
+}
+
+function counterFactory() {
+    let count = 0;
+    return { next, peek };
+
+    function next() {
+        return ++count;
+    }
+    function peek() {
+        return count;
+    }
+}
+
+function shadowing() {
+    const results = [typeof inner];
+    function inner() {
+        return 1;
+    }
+    {
+        results.push(typeof inner);
+    }
+    return results;
+}
+
+export const scenarios: Record<string, () => unknown> = {
+    moduleInit: () => 'see effects at import',
+    mutualRecursion: () => [isEven(10), isOdd(7)],
+    declaredAfterReturn: () => later(),
+    closures: () => {
+        const c = counterFactory();
+        c.next();
+        c.next();
+        return [c.peek(), c.next.name];
+    },
+    innerHoisting: () => shadowing()
+};
@@ -0,0 +1,67 @@
+// `this` binding of object-literal members (shorthand methods, function-valued properties, accessors)
+export const effects: unknown[] = [];
+
+const counter = {
+    count: 0,
+    label: 'counter',
+    increment(by = 1) {
+        this.count += by;
+        effects.push(`${this.label}:${this.count}`);
+        return this;
+    },
+    reset: function () {
+        this.count = 0;
+        return this.count;
+    },
+    // Arrow property: `this` is the module's (undefined in ESM)
+    arrowThis: () => typeof this,
+    get double() {
+        return this.count * 2;
+    },
+    set value(next: number) {
+        effects.push(`set ${next}`);
+        this.count = next;
+    },
+    describe() {
+        const inner = () => this.label;
+        function detached(this: unknown) {
+            return this === undefined ? 'undefined' : typeof this;
+        }
+        return [inner(), detached(), detached.call({})];
+    }
+};
+
+const nested = {
+    outer: {
+        name: 'outer',
+        who() {
+            return this.name;
+        }
+    }
+};
+
+export const scenarios: Record<string, () => unknown> = {
+    chainedCalls: () => counter.increment().increment(2).count,
+    functionProperty: () => [counter.increment(5).count, counter.reset()],
+    arrowProperty: () => counter.arrowThis(),
+    accessors: () => {
+        counter.value = 21;
+        return counter.double;
+    },
+    borrowedReceiver: () => {
+        const other = { count: 100, label: 'other' };
+        counter.increment.call(other, 3);
+        return other.count;
+    },
+    detachedMethod: () => {
+        const who = nested.outer.who;
+        try {
+            return who();
+        } catch (error) {
+            return `threw ${(error as Error).name}`;
+        }
+    },
+    innerFunctions: () => counter.describe(),
+    nestedObject: () => nested.outer.who(),
+    methodIdentity: () => [counter.increment.name, counter.increment.length, counter.reset.name, typeof Object.getOwnPropertyDescriptor(counter, 'double')?.get]
+};
@@ -0,0 +1,59 @@
+// Parameters: defaults containing braces, destructuring, rest, `arguments`, function length and empty bodies
+export const effects: unknown[] = [];
+
+function withObjectDefault(options = { retries: 3, nested: { deep: true } }) {
+    return options.retries + (options.nested.deep ? 1 : 0);
+}
+
+function withFunctionDefault(x: number, map = (v: number) => { return v * 10; }) {
+    return map(x);
+}
+
+const destructured = ({ a = { b: 2 }, c = [1, 2] }: { a?: { b: number }, c?: number[] } = {}) => a.b + c.length;
+
+function rest(first: string, ...others: number[]) {
+    return `${first}:${others.join(',')}:${arguments.length}`;
+}
+
+function argumentsObject(a?: number, b?: number) {
+    effects.push(Array.from(arguments));
+    return arguments.length;
+}
+
+function defaultsSeeEarlierParams(a: number, b = a * 2, c = { sum: a + b }) {
+    return c.sum;
+}
+
+function mutatesParameter(value: number) {
+    value += 1;
+    return arguments[0];
+}
+
+const templateDefault = (name: string, greeting = `Hello ${'{'}${name}${'}'}`) => greeting;
+
+const scaled = async (value: number, factor = 2) => value * factor;
+
+const rejected = async (reason: string) => Promise.reject(new Error(reason));
+
+const asObject = (id: number, ...tags: string[]) => ({ id, tags });
+
+function noop(value?: unknown) {}
+
+const noopArrow = (value?: unknown) => {};
+
+function* emptyGenerator(count: number) {}
+
+export const scenarios: Record<string, () => unknown> = {
+    objectDefault: () => [withObjectDefault(), withObjectDefault({ retries: 1, nested: { deep: false } })],
+    functionDefault: () => [withFunctionDefault(2), withFunctionDefault(2, v => v + 1)],
+    destructuring: () => [destructured(), destructured({ a: { b: 5 } }), destructured({ c: [] })],
+    restParameters: () => [rest('x'), rest('y', 1, 2, 3)],
+    argumentsLength: () => [argumentsObject(), argumentsObject(1), argumentsObject(1, 2)],
+    parameterDefaults: () => [defaultsSeeEarlierParams(1), defaultsSeeEarlierParams(1, 5)],
+    sloppyArguments: () => mutatesParameter(1),
+    templateDefault: () => templateDefault('ts'),
+    asyncExpressionBodies: async () => [await scaled(2), await scaled(2, 3), await rejected('no').catch((e: Error) => e.message), scaled.length],
+    objectLiteralBody: () => [asObject(1), asObject(2, 'a', 'b'), asObject.length],
+    emptyBodies: () => [noop(1), noopArrow(2), [...emptyGenerator(3)], noop.length, noopArrow.length, emptyGenerator.length],
+    lengths: () => [withObjectDefault.length, withFunctionDefault.length, destructured.length, rest.length, defaultsSeeEarlierParams.length]
+};
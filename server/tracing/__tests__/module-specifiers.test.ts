@@ -0,0 +1,79 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type * as ts from 'typescript';
+import { createSpecifierResolver, rewriteModuleSpecifiers } from '../module-specifiers.js';
+
+// A project that only exists in memory
+const FILES = new Map<string, string>([
+    ['/project/src/index.ts', ''],
+    ['/project/src/routes/index.ts', ''],
+    ['/project/src/routes/todos.tsx', ''],
+    ['/project/src/lib/db.ts', ''],
+    ['/project/src/lib/legacy.mts', ''],
+    ['/project/src/lib/config.json', '{}'],
+    ['/project/src/types.ts', ''],
+    ['/project/src/env.d.ts', ''],
+    ['/project/node_modules/express/package.json', '{ "name": "express", "types": "index.d.ts" }'],
+    ['/project/node_modules/express/index.d.ts', '']
+]);
+
+const host: ts.ModuleResolutionHost = {
+    fileExists: fileName => FILES.has(fileName),
+    readFile: fileName => FILES.get(fileName),
+    directoryExists: directoryName => [...FILES.keys()].some(file => file.startsWith(`${directoryName}/`)),
+    getCurrentDirectory: () => '/project'
+};
+
+const resolver = createSpecifierResolver({ baseUrl: '/project', paths: { '@/*': ['src/*'] }, resolveJsonModule: true }, host);
+const FILE = '/project/src/index.ts';
+
+describe('module specifiers', () => {
+    it('adds the emitted extension and resolves directory imports to their index', () => {
+        assert.equal(resolver.resolve('./lib/db', FILE), './lib/db.js');
+        assert.equal(resolver.resolve('./lib/db.js', FILE), './lib/db.js');
+        assert.equal(resolver.resolve('./routes', FILE), './routes/index.js');
+        assert.equal(resolver.resolve('./routes/todos', FILE), './routes/todos.js');
+        assert.equal(resolver.resolve('./lib/legacy.mjs', FILE), './lib/legacy.mjs');
+        assert.equal(resolver.resolve('./lib/config.json', FILE), './lib/config.json');
+        assert.equal(resolver.resolve('../index', '/project/src/routes/index.ts'), '../index.js');
+    });
+
+    it('turns tsconfig paths aliases into relative paths', () => {
+        assert.equal(resolver.resolve('@/lib/db', FILE), './lib/db.js');
+        assert.equal(resolver.resolve('@/lib/db', '/project/src/routes/todos.tsx'), '../lib/db.js');
+    });
+
+    it('keeps packages, declaration files and specifiers that do not resolve', () => {
+        assert.equal(resolver.resolve('express', FILE), undefined);
+        assert.equal(resolver.resolve('node:fs', FILE), undefined);
+        assert.equal(resolver.resolve('./env', FILE), undefined);
+        assert.equal(resolver.resolve('./missing', FILE), undefined);
+    });
+
+    it('rewrites imports, re-exports, dynamic imports and type-only imports in place', () => {
+        const code = [
+            `import express from 'express';`,
+            `import { db } from "@/lib/db";`,
+            `import type { Todo } from './types';`,
+            `import type {} from './env';`,
+            `export { router } from './routes';`,
+            `export * from './lib/db';`,
+            `import db = require('./lib/db');`,
+            `const todos = await import('./routes/todos');`,
+            `const dynamic = await import(\`./routes\`);`,
+            `const computed = await import('./' + name);`
+        ].join('\n');
+        assert.equal(rewriteModuleSpecifiers(FILE, code, resolver), [
+            `import express from 'express';`,
+            `import { db } from "./lib/db.js";`,
+            `import type { Todo } from './types.js';`,
+            `import type {} from './env';`,
+            `export { router } from './routes/index.js';`,
+            `export * from './lib/db.js';`,
+            `import db = require('./lib/db.js');`,
+            `const todos = await import('./routes/todos.js');`,
+            `const dynamic = await import(\`./routes/index.js\`);`,
+            `const computed = await import('./' + name);`
+        ].join('\n'));
+    });
+});
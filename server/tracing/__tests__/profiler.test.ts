@@ -0,0 +1,65 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { recordProfile, getProfile, formatFoldedStacks, formatProfile, resetProfile, type TraceEvent, type TraceTarget } from '../runtime/index.js';
+
+const handler: TraceTarget = { kind: 'ENDPOINT', file: 'src/index.ts', line: 10, scope: 'GET', name: '/api/todos', handler: 'listTodos' };
+const load: TraceTarget = { kind: 'FUNCTION', file: 'src/todos.ts', line: 3, scope: 'TodoService', name: 'load' };
+const query: TraceTarget = { kind: 'QUERY', file: 'memory', scope: 'select', name: 'todos' };
+
+function event(target: TraceTarget, action: TraceEvent['action'], spanId: string, parentSpanId: string | null, duration?: number): TraceEvent {
+    return { ...target, action, payload: '', timestamp: 0, traceId: 't', spanId, parentSpanId, depth: 0, ...(duration !== undefined ? { duration } : {}) };
+}
+
+// One request: the handler (12ms) calls load (9ms), which runs a query (5ms)
+function request(id: string, { queryMs = 5, fails = false } = {}): void {
+    recordProfile(event(handler, 'ENTER', `${id}-h`, null));
+    recordProfile(event(load, 'ENTER', `${id}-l`, `${id}-h`));
+    recordProfile(event(query, 'ENTER', `${id}-q`, `${id}-l`));
+    recordProfile(event(query, fails ? 'ERROR' : 'EXIT', `${id}-q`, `${id}-l`, queryMs));
+    recordProfile(event(load, 'EXIT', `${id}-l`, `${id}-h`, queryMs + 4));
+    recordProfile(event(handler, 'EXIT', `${id}-h`, null, queryMs + 7));
+}
+
+describe('profiler', () => {
+    beforeEach(() => resetProfile());
+
+    it('splits total time into self time per function', () => {
+        request('r1');
+        const byLabel = Object.fromEntries(getProfile().map(e => [e.label, e]));
+        assert.deepEqual(Object.keys(byLabel), ['select todos', 'TodoService.load', 'GET /api/todos (listTodos)']);
+        assert.equal(byLabel['GET /api/todos (listTodos)']!.total_ms, 12);
+        assert.equal(byLabel['GET /api/todos (listTodos)']!.self_ms, 3);
+        assert.equal(byLabel['TodoService.load']!.self_ms, 4);
+        assert.equal(byLabel['TodoService.load']!.location, 'src/todos.ts:3');
+        assert.equal(byLabel['select todos']!.location, 'memory');
+    });
+
+    it('aggregates calls, errors and percentiles', () => {
+        for (let i = 1; i <= 100; i++) request(`r${i}`, { queryMs: i, fails: i % 10 === 0 });
+        const queries = getProfile().find(e => e.kind === 'QUERY')!;
+        assert.equal(queries.calls, 100);
+        assert.equal(queries.errors, 10);
+        assert.equal(queries.error_rate, 0.1);
+        assert.deepEqual([queries.p50_ms, queries.p95_ms, queries.p99_ms, queries.max_ms], [50, 95, 99, 100]);
+        assert.equal(queries.avg_ms, 50.5);
+        assert.match(formatProfile(getProfile(), 2), /^ *self_ms +total_ms +calls +err% .*\n.*select todos  memory\n.*\n… 1 more$/);
+    });
+
+    it('exports folded stacks in microseconds of self time', () => {
+        request('r1');
+        request('r2');
+        assert.deepEqual(formatFoldedStacks().trim().split('\n'), [
+            'GET /api/todos (listTodos) (src/index.ts:10);TodoService.load (src/todos.ts:3);select todos (memory) 10000',
+            'GET /api/todos (listTodos) (src/index.ts:10);TodoService.load (src/todos.ts:3) 8000',
+            'GET /api/todos (listTodos) (src/index.ts:10) 6000'
+        ]);
+    });
+
+    it('ignores calls it did not see start and reports the first end of a call only', () => {
+        recordProfile(event(load, 'EXIT', 'unknown', null, 3));
+        recordProfile(event(handler, 'ENTER', 'h', null));
+        recordProfile(event(handler, 'ERROR', 'h', null, 2));
+        recordProfile(event(handler, 'EXIT', 'h', null, 5));
+        assert.deepEqual(getProfile().map(e => [e.label, e.calls, e.errors, e.total_ms]), [['GET /api/todos (listTodos)', 1, 1, 2]]);
+    });
+});
@@ -0,0 +1,91 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { instrumentSourceCode } from '../ts-morph-function-tracer.js';
+import { tracingPlugin } from '../vite-plugin.js';
+import type { TraceTarget } from '../runtime/index.js';
+
+// React mode (client modules through vite-plugin.ts): frames for components and hooks, names for hook
+// callbacks and inline JSX handlers
+const SOURCE = `import { useEffect, useState } from 'react';
+
+export function TodoList({ todos }: { todos: string[] }) {
+    const [open, setOpen] = useState(false);
+    useEffect(() => {}, []);
+    return <ul onClick={() => setOpen(!open)}>{todos.map(t => <li key={t}>{t}</li>)}</ul>;
+}
+
+export const useTodos = () => useState<string[]>([]);
+
+function format(todo: string) {
+    return todo.trim();
+}
+`;
+
+interface TransformContext {
+    warn(message: string): void;
+}
+
+// The plugin's hooks as Vite calls them in dev
+function servePlugin(root: string) {
+    const plugin = tracingPlugin({ projectRoot: '/project' }) as unknown as {
+        configResolved(config: { root: string }): void;
+        transform(this: TransformContext, code: string, id: string): { code: string } | undefined;
+    };
+    plugin.configResolved({ root });
+    const warnings: string[] = [];
+    const transform = (code: string, id: string) => plugin.transform.call({ warn: message => warnings.push(message) }, code, id);
+    return { transform, warnings };
+}
+
+describe('React mode', () => {
+    const targets: TraceTarget[] = [];
+    const code = instrumentSourceCode('/project/client/src/TodoList.tsx', SOURCE, {
+        projectRoot: '/project',
+        runtimeSpecifier: 'virtual:trace-runtime',
+        react: true,
+        onTarget: target => targets.push(target)
+    });
+
+    it('names hook callbacks after the hook and inline handlers after their attribute', () => {
+        assert.deepEqual(targets.map(t => `${t.scope}.${t.name}:${t.line}`), [
+            '.TodoList:3',
+            'TodoList.useEffect:5',
+            'TodoList.onClick:6',
+            '.useTodos:9',
+            '.format:11'
+        ]);
+    });
+
+    it('traces components and hooks as frames around their body, other functions as calls', () => {
+        const lines = code.split('\n');
+        assert.match(lines[2]!, /^export function TodoList\(.*\) \{const __frame = __trace\.enterFrame\(.*"name":"TodoList".*, arguments\); try \{$/);
+        assert.match(lines[8]!, /^export const useTodos = \(\) => \{ const __frame = __trace\.enterFrame\(.*"name":"useTodos".*\); try \{ return \(useState<string\[\]>\(\[\]\)\); \}/);
+        assert.match(lines[10]!, /__trace\.traceCall\(.*"name":"format"/);
+        // Hook calls stay in the component
+        assert.equal(lines[3], '    const [open, setOpen] = useState(false);');
+        assert.equal(code.split('\n').length, SOURCE.split('\n').length + 3);
+    });
+
+    it('keeps empty hook callbacks valid', () => {
+        assert.match(code.split('\n')[4]!, /^    useEffect\(\(\) => \{return __trace\.traceCall\(.*, \[\], \(\) => \{\}\);\}, \[\]\);$/);
+    });
+});
+
+describe('tracingPlugin', () => {
+    it('instruments client modules in React mode with the browser runtime', () => {
+        const { transform, warnings } = servePlugin('/project/client');
+        const result = transform(SOURCE, '/project/client/src/TodoList.tsx?v=123');
+        assert.ok(result);
+        assert.match(result.code, /"file":"client\/src\/TodoList\.tsx"/);
+        assert.match(result.code, /import \* as __trace from 'virtual:trace-runtime';/);
+        assert.deepEqual(warnings, []);
+    });
+
+    it('skips the trace viewer, modules outside src and declaration files', () => {
+        const { transform } = servePlugin('/project/client');
+        assert.equal(transform(SOURCE, '/project/client/src/traces/TraceViewer.tsx'), undefined);
+        assert.equal(transform(SOURCE, '/project/client/vite.config.ts'), undefined);
+        assert.equal(transform('export {};', '/project/client/src/env.d.ts'), undefined);
+        assert.equal(transform(SOURCE, '/project/node_modules/lib/src/index.ts'), undefined);
+    });
+});
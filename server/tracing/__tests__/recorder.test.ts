@@ -0,0 +1,108 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import express from 'express';
+import compression from 'compression';
+import { setSinks, startRecording, stopRecording, wrapHandler, REDACTED, type RecordedExchange, type TraceTarget } from '../runtime/index.js';
+import { compareResponse, loadFixtures, requestOf } from '../replay.js';
+
+const FILE = 'src/todos.ts';
+const auth: TraceTarget = { kind: 'MIDDLEWARE', file: FILE, scope: 'GET', name: '/api/todos/:id', handler: 'auth' };
+const getTodo: TraceTarget = { kind: 'ENDPOINT', file: FILE, scope: 'GET', name: '/api/todos/:id', handler: '(<anonymous>)' };
+const addTodo: TraceTarget = { kind: 'ENDPOINT', file: FILE, scope: 'POST', name: '/api/todos', handler: '(<anonymous>)' };
+
+// Fixtures are written once the response has finished, which may be after the client has read it
+async function fixturesIn(dir: string, count: number) {
+    for (let attempt = 0; attempt < 50 && loadFixtures(dir).length < count; attempt++) {
+        await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    return loadFixtures(dir);
+}
+
+describe('recording', () => {
+    let dir: string;
+    let server: Server;
+    let baseUrl: string;
+
+    before(async () => {
+        setSinks([]);
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'recordings-'));
+        startRecording(dir);
+        const app = express();
+        app.use(compression({ threshold: 0 }));
+        app.use(express.json());
+        app.get('/api/todos/:id', wrapHandler((req: express.Request, res: express.Response, next: express.NextFunction) => {
+            next();
+        }, auth), wrapHandler((req: express.Request, res: express.Response) => {
+            res.json({ id: Number(req.params.id), title: 'Write tests', done: false });
+        }, getTodo));
+        app.post('/api/todos', wrapHandler(() => {
+            throw new Error('Database unavailable');
+        }, addTodo));
+        app.use((error: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
+            res.status(500).json({ error: { code: 'internal_server_error', message: 'Internal server error' } });
+        });
+        server = app.listen(0);
+        await new Promise(resolve => server.once('listening', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(async () => {
+        stopRecording();
+        await new Promise<void>(resolve => server.close(() => resolve()));
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('saves each request with its response, headers redacted and the body decompressed', async () => {
+        await (await fetch(`${baseUrl}/api/todos/3?full=1`, { headers: { Authorization: 'Bearer abc.def', 'Accept-Encoding': 'gzip', 'X-Client': 'web' } })).text();
+        await (await fetch(`${baseUrl}/api/todos`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ title: 'x', password: 'hunter2' }) })).text();
+
+        const fixtures = await fixturesIn(dir, 2);
+        assert.deepEqual(fixtures.map(f => path.basename(f.file).replace(/-\w{8}\.json$/, '')), ['GET-api-todos-3', 'POST-api-todos']);
+        const [get, post] = fixtures.map(f => f.exchange) as [RecordedExchange, RecordedExchange];
+
+        assert.equal(get.endpoint, 'GET /api/todos/:id');
+        assert.deepEqual(get.request, { method: 'GET', url: '/api/todos/3?full=1', headers: { authorization: REDACTED, 'x-client': 'web', accept: '*/*' } });
+        assert.deepEqual(get.response, { status: 200, contentType: 'application/json; charset=utf-8', body: { id: 3, title: 'Write tests', done: false } });
+        assert.deepEqual(get.errors, []);
+
+        assert.deepEqual(post.request.body, { title: 'x', password: REDACTED });
+        assert.equal(post.response.status, 500);
+        assert.deepEqual(post.errors, ['Error: Database unavailable']);
+    });
+
+    it('replays a request without its redacted headers', () => {
+        const exchange = loadFixtures(dir)[0]!.exchange;
+        assert.deepEqual(requestOf(exchange).init.headers, { 'x-client': 'web', accept: '*/*' });
+        assert.deepEqual(requestOf(exchange, { Authorization: 'Bearer real' }).init.headers, { 'x-client': 'web', accept: '*/*', authorization: 'Bearer real' });
+    });
+});
+
+describe('compareResponse', () => {
+    const exchange: RecordedExchange = {
+        recordedAt: '2026-01-01T00:00:00.000Z',
+        traceId: 't',
+        request: { method: 'GET', url: '/api/todos', headers: {} },
+        response: { status: 200, body: { todos: [{ id: 1, title: 'a', tags: [] }], total: 1 } },
+        errors: []
+    };
+
+    it('ignores values and compares shapes', () => {
+        assert.deepEqual(compareResponse(exchange, { status: 200, body: { todos: [{ id: 7, title: 'b', tags: ['x'] }, { id: 8 }], total: 2 } }), []);
+        assert.deepEqual(compareResponse(exchange, { status: 200, body: { todos: [] } }), ['body.total: missing']);
+    });
+
+    it('reports status, shape and error differences', () => {
+        assert.deepEqual(compareResponse(exchange, { status: 500, body: { todos: [{ id: '1', title: 'a', tags: [], due: null }], total: 1 }, errors: ['Error: boom'] }), [
+            'status: expected 200, got 500',
+            'body.todos[0].id: expected number, got string',
+            'body.todos[0].due: not recorded',
+            'errors: expected [], got ["Error: boom"]'
+        ]);
+        assert.deepEqual(compareResponse(exchange, { status: 200, body: 'Not found' }), ['body: expected object, got string']);
+    });
+});
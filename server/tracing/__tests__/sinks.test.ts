@@ -0,0 +1,29 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemorySink, type TraceEvent } from '../runtime/index.js';
+
+function event(timestamp: number): TraceEvent {
+    return {
+        kind: 'FUNCTION', file: 'src/todos.ts', scope: '', name: 'listTodos', action: 'ENTER', payload: '[]',
+        timestamp, traceId: 't', spanId: 's', parentSpanId: null, depth: 0
+    };
+}
+
+describe('MemorySink', () => {
+    it('keeps the last events up to its capacity, oldest first', () => {
+        const sink = new MemorySink(3);
+        for (let i = 1; i <= 2; i++) sink.write(event(i));
+        assert.deepEqual(sink.events().map(e => e.timestamp), [1, 2]);
+        for (let i = 3; i <= 7; i++) sink.write(event(i));
+        assert.deepEqual(sink.events().map(e => e.timestamp), [5, 6, 7]);
+    });
+
+    it('starts over once cleared', () => {
+        const sink = new MemorySink(2);
+        for (let i = 1; i <= 3; i++) sink.write(event(i));
+        sink.clear();
+        assert.deepEqual(sink.events(), []);
+        for (let i = 4; i <= 6; i++) sink.write(event(i));
+        assert.deepEqual(sink.events().map(e => e.timestamp), [5, 6]);
+    });
+});
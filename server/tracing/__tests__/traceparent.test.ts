@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatTraceparent, parseTraceparent, withTraceHeaders } from '../runtime/traceparent.js';
+import { startRequestSpan } from '../runtime/trace-context.js';
+
+const TRACE_ID = '0af7651916cd43dd8448eb211c80319c';
+const SPAN_ID = 'b7ad6b7169203331';
+
+describe('traceparent', () => {
+    it('parses valid headers with flags and tracestate', () => {
+        assert.deepEqual(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-01`, 'congo=t61rcWkgMzE'),
+            { traceId: TRACE_ID, spanId: SPAN_ID, sampled: true, traceState: 'congo=t61rcWkgMzE' });
+        assert.equal(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-00`)?.sampled, false);
+        assert.equal(parseTraceparent(`cc-${TRACE_ID}-${SPAN_ID}-01-future`)?.traceId, TRACE_ID);
+    });
+
+    it('rejects invalid headers', () => {
+        for (const header of [undefined, '', 'garbage', `ff-${TRACE_ID}-${SPAN_ID}-01`, `00-${TRACE_ID}-${SPAN_ID}-01-extra`,
+            `00-${'0'.repeat(32)}-${SPAN_ID}-01`, `00-${TRACE_ID}-${'0'.repeat(16)}-01`, `00-${TRACE_ID.slice(1)}-${SPAN_ID}-01`]) {
+            assert.equal(parseTraceparent(header), undefined, String(header));
+        }
+    });
+
+    it('round-trips through formatTraceparent', () => {
+        assert.equal(formatTraceparent(TRACE_ID, SPAN_ID, true), `00-${TRACE_ID}-${SPAN_ID}-01`);
+    });
+
+    it('adds headers without overriding the caller\'s', () => {
+        const [, init] = withTraceHeaders('/api/x', { headers: { tracestate: 'mine=1' } }, 'tp', 'theirs=2');
+        const headers = new Headers(init.headers);
+        assert.equal(headers.get('traceparent'), 'tp');
+        assert.equal(headers.get('tracestate'), 'mine=1');
+    });
+
+    it('continues the caller\'s trace for requests with a traceparent', () => {
+        const span = startRequestSpan({ headers: { traceparent: `00-${TRACE_ID}-${SPAN_ID}-01`, tracestate: 'a=1' } });
+        assert.equal(span.traceId, TRACE_ID);
+        assert.equal(span.parentSpanId, SPAN_ID);
+        assert.equal(span.depth, 0);
+        assert.equal(span.traceState, 'a=1');
+        assert.equal(startRequestSpan({ headers: { traceparent: `00-${TRACE_ID}-${SPAN_ID}-00` } }).sampled, false);
+    });
+});
@@ -0,0 +1,145 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { inspect } from 'node:util';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { instrumentSourceCode } from '../ts-morph-function-tracer.js';
+import { MemorySink, setSinks, formatPipeRecord, type TraceEvent } from '../runtime/index.js';
+
+/**
+ * Behavior parity of instrumentSourceCode: every module in fixtures/ is imported as is and
+ * instrumented, and each exported scenario runs against both. Return values, thrown errors
+ * (including non-Error values and rejections) and side effects must be identical.
+ * The trace records of the instrumented run are compared with __snapshots__/<fixture>.json
+ * (ids normalized); a missing snapshot fails the test. Run with UPDATE_SNAPSHOTS=1 to write snapshots
+ * and accept changes.
+ *
+ * Fixture modules export `effects` (side effects, pushed by the fixture) and `scenarios`
+ * (name → function, called with the module namespace).
+ */
+
+const HERE = path.dirname(fileURLToPath(import.meta.url));
+const FIXTURES_DIR = path.join(HERE, 'fixtures');
+const SNAPSHOTS_DIR = path.join(HERE, '__snapshots__');
+const PROJECT_ROOT = path.resolve(HERE, '../..');
+const RUNTIME_URL = pathToFileURL(path.resolve(HERE, '../runtime/index.ts')).href;
+const UPDATE = process.env.UPDATE_SNAPSHOTS === '1';
+
+interface FixtureModule {
+    effects: unknown[];
+    scenarios: Record<string, (module: FixtureModule) => unknown>;
+}
+
+interface Observation {
+    outcome: 'returned' | 'threw' | 'resolved' | 'rejected';
+    value: string;
+    effects: string;
+}
+
+const sink = new MemorySink(10_000);
+setSinks([sink]);
+
+const outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tracer-parity-'));
+process.on('exit', () => fs.rmSync(outDir, { recursive: true, force: true }));
+
+// Errors compare by name and message (stacks differ); everything else by its inspected form
+function describeValue(value: unknown): string {
+    if (value instanceof Error) return `${value.name}: ${value.message}`;
+    return inspect(value, { depth: 6, sorted: true });
+}
+
+async function observe(module: FixtureModule, run: () => unknown): Promise<Observation> {
+    module.effects.length = 0;
+    let observation: Omit<Observation, 'effects'>;
+    try {
+        const out = run();
+        observation = out instanceof Promise
+            ? await out.then(v => ({ outcome: 'resolved' as const, value: describeValue(v) }),
+                e => ({ outcome: 'rejected' as const, value: describeValue(e) }))
+            : { outcome: 'returned', value: describeValue(out) };
+    } catch (error) {
+        observation = { outcome: 'threw', value: describeValue(error) };
+    }
+    return { ...observation, effects: describeValue(module.effects) };
+}
+
+// Pipe records with trace and span ids replaced by their order of appearance
+function traceRecords(events: TraceEvent[]): string[] {
+    const ids = new Map<string, string>();
+    const id = (prefix: string, value: string) => {
+        if (!ids.has(value)) ids.set(value, `${prefix}${[...ids.values()].filter(v => v.startsWith(prefix)).length + 1}`);
+        return ids.get(value)!;
+    };
+    return events.map(event => formatPipeRecord({
+        ...event,
+        traceId: id('trace', event.traceId),
+        spanId: id('span', event.spanId),
+        parentSpanId: event.parentSpanId === null ? null : id('span', event.parentSpanId)
+    }));
+}
+
+async function loadFixture(fileName: string) {
+    const sourcePath = path.join(FIXTURES_DIR, fileName);
+    const original = await import(pathToFileURL(sourcePath).href) as FixtureModule;
+    const originalInit = describeValue(original.effects);
+
+    // .mts so the copy is an ES module wherever the temp directory is
+    const instrumentedPath = path.join(outDir, fileName.replace(/\.ts$/, '.mts'));
+    const code = instrumentSourceCode(sourcePath, fs.readFileSync(sourcePath, 'utf-8'), {
+        runtimeSpecifier: RUNTIME_URL,
+        projectRoot: PROJECT_ROOT
+    });
+    fs.writeFileSync(instrumentedPath, code);
+    sink.clear();
+    const instrumented = await import(pathToFileURL(instrumentedPath).href) as FixtureModule;
+    const instrumentedInit = describeValue(instrumented.effects);
+
+    const snapshotPath = path.join(SNAPSHOTS_DIR, fileName.replace(/\.ts$/, '.json'));
+    const snapshot = fs.existsSync(snapshotPath)
+        ? JSON.parse(fs.readFileSync(snapshotPath, 'utf-8')) as Record<string, string[]>
+        : null;
+    const recorded: Record<string, string[]> = { '(import)': traceRecords(sink.events()) };
+
+    return { original, instrumented, originalInit, instrumentedInit, snapshot, snapshotPath, recorded };
+}
+
+const fixtureFiles = fs.readdirSync(FIXTURES_DIR).filter(f => f.endsWith('.ts')).sort();
+
+// All fixtures load before any suite is registered: registered tests start running at the next
+// await and would otherwise share the sink with a fixture being imported
+const fixtures = new Map<string, Awaited<ReturnType<typeof loadFixture>>>();
+for (const fileName of fixtureFiles) fixtures.set(fileName, await loadFixture(fileName));
+
+for (const [fileName, fixture] of fixtures) {
+    describe(fileName, () => {
+        it('has the same side effects at import', () => {
+            assert.equal(fixture.instrumentedInit, fixture.originalInit);
+        });
+
+        for (const name of Object.keys(fixture.original.scenarios)) {
+            it(name, async () => {
+                const expected = await observe(fixture.original, () => fixture.original.scenarios[name]!(fixture.original));
+                sink.clear();
+                const actual = await observe(fixture.instrumented, () => fixture.instrumented.scenarios[name]!(fixture.instrumented));
+                fixture.recorded[name] = traceRecords(sink.events());
+
+                assert.deepEqual(actual, expected);
+                assert.ok(fixture.recorded[name]!.length > 0, 'scenario produced no trace records');
+            });
+        }
+
+        it('emits the snapshotted trace records', () => {
+            if (UPDATE) {
+                fs.mkdirSync(SNAPSHOTS_DIR, { recursive: true });
+                fs.writeFileSync(fixture.snapshotPath, JSON.stringify(fixture.recorded, null, 2) + '\n');
+                return;
+            }
+            if (!fixture.snapshot) {
+                assert.fail(`Missing snapshot ${path.relative(PROJECT_ROOT, fixture.snapshotPath)}; run with UPDATE_SNAPSHOTS=1 to write it`);
+            }
+            assert.deepEqual(fixture.recorded, fixture.snapshot);
+        });
+    });
+}
@@ -0,0 +1,306 @@
+import { serialize, configureSerializer } from '../runtime/serializer.js';
+import type { TraceAction, TraceEvent, TraceTarget } from '../runtime/types.js';
+import { formatTraceparent, withTraceHeaders } from '../runtime/traceparent.js';
+
+/**
+ * Browser runtime imported as `__trace` by client modules instrumented in dev (see ../vite-plugin.ts).
+ * Same wrappers as the server runtime (runtime/functions.ts), plus frames for React components and
+ * custom hooks, whose bodies stay in place (see ts-morph-function-tracer.ts):
+ * - enterFrame: ENTER (props / hook arguments); exitFrame: EXIT without a value; failFrame: ERROR
+ *   (a thrown promise is a suspended render, recorded as EXIT `"[suspended]"`)
+ * - Spans nest through a synchronous stack (no AsyncLocalStorage in browsers). Top-level calls of the
+ *   same task share a trace id, so an event handler and the renders it causes show as one trace;
+ *   code after an await starts a new trace.
+ * - React elements, DOM nodes and events are rendered as short descriptions instead of being walked.
+ * - fetch calls to the page's origin (the Vite proxy to the API) and to `propagateTo` origins carry a W3C
+ *   `traceparent` with the calling span as parent, so the server's ENDPOINT spans join the client trace
+ *   (see runtime/traceparent.ts); calls made after an await use the task's trace without a parent span.
+ * Events are batched and POSTed to the dev server collector (server/src/dev/trace-stream.ts);
+ * delivery is best effort, failed batches are dropped.
+ */
+
+interface BrowserSpan {
+    traceId: string;
+    spanId: string;
+    parentSpanId: string | null;
+    depth: number;
+}
+
+export interface Frame {
+    target: TraceTarget;
+    span: BrowserSpan;
+    start: number;
+    done: boolean;
+}
+
+export interface CollectorOptions {
+    endpoint: string;
+    flushMs: number;
+    maxBatch: number;
+    // Other origins that receive traceparent headers (the page's own origin always does)
+    propagateTo: string[];
+}
+
+let collector: CollectorOptions = { endpoint: '/api/__traces', flushMs: 250, maxBatch: 100, propagateTo: [] };
+// Unpatched fetch: the collector's own requests carry no trace headers
+const nativeFetch = typeof fetch === 'function' ? fetch.bind(globalThis) : undefined;
+let queue: TraceEvent[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | undefined;
+
+const stack: BrowserSpan[] = [];
+let taskTraceId: string | undefined;
+
+export function configureCollector(next: Partial<CollectorOptions>): void {
+    collector = { ...collector, ...next };
+}
+
+// --- Spans ---
+
+function randomHex(bytes: number): string {
+    return Array.from(crypto.getRandomValues(new Uint8Array(bytes)), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function taskTrace(): string {
+    if (!taskTraceId) {
+        taskTraceId = randomHex(16);
+        setTimeout(() => { taskTraceId = undefined; }, 0);
+    }
+    return taskTraceId;
+}
+
+function startSpan(): BrowserSpan {
+    const parent = stack[stack.length - 1];
+    if (parent) return { traceId: parent.traceId, spanId: randomHex(8), parentSpanId: parent.spanId, depth: parent.depth + 1 };
+    return { traceId: taskTrace(), spanId: randomHex(8), parentSpanId: null, depth: 0 };
+}
+
+function runInSpan<T>(span: BrowserSpan, fn: () => T): T {
+    stack.push(span);
+    try {
+        return fn();
+    } finally {
+        leaveSpan(span);
+    }
+}
+
+// Also drops spans left open above it (a frame whose exit never ran)
+function leaveSpan(span: BrowserSpan): void {
+    const index = stack.lastIndexOf(span);
+    if (index >= 0) stack.length = index;
+}
+
+// --- Events ---
+
+function payloadFor(target: TraceTarget, value: unknown): string {
+    return target.verbosity === 'names' ? '' : serialize(value);
+}
+
+// Durations in milliseconds from the high-resolution clock, as on the server (runtime/emitter.ts)
+function startTimer(): number {
+    return performance.now();
+}
+
+function elapsedMs(start: number): number {
+    return Math.round((performance.now() - start) * 1000) / 1000;
+}
+
+function emit(target: TraceTarget, action: TraceAction, span: BrowserSpan, payload: string, duration?: number): void {
+    queue.push({
+        action,
+        ...target,
+        payload,
+        timestamp: Date.now(),
+        ...(duration !== undefined ? { duration } : {}),
+        traceId: span.traceId,
+        spanId: span.spanId,
+        parentSpanId: span.parentSpanId,
+        depth: span.depth
+    });
+    if (queue.length >= collector.maxBatch) flush();
+    else flushTimer ??= setTimeout(flush, collector.flushMs);
+}
+
+function flush(useBeacon = false): void {
+    clearTimeout(flushTimer);
+    flushTimer = undefined;
+    if (queue.length === 0) return;
+    const body = JSON.stringify(queue);
+    queue = [];
+    try {
+        if (useBeacon && navigator.sendBeacon(collector.endpoint, new Blob([body], { type: 'application/json' }))) return;
+        nativeFetch?.(collector.endpoint, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body }).catch(() => {});
+    } catch {
+        // Tracing never breaks the page
+    }
+}
+
+if (typeof window !== 'undefined') window.addEventListener('pagehide', () => flush(true));
+
+// --- Propagation ---
+
+function propagatesTo(input: RequestInfo | URL): boolean {
+    try {
+        const origin = new URL(input instanceof Request ? input.url : String(input), location.href).origin;
+        return origin === location.origin || collector.propagateTo.includes(origin);
+    } catch {
+        return false;
+    }
+}
+
+if (nativeFetch && typeof location !== 'undefined') {
+    globalThis.fetch = function fetch(input: RequestInfo | URL, init?: RequestInit) {
+        if (!propagatesTo(input)) return nativeFetch(input, init);
+        const parent = stack[stack.length - 1];
+        const traceparent = formatTraceparent(parent?.traceId ?? taskTrace(), parent?.spanId ?? randomHex(8), true);
+        return nativeFetch(...withTraceHeaders(input, init, traceparent));
+    };
+}
+
+// --- Rendering of browser values ---
+
+function renderBrowserValue(value: object): unknown {
+    const element = value as { $$typeof?: symbol; type?: unknown; key?: unknown };
+    if (typeof element.$$typeof === 'symbol' && 'type' in element) {
+        const type = element.type;
+        const name = typeof type === 'string' ? type
+            : typeof type === 'function' ? type.name || 'Anonymous'
+            : typeof type === 'symbol' ? type.description ?? 'Fragment'
+            : ((type as { displayName?: string } | null)?.displayName ?? 'Component');
+        return `<${name}${element.key != null ? ` key="${String(element.key)}"` : ''} />`;
+    }
+    if (typeof Window !== 'undefined' && value instanceof Window) return '[Window]';
+    if (typeof Node !== 'undefined' && value instanceof Node) {
+        if (value instanceof Element) {
+            const id = value.id ? `#${value.id}` : '';
+            return `[${value.tagName.toLowerCase()}${id}]`;
+        }
+        return `[${value.nodeName}]`;
+    }
+    // Native events and React synthetic events (nativeEvent + type)
+    const event = value as { nativeEvent?: unknown; type?: unknown; target?: unknown };
+    if ((typeof Event !== 'undefined' && value instanceof Event) || (event.nativeEvent && typeof event.type === 'string')) {
+        return { __type: 'Event', type: event.type, target: event.target ? renderBrowserValue(event.target as object) : null };
+    }
+    return undefined;
+}
+
+configureSerializer({ render: renderBrowserValue });
+
+// --- Wrappers (same contract as runtime/functions.ts) ---
+
+export function traceCall<T>(target: TraceTarget, args: ArrayLike<unknown>, body: () => T): T {
+    const span = startSpan();
+    return runInSpan(span, () => {
+        const start = startTimer();
+        emit(target, 'ENTER', span, payloadFor(target, Array.from(args)));
+        try {
+            const out = body();
+            if (out && typeof (out as unknown as PromiseLike<unknown>).then === 'function') {
+                return (out as unknown as PromiseLike<unknown>).then(
+                    v => { emit(target, 'EXIT', span, payloadFor(target, v), elapsedMs(start)); return v; },
+                    e => { emit(target, 'ERROR', span, payloadFor(target, e), elapsedMs(start)); throw e; }
+                ) as unknown as T;
+            }
+            emit(target, 'EXIT', span, payloadFor(target, out), elapsedMs(start));
+            return out;
+        } catch (error) {
+            emit(target, 'ERROR', span, payloadFor(target, error), elapsedMs(start));
+            throw error;
+        }
+    });
+}
+
+export function traceGenerator<This, T, TReturn, TNext>(target: TraceTarget, thisArg: This, args: ArrayLike<unknown>,
+    body: (this: This, ...args: unknown[]) => Generator<T, TReturn, TNext>): IterableIterator<T> & Iterator<T, TReturn, TNext> {
+    const generator = body.apply(thisArg, Array.from(args));
+    const span = startSpan();
+    const start = startTimer();
+    let done = false;
+    emit(target, 'ENTER', span, payloadFor(target, Array.from(args)));
+
+    const step = (resume: () => IteratorResult<T, TReturn>): IteratorResult<T, TReturn> => runInSpan(span, () => {
+        try {
+            const result = resume();
+            if (!done) {
+                if (result.done) done = true;
+                emit(target, result.done ? 'EXIT' : 'YIELD', span, payloadFor(target, result.value), elapsedMs(start));
+            }
+            return result;
+        } catch (error) {
+            if (!done) emit(target, 'ERROR', span, payloadFor(target, error), elapsedMs(start));
+            done = true;
+            throw error;
+        }
+    });
+
+    return {
+        next: (...value: [] | [TNext]) => step(() => generator.next(...value)),
+        return: (value?: TReturn) => step(() => generator.return(value as TReturn)),
+        throw: (error?: unknown) => step(() => generator.throw(error)),
+        [Symbol.iterator]() {
+            return this;
+        }
+    };
+}
+
+export function traceAsyncGenerator<This, T, TReturn, TNext>(target: TraceTarget, thisArg: This, args: ArrayLike<unknown>,
+    body: (this: This, ...args: unknown[]) => AsyncGenerator<T, TReturn, TNext>): AsyncIterableIterator<T> & AsyncIterator<T, TReturn, TNext> {
+    const generator = body.apply(thisArg, Array.from(args));
+    const span = startSpan();
+    const start = startTimer();
+    let done = false;
+    let yields = 0;
+    emit(target, 'ENTER', span, payloadFor(target, Array.from(args)));
+
+    const step = async (resume: () => Promise<IteratorResult<T, TReturn>>): Promise<IteratorResult<T, TReturn>> => {
+        try {
+            const result = await runInSpan(span, resume);
+            if (!done) {
+                if (result.done) {
+                    done = true;
+                    emit(target, 'EXIT', span, payloadFor(target, { yields, return: result.value }), elapsedMs(start));
+                } else {
+                    yields++;
+                }
+            }
+            return result;
+        } catch (error) {
+            if (!done) emit(target, 'ERROR', span, payloadFor(target, error), elapsedMs(start));
+            done = true;
+            throw error;
+        }
+    };
+
+    return {
+        next: (...value: [] | [TNext]) => step(() => generator.next(...value)),
+        return: (value?: TReturn | PromiseLike<TReturn>) => step(() => generator.return(value as TReturn)),
+        throw: (error?: unknown) => step(() => generator.throw(error)),
+        [Symbol.asyncIterator]() {
+            return this;
+        }
+    };
+}
+
+// --- Frames (React components and custom hooks) ---
+
+export function enterFrame(target: TraceTarget, args: ArrayLike<unknown>): Frame {
+    const span = startSpan();
+    stack.push(span);
+    // Components are called with (props, ref?): props alone reads better
+    const input = target.name.startsWith('use') ? Array.from(args) : args[0];
+    emit(target, 'ENTER', span, payloadFor(target, input));
+    return { target, span, start: startTimer(), done: false };
+}
+
+export function failFrame(frame: Frame, error: unknown): void {
+    frame.done = true;
+    const suspended = !!error && typeof (error as PromiseLike<unknown>).then === 'function';
+    emit(frame.target, suspended ? 'EXIT' : 'ERROR', frame.span,
+        suspended ? '"[suspended]"' : payloadFor(frame.target, error), elapsedMs(frame.start));
+}
+
+export function exitFrame(frame: Frame): void {
+    leaveSpan(frame.span);
+    if (!frame.done) emit(frame.target, 'EXIT', frame.span, '', elapsedMs(frame.start));
+    frame.done = true;
+}
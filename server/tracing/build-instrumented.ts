@@ -2,15 +2,72 @@
 import * as ts from 'typescript'
 import * as fs from 'fs'
 import * as path from 'path'
+import { createHash } from 'crypto'
+import { fileURLToPath } from 'url'
 import { instrumentSourceCode } from './ts-morph-function-tracer.js'
+import { createExpressProjectAnalyzer, type FileRouteSites } from './express-route-analyzer.js'
+import { loadTracingConfig, isFileTraced, isFunctionTraced, verbosityFor, runtimeSettingsOf, type TracingConfig } from './tracing-config.js'
+import { displayPath } from './source-location.js'
+import { createSpecifierResolver, rewriteModuleSpecifiers, type SpecifierResolver } from './module-specifiers.js'
+import type { TraceTarget } from './runtime/types.js'
+import type { CoverageManifest } from './runtime/coverage.js'
+import { matchesAny } from './runtime/glob.js'
+
+// Tracing runtime (span context, ...) shipped alongside the instrumented modules
+const RUNTIME_DIR = fileURLToPath(new URL('./runtime', import.meta.url))
+const RUNTIME_OUT_DIR = '__tracing'
+// Sources (relative to sourceDir) left out of the instrumented program: tests and dev-only modules.
+// Those the server imports (src/dev/trace-stream.ts) are still compiled, as is, through the import
+const EXCLUDED_SOURCES = ['**/__tests__/**', 'dev/**']
 
 interface BuildOptions {
     sourceDir: string
     outputDir: string
+    // tracing.config.json contents (loaded from the working directory when omitted)
+    config?: TracingConfig
 }
 
-export function buildWithInstrumentation(options: BuildOptions) {
-    const { sourceDir, outputDir } = options
+export interface BuildResult {
+    // False when instrumentation failed, a file has syntax errors or emit was skipped
+    // (type errors only fail the build with `noEmitOnError`, as with tsc); nothing is written then
+    ok: boolean
+    // Formatted TypeScript diagnostics, located in the original sources
+    diagnostics: string[]
+    // Source files instrumented again in this build
+    instrumented: string[]
+    // Output files written or removed
+    written: number
+}
+
+export interface InstrumentedBuilder {
+    build(config?: TracingConfig): BuildResult
+}
+
+interface InstrumentedFile {
+    source: string
+    sitesKey: string
+    instrumented: string
+    // Instrumented code with runtime module specifiers (see module-specifiers.ts)
+    output: string
+    // Functions and route handlers wrapped in this file
+    targets: TraceTarget[]
+}
+
+/**
+ * Incremental instrumented build, kept alive by dev-instrumented.ts between rebuilds:
+ * - Only files whose source, route sites (mounts are resolved across files) or tracing config
+ *   changed are instrumented again; module specifiers of every file are resolved again when
+ *   files are added or removed (`./routes` may now be `./routes.ts` or `./routes/index.ts`)
+ * - Instrumented sources stay in memory, under their original paths, and are compiled by a
+ *   persistent builder program: unchanged files are neither re-parsed nor re-checked, and only
+ *   affected files are emitted
+ * - Outputs are written only when the build succeeds, so the last good build stays in place
+ * - Every instrumented target is listed in __tracing/manifest.json, for runtime coverage (runtime/coverage.ts)
+ */
+export function createInstrumentedBuilder(options: Omit<BuildOptions, 'config'>): InstrumentedBuilder {
+    const sourceDir = path.resolve(options.sourceDir)
+    const outputDir = path.resolve(options.outputDir)
+    const runtimeSourceDir = path.join(sourceDir, RUNTIME_OUT_DIR)
 
     // Read tsconfig.json
     const configPath = ts.findConfigFile('./', ts.sys.fileExists, 'tsconfig.json')
@@ -36,74 +93,252 @@ export function buildWithInstrumentation(options: BuildOptions) {
         allowImportingTsExtensions: false,
         noEmit: false,
         declaration: false,
+        declarationMap: false,
         sourceMap: true,
         esModuleInterop: true,
         allowSyntheticDefaultImports: true,
     }
 
-    // Get all TypeScript files
-    const tsFiles = getTypeScriptFiles(sourceDir)
-    
-    // Process each file with ts-morph instrumentation
-    for (const filePath of tsFiles) {
-        try {
-            // Read source code
-            const sourceCode = fs.readFileSync(filePath, 'utf-8')
-            
-            // Instrument with ts-morph tracer
-            const instrumentedCode = instrumentSourceCode(filePath, sourceCode)
-            
-            // Write instrumented TypeScript file to temp location
+    // Type-aware Express route analysis across all files (mounts resolved to full paths)
+    const analyzeRoutes = createExpressProjectAnalyzer(configPath)
+
+    // Program inputs: instrumented sources and the runtime (under sourceDir/__tracing), by absolute path
+    const files = new Map<string, InstrumentedFile>()
+    const inputs = new Map<string, string>()
+    // Parsed source files, reused while their text is unchanged (lib and node_modules typings included)
+    const parsed = new Map<string, ts.SourceFile>()
+    // Emitted outputs not written yet (pending after a failed build) and the outputs of each input
+    const pending = new Map<string, string>()
+    const outputsOf = new Map<string, string[]>()
+    const removed = new Set<string>()
+    let program: ts.EmitAndSemanticDiagnosticsBuilderProgram | undefined
+    let configKey: string | undefined
+    let layoutKey: string | undefined
+    let resolver: SpecifierResolver | undefined
+    let firstWrite = true
+
+    const host = ts.createCompilerHost(buildOptions)
+    const readFile = host.readFile.bind(host)
+    const fileExists = host.fileExists.bind(host)
+    host.readFile = (fileName) => inputs.get(path.resolve(fileName)) ?? readFile(fileName)
+    host.fileExists = (fileName) => inputs.has(path.resolve(fileName)) || fileExists(fileName)
+    // The runtime directory only exists in memory
+    host.directoryExists = (directoryName) => path.resolve(directoryName) === runtimeSourceDir || ts.sys.directoryExists(directoryName)
+    host.getSourceFile = (fileName, languageVersion) => {
+        const key = path.resolve(fileName)
+        const text = host.readFile(fileName)
+        if (text === undefined) return undefined
+        const cached = parsed.get(key)
+        if (cached && cached.text === text) return cached
+        const sourceFile = ts.createSourceFile(fileName, text, languageVersion)
+        // Builder programs compare versions to find changed files
+        ;(sourceFile as ts.SourceFile & { version?: string }).version = createHash('sha1').update(text).digest('hex')
+        parsed.set(key, sourceFile)
+        return sourceFile
+    }
+
+    function build(config: TracingConfig = loadTracingConfig()): BuildResult {
+        const instrumented: string[] = []
+        const nextKey = JSON.stringify(config)
+        if (nextKey !== configKey) files.clear()
+        configKey = nextKey
+
+        // Get all TypeScript files
+        const sources = new Map(getTypeScriptFiles(sourceDir)
+            .filter(f => !matchesAny(path.relative(sourceDir, f).split(path.sep).join('/'), EXCLUDED_SOURCES))
+            .map(f => [path.resolve(f), fs.readFileSync(f, 'utf-8')]))
+        const routeSites = analyzeRoutes(sources)
+
+        // Process each changed file with ts-morph instrumentation
+        for (const [filePath, source] of sources) {
+            const sites = routeSites.get(filePath) ?? new Map()
+            const sitesKey = JSON.stringify([...sites])
+            const previous = files.get(filePath)
+            if (previous && previous.source === source && previous.sitesKey === sitesKey) continue
+
             const relativePath = path.relative(sourceDir, filePath)
-            const tempPath = path.join(outputDir, 'temp', relativePath)
-            const tempDir = path.dirname(tempPath)
-            
-            if (!fs.existsSync(tempDir)) {
-                fs.mkdirSync(tempDir, { recursive: true })
+            try {
+                const targets: TraceTarget[] = []
+                const instrumentedCode = instrumentFile(filePath, relativePath, source, sites, config, targets)
+                files.set(filePath, { source, sitesKey, instrumented: instrumentedCode, output: instrumentedCode, targets })
+            } catch (error) {
+                files.delete(filePath)
+                const message = error instanceof Error ? error.message : String(error)
+                return { ok: false, diagnostics: [`${displayPath(filePath, process.cwd())} - error: failed to instrument: ${message}`], instrumented, written: 0 }
             }
-            
-            // Add .js extension imports for ESM compatibility
-            const esmCode = addJsExtensions(instrumentedCode)
-            fs.writeFileSync(tempPath, esmCode)
-            
-        } catch (error) {
-            console.error(`❌ Failed to instrument ${filePath}:`, error)
-            throw error
+            instrumented.push(filePath)
+        }
+        for (const filePath of files.keys()) {
+            if (sources.has(filePath)) continue
+            files.delete(filePath)
+            removed.add(filePath)
+        }
+
+        // Rewrite ESM module specifiers to runtime paths
+        const layout = [...sources.keys()].sort().join('\n')
+        const relink = layout !== layoutKey || !resolver
+        if (relink) resolver = createSpecifierResolver(buildOptions)
+        layoutKey = layout
+        for (const [filePath, file] of files) {
+            if (relink || instrumented.includes(filePath)) file.output = rewriteModuleSpecifiers(filePath, file.instrumented, resolver!)
         }
+
+        inputs.clear()
+        for (const [filePath, file] of files) inputs.set(filePath, file.output)
+        // The tracing runtime is compiled with the instrumented sources
+        for (const runtimeFile of getTypeScriptFiles(RUNTIME_DIR)) {
+            inputs.set(path.join(runtimeSourceDir, path.relative(RUNTIME_DIR, runtimeFile)), fs.readFileSync(runtimeFile, 'utf-8'))
+        }
+
+        program = ts.createEmitAndSemanticDiagnosticsBuilderProgram([...inputs.keys()], buildOptions, host, program)
+
+        // Emit JavaScript files (affected files only) into memory; source maps of the runtime are
+        // pointed back at tracing/runtime (instrumented files are line-aligned with their originals)
+        const emitResult = program.emit(undefined, (fileName, text, _writeByteOrderMark, _onError, sourceFiles) => {
+            pending.set(fileName, fileName.endsWith('.map') ? remapSourceMap(fileName, text, runtimeSourceDir) : text)
+            for (const sourceFile of sourceFiles ?? []) {
+                const key = path.resolve(sourceFile.fileName)
+                const outputs = outputsOf.get(key) ?? []
+                if (!outputs.includes(fileName)) outputs.push(fileName)
+                outputsOf.set(key, outputs)
+            }
+        })
+
+        const syntactic = [...program.getOptionsDiagnostics(), ...program.getGlobalDiagnostics(), ...program.getSyntacticDiagnostics()]
+        const all = [...syntactic, ...program.getSemanticDiagnostics(), ...emitResult.diagnostics]
+        const diagnostics = all.map(d => formatDiagnostic(d, files, runtimeSourceDir))
+        const ok = !emitResult.emitSkipped && !syntactic.some(d => d.category === ts.DiagnosticCategory.Error)
+        if (!ok) return { ok, diagnostics, instrumented, written: 0 }
+
+        return { ok, diagnostics, instrumented, written: writeOutputs(config) }
     }
 
-    // Compile instrumented TypeScript files to JavaScript
-    const tempSourceDir = path.join(outputDir, 'temp')
-    const instrumentedTsFiles = getTypeScriptFiles(tempSourceDir)
-    
-    const program = ts.createProgram({
-        rootNames: instrumentedTsFiles,
-        options: {
-            ...buildOptions,
-            rootDir: tempSourceDir,
+    function instrumentFile(filePath: string, relativePath: string, source: string, sites: FileRouteSites, config: TracingConfig,
+        targets: TraceTarget[]): string {
+        const projectPath = displayPath(filePath, process.cwd())
+
+        // Instrument with ts-morph tracer (files excluded in tracing.config.json and declaration files are copied as is)
+        return isFileTraced(config, projectPath) && !/\.d\.[mc]?ts$/.test(filePath)
+            ? instrumentSourceCode(filePath, source, {
+                runtimeSpecifier: runtimeSpecifierFor(relativePath),
+                projectRoot: process.cwd(),
+                routeSites: sites,
+                includeFunction: (name) => isFunctionTraced(config, name),
+                verbosity: verbosityFor(config, projectPath),
+                onTarget: (target) => targets.push(target),
+            })
+            : source
+    }
+
+    function writeOutputs(config: TracingConfig): number {
+        let written = 0
+
+        // The first successful build replaces whatever a previous session left behind
+        if (firstWrite) {
+            fs.rmSync(outputDir, { recursive: true, force: true })
+            firstWrite = false
         }
-    })
 
-    // Emit JavaScript files
-    const emitResult = program.emit()
+        for (const filePath of removed) {
+            for (const output of outputsOf.get(filePath) ?? []) {
+                pending.delete(output)
+                fs.rmSync(output, { force: true })
+                written++
+            }
+            outputsOf.delete(filePath)
+        }
+        removed.clear()
 
-    // Clean up temp directory
-    fs.rmSync(tempSourceDir, { recursive: true, force: true })
+        for (const [fileName, text] of pending) {
+            ts.sys.writeFile(fileName, text)
+            written++
+        }
+        pending.clear()
 
-    // Ensure output directory exists and create package.json for ES modules
-    if (!fs.existsSync(outputDir)) {
-        fs.mkdirSync(outputDir, { recursive: true })
+        // Ensure output directory exists and create package.json for ES modules
+        if (!fs.existsSync(outputDir)) {
+            fs.mkdirSync(outputDir, { recursive: true })
+        }
+
+        const packageJsonContent = {
+            "type": "module"
+        }
+
+        const packageJsonPath = path.join(outputDir, 'package.json')
+        fs.writeFileSync(packageJsonPath, JSON.stringify(packageJsonContent, null, 2))
+
+        // Sampling, toggles and admin port for the runtime (runtime/controls.ts)
+        fs.mkdirSync(path.join(outputDir, RUNTIME_OUT_DIR), { recursive: true })
+        fs.writeFileSync(path.join(outputDir, RUNTIME_OUT_DIR, 'settings.json'), JSON.stringify(runtimeSettingsOf(config), null, 2))
+        fs.writeFileSync(path.join(outputDir, RUNTIME_OUT_DIR, 'manifest.json'), JSON.stringify(manifestOf(files), null, 2))
+
+        return written
     }
 
-    const packageJsonContent = {
-        "type": "module"
+    return { build }
+}
+
+export function buildWithInstrumentation(options: BuildOptions) {
+    const result = createInstrumentedBuilder(options).build(options.config)
+    printDiagnostics(result.diagnostics)
+    if (!result.ok) {
+        console.error('❌ Build failed, nothing was written')
+        return 1
     }
+    console.log(`✅ Build complete! Output: ${options.outputDir}`)
+    return 0
+}
 
-    const packageJsonPath = path.join(outputDir, 'package.json')
-    fs.writeFileSync(packageJsonPath, JSON.stringify(packageJsonContent, null, 2))
+export function printDiagnostics(diagnostics: string[]) {
+    for (const diagnostic of diagnostics) console.error(diagnostic)
+    if (diagnostics.length > 0) console.error(`⚠️  ${diagnostics.length} TypeScript diagnostic${diagnostics.length === 1 ? '' : 's'}`)
+}
 
-    console.log(`✅ Build complete! Output: ${outputDir}`)
-    return emitResult.emitSkipped ? 1 : 0
+// `src/file.ts:12:5 - error TS2322: ...`; instrumented files keep the original line numbers, the
+// column is only given when the instrumentation did not change that line
+function formatDiagnostic(diagnostic: ts.Diagnostic, files: Map<string, InstrumentedFile>, runtimeSourceDir: string): string {
+    const category = ts.DiagnosticCategory[diagnostic.category].toLowerCase()
+    const message = `${category} TS${diagnostic.code}: ${ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')}`
+    if (!diagnostic.file || diagnostic.start === undefined) return message
+
+    const filePath = path.resolve(diagnostic.file.fileName)
+    const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+    const originalFile = filePath.startsWith(runtimeSourceDir + path.sep)
+        ? path.join(RUNTIME_DIR, path.relative(runtimeSourceDir, filePath))
+        : filePath
+    const original = files.get(filePath)?.source ?? diagnostic.file.text
+    const sameLine = original.split('\n')[line] === diagnostic.file.text.split('\n')[line]
+    const location = `${displayPath(originalFile, process.cwd())}:${line + 1}${sameLine ? `:${character + 1}` : ''}`
+    return `${location} - ${message}`
+}
+
+// Rewrites `sources` of an emitted runtime map from sourceDir/__tracing to tracing/runtime
+function remapSourceMap(mapFile: string, text: string, runtimeSourceDir: string): string {
+    const map = JSON.parse(text) as { sources: string[], sourceRoot?: string }
+    const mapDir = path.dirname(mapFile)
+    map.sources = map.sources.map((source) => {
+        const file = path.resolve(mapDir, map.sourceRoot ?? '', source)
+        const relativePath = path.relative(runtimeSourceDir, file)
+        if (relativePath.startsWith('..')) return path.relative(mapDir, file).split(path.sep).join('/')
+        return path.relative(mapDir, path.join(RUNTIME_DIR, relativePath)).split(path.sep).join('/')
+    })
+    delete map.sourceRoot
+    return JSON.stringify(map)
+}
+
+// Targets of every instrumented file, by file and position (payload verbosity is not part of a target's identity)
+function manifestOf(files: Map<string, InstrumentedFile>): CoverageManifest {
+    const targets = [...files.values()].flatMap(file => file.targets)
+        .map(({ verbosity: _verbosity, ...target }) => ({ ...target, line: target.line ?? 0, column: target.column ?? 0 }))
+        .sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line || a.column - b.column)
+    return { targets }
+}
+
+// Relative import of the runtime entry from an instrumented file (e.g. '../__tracing/index.js')
+function runtimeSpecifierFor(relativePath: string): string {
+    const fromDir = path.dirname(relativePath)
+    const target = path.relative(fromDir, path.join(RUNTIME_OUT_DIR, 'index.js')).split(path.sep).join('/')
+    return target.startsWith('.') ? target : `./${target}`
 }
 
 function getTypeScriptFiles(dir: string): string[] {
@@ -117,7 +352,7 @@ function getTypeScriptFiles(dir: string): string[] {
 
             if (entry.isDirectory() && !entry.name.startsWith('.') && entry.name !== 'node_modules') {
                 traverse(fullPath)
-            } else if (entry.isFile() && (entry.name.endsWith('.ts') || entry.name.endsWith('.tsx'))) {
+            } else if (entry.isFile() && /\.(ts|tsx|mts|cts)$/.test(entry.name)) {
                 files.push(fullPath)
             }
         }
@@ -126,15 +361,3 @@ function getTypeScriptFiles(dir: string): string[] {
     traverse(dir)
     return files
 }
-
-// Simple function to add .js extensions to imports for ESM compatibility
-function addJsExtensions(code: string): string {
-    // Replace relative imports without extensions with .js extensions
-    return code.replace(
-        /from\s+['"](\.\S*?)(?<!\.js)['"];/g,
-        "from '$1.js';"
-    ).replace(
-        /import\s+['"](\.\S*?)(?<!\.js)['"];/g,
-        "import '$1.js';"
-    )
-}
\ No newline at end of file
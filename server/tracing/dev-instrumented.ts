@@ -2,30 +2,71 @@
 import dotenv from 'dotenv';
 
 import { spawn, ChildProcess } from 'child_process'
-import { buildWithInstrumentation } from './build-instrumented.js'
+import { createInstrumentedBuilder, printDiagnostics } from './build-instrumented.js'
+import { loadTracingConfig, CONFIG_FILE } from './tracing-config.js'
 import * as fs from 'fs'
 import chokidar from 'chokidar'
+import { loadServerConfig, loadTracingEnv, ConfigError, type Env } from '../src/config/index.js'
 
 const SOURCE_DIR = 'src'
 const OUTPUT_DIR = 'dist/instrumented'
 const ENTRY_FILE = 'dist/instrumented/index.js'
 
+// Quiet period after the last change before rebuilding (editors save in bursts)
+const DEBOUNCE_MS = 150
+// Time the server gets to exit after SIGTERM on top of its own drain deadline (SHUTDOWN_TIMEOUT_MS) before it is killed
+const KILL_GRACE_MS = 2000
+
 let serverProcess: ChildProcess | null = null
+let killAfterMs = KILL_GRACE_MS
+const builder = createInstrumentedBuilder({ sourceDir: SOURCE_DIR, outputDir: OUTPUT_DIR })
+
+// Variables set in the shell win over .env, as with dotenv.config()
+const SHELL_ENV = { ...process.env }
+// The server prints its profile and writes the flame graph stacks here when it stops (tracing/runtime/profiler.ts)
+const PROFILE_FILE = 'tracing/profile.folded'
+// Targets that ran, added to by every server run of this session (tracing/runtime/coverage.ts, trace-query coverage)
+const COVERAGE_FILE = 'tracing/coverage.json'
+
+// Environment of the server: .env is re-read on every restart so edits apply
+// (dotenv.config() never overrides a variable that is already set)
+function readEnv(): Env {
+    const file = fs.existsSync('.env') ? dotenv.parse(fs.readFileSync('.env')) : {}
+    return { TRACE_PROFILE_FILE: PROFILE_FILE, TRACE_COVERAGE_FILE: COVERAGE_FILE, ...file, ...SHELL_ENV, NODE_ENV: 'development' }
+}
 
+// Checks the environment against the config schema (src/config) and prints every problem
+function checkEnv(env: Env): boolean {
+    let ok = true
+    for (const load of [loadServerConfig, loadTracingEnv]) {
+        try {
+            load(env)
+        } catch (error) {
+            if (!(error instanceof ConfigError)) throw error
+            console.error(`❌ ${error.message}`)
+            ok = false
+        }
+    }
+    return ok
+}
 
-function startServer() {
+function startServer(env: Env) {
     if (fs.existsSync(ENTRY_FILE)) {
         console.log('🚀 Starting instrumented server...')
-        serverProcess = spawn('node', [ENTRY_FILE], {
+        // Source maps of the instrumented build resolve to the original src/*.ts
+        const child = spawn('node', ['--enable-source-maps', ENTRY_FILE], {
             stdio: 'inherit',
-            env: { ...process.env, NODE_ENV: 'development' }
+            env
         })
+        serverProcess = child
+        killAfterMs = loadServerConfig(env).SHUTDOWN_TIMEOUT_MS + KILL_GRACE_MS
 
-        serverProcess.on('error', (error) => {
+        child.on('error', (error) => {
             console.error('❌ Server error:', error)
         })
 
-        serverProcess.on('exit', (code) => {
+        child.on('exit', (code) => {
+            if (serverProcess === child) serverProcess = null
             if (code !== null && code !== 0) {
                 console.log(`⚠️  Server exited with code ${code}`)
             }
@@ -35,43 +76,88 @@ function startServer() {
     }
 }
 
-function clearOutputDirectory() {
-    if (fs.existsSync(OUTPUT_DIR)) {
-        console.log('🧹 Clearing output directory...')
-        fs.rmSync(OUTPUT_DIR, { recursive: true, force: true })
-    }
+// SIGTERM, then SIGKILL if the server has not exited in time; resolves once it is gone (port released)
+function stopServer(): Promise<void> {
+    const child = serverProcess
+    serverProcess = null
+    if (!child || child.exitCode !== null || child.signalCode !== null) return Promise.resolve()
+
+    console.log('🛑 Stopping server...')
+    return new Promise((resolve) => {
+        const timer = setTimeout(() => {
+            console.log(`⚠️  Server did not exit within ${killAfterMs}ms, killing it`)
+            child.kill('SIGKILL')
+        }, killAfterMs)
+        child.once('exit', () => {
+            clearTimeout(timer)
+            resolve()
+        })
+        child.kill('SIGTERM')
+    })
 }
 
-function rebuild() {
-    if (serverProcess) {
-        console.log('🛑 Stopping server...')
-        serverProcess.kill()
-        serverProcess = null
-    }
-
-    clearOutputDirectory()
-
+// Builds while the current server keeps running; it is only replaced when the build succeeds
+function rebuild(env: Env): boolean {
     try {
         console.log('🔄 Rebuilding instrumented server...')
-        dotenv.config();
 
-        buildWithInstrumentation({
-            sourceDir: SOURCE_DIR,
-            outputDir: OUTPUT_DIR
-        })
+        // Re-read on every rebuild so tracing.config.json edits apply
+        const config = loadTracingConfig()
+        const adminPort = loadTracingEnv(env).TRACE_ADMIN_PORT ?? config.runtime.adminPort
+        if (adminPort) console.log(`🎛️  Tracing admin endpoint: http://127.0.0.1:${adminPort}/tracing`)
+
+        const start = Date.now()
+        const result = builder.build(config)
+        printDiagnostics(result.diagnostics)
+        if (!result.ok) {
+            console.error(`❌ Build failed${serverProcess ? ', the last good build keeps running' : ''}`)
+            return false
+        }
+        console.log(`✅ Build complete in ${Date.now() - start}ms (${result.instrumented.length} file(s) instrumented, ${result.written} output(s) written)`)
+        return true
     } catch (error) {
         console.error('❌ Build failed:', error)
+        return false
     }
+}
 
-    startServer()
+let changed = new Set<string>()
+let timer: NodeJS.Timeout | null = null
+let running: Promise<void> = Promise.resolve()
+
+function scheduleRestart(path: string) {
+    changed.add(path)
+    if (timer) clearTimeout(timer)
+    timer = setTimeout(() => {
+        timer = null
+        const batch = changed
+        changed = new Set()
+        // Batches run one after another, never two builds or restarts at once
+        running = running.then(() => restart(batch))
+    }, DEBOUNCE_MS)
+}
+
+async function restart(batch: Set<string>) {
+    const envOnly = [...batch].every(p => p.endsWith('.env'))
+    const env = readEnv()
+    if (!checkEnv(env)) {
+        if (serverProcess) console.error('❌ Invalid environment, the running server keeps its previous one')
+        return
+    }
+    if (!envOnly && !rebuild(env)) return
+    await stopServer()
+    startServer(env)
 }
 
 // Initial build and start
-rebuild()
+const initialEnv = readEnv()
+// A coverage session is one run of this script, across server restarts
+if (initialEnv.TRACE_COVERAGE_FILE) fs.rmSync(initialEnv.TRACE_COVERAGE_FILE, { force: true })
+if (checkEnv(initialEnv) && rebuild(initialEnv)) startServer(initialEnv)
 
 // Watch for changes
 console.log('👀 Watching for changes in', SOURCE_DIR)
-const watcher = chokidar.watch([SOURCE_DIR, '.env'], {
+const watcher = chokidar.watch([SOURCE_DIR, '.env', CONFIG_FILE], {
     ignored: [
         /(^|[\\/])node_modules([\\/]|$)/,   // any “node_modules” segment
         /(^|[\\/])dist([\\/]|$)/,
@@ -86,9 +172,9 @@ const watcher = chokidar.watch([SOURCE_DIR, '.env'], {
 })
 
 watcher.on('all', (event, path) => {
-    if (path && (path.endsWith('.ts') || path.endsWith('.tsx') || path.endsWith('.env'))) {
+    if (path && (/\.(ts|tsx|mts|cts)$/.test(path) || path.endsWith('.env') || path.endsWith(CONFIG_FILE))) {
         console.log(`📝 File ${event}: ${path}`)
-        rebuild()
+        scheduleRestart(path)
     }
 })
 
@@ -97,19 +183,18 @@ watcher.on('error', (error) => {
 })
 
 // Cleanup on exit
+async function shutdown() {
+    if (timer) clearTimeout(timer)
+    await watcher.close()
+    await stopServer()
+    process.exit(0)
+}
+
 process.on('SIGINT', () => {
     console.log('\n🛑 Shutting down...')
-    watcher.close()
-    if (serverProcess) {
-        serverProcess.kill()
-    }
-    process.exit(0)
+    void shutdown()
 })
 
 process.on('SIGTERM', () => {
-    watcher.close()
-    if (serverProcess) {
-        serverProcess.kill()
-    }
-    process.exit(0)
-}) 
\ No newline at end of file
+    void shutdown()
+})
@@ -1,86 +1,61 @@
-import { SourceFile, Node } from 'ts-morph';
-
-// Express HTTP methods for endpoint detection
-const EXPRESS_METHODS = new Set(['get', 'post', 'put', 'delete', 'patch', 'head', 'options', 'all']);
+import { SourceFile, Node, CallExpression } from 'ts-morph';
+import { analyzeExpressFile, siteKey, type FileRouteSites, type HandlerSite, type RouteSite } from './express-route-analyzer.js';
+import type { SourceEdits } from './source-edits.js';
+import type { TraceTarget } from './runtime/types.js';
 
 /**
- * Instruments Express endpoints in-place within the provided SourceFile.
- * - Inline handlers: wrap with ENTER/EXIT/ERROR logs.
- * - Named handlers: wrap to log ENTER with function name.
- * Log formats:
- *   Inline: ACTION|ENDPOINT|METHOD|ROUTE|FILE|INPUTS/OUTPUT/ERROR
- *   Named:  ENTER|ENDPOINT|METHOD|ROUTE|FILE|FUNCTION NAME
+ * Instruments Express route registrations of the provided (unmodified) SourceFile by adding edits.
+ * - Route sites come from express-route-analyzer.ts: typed project analysis when build-instrumented.ts
+ *   passes them in, else the name-based single-file fallback (receivers `app`/`router`).
+ * - Every handler argument (including middleware arrays) is wrapped as
+ *   `__trace.wrapHandler(handler, target)` (runtime/express-handlers.ts): the route handler is traced
+ *   as ENDPOINT, route-level middleware and app/router.use() handlers as MIDDLEWARE.
+ * - Each handler opens the request's root span (children for later handlers of the same request),
+ *   so FUNCTION records emitted while handling it share its trace id.
+ * Log formats (stdout sink), FILE:LINE:COLUMN locating the handler in the original source:
+ *   ACTION|ENDPOINT|METHOD|ROUTE|FILE:LINE:COLUMN|TRACE_ID|SPAN_ID|PARENT_SPAN_ID|DEPTH|INPUTS/OUTPUT/ERROR
+ *   ACTION|MIDDLEWARE|METHOD|ROUTE|FILE:LINE:COLUMN|TRACE_ID|SPAN_ID|PARENT_SPAN_ID|DEPTH|INPUTS/OUTPUT/ERROR
+ * Sites are matched by the original location of the method name in `receiver.method(...)`.
+ * `onTarget` receives the target of every wrapped handler (build manifest, see build-instrumented.ts).
  */
-export function instrumentExpressEndpointsAst(sourceFile: SourceFile, fileName: string): void {
+export function instrumentExpressEndpointsAst(sourceFile: SourceFile, fileName: string, edits: SourceEdits, sites: FileRouteSites = analyzeExpressFile(sourceFile),
+    verbosity: 'full' | 'names' = 'full', onTarget?: (target: TraceTarget) => void): void {
+    if (sites.size === 0) return;
     sourceFile.forEachDescendant((node) => {
         if (!Node.isCallExpression(node)) return;
-        const expression = node.getExpression();
-        if (!Node.isPropertyAccessExpression(expression)) return;
-        const methodName = expression.getName();
-        const object = expression.getExpression();
-        if (!EXPRESS_METHODS.has(methodName)) return;
-        if (!Node.isIdentifier(object)) return;
-        const objName = object.getText();
-        if (objName !== 'app' && objName !== 'router') return;
-
-        const args = node.getArguments();
-        // Determine route path if first arg is string
-        let routePath = '/*';
-        const pathArg = args[0];
-        if (pathArg && Node.isStringLiteral(pathArg)) routePath = pathArg.getLiteralValue();
-
-        // Replace handler arguments starting after the path literal (or from 0 if absent)
-        const startIdx = pathArg && Node.isStringLiteral(pathArg) ? 1 : 0;
-        for (let i = startIdx; i < args.length; i++) {
-            const a = args[i];
-            if (Node.isFunctionExpression(a) || Node.isArrowFunction(a)) {
-                const handlerText = a.getText();
-                const wrapped = buildEndpointWrapperInline(handlerText, fileName, methodName.toUpperCase(), routePath);
-                a.replaceWithText(wrapped);
-            } else if (Node.isIdentifier(a)) {
-                const handlerName = a.getText();
-                const wrapped = buildEndpointWrapperRef(handlerName, fileName, methodName.toUpperCase(), routePath);
-                a.replaceWithText(wrapped);
-            }
+        const callee = node.getExpression();
+        if (!Node.isPropertyAccessExpression(callee)) return;
+        const nameNode = callee.getNameNode();
+        const { line, column } = sourceFile.getLineAndColumnAtPos(nameNode.getStart());
+        const site = sites.get(siteKey(line, column));
+        if (!site) return;
+        for (const handler of site.handlers) {
+            const target = argumentAt(node, handler.path);
+            if (!target) continue;
+            const traceTarget = handlerTarget(fileName, site, handler, verbosity);
+            onTarget?.(traceTarget);
+            edits.wrap(target, '__trace.wrapHandler(', `, ${JSON.stringify(traceTarget)})`);
         }
     });
 }
 
-// IIFE wrapping to preserve original inline handler as __h
-function buildEndpointWrapperInline(originalHandlerText: string, fileName: string, method: string, route: string): string {
-    // Logs: ACTION|ENDPOINT|METHOD|ROUTE|FILE|INPUT/OUTPUT/ERROR
-    return `((__h) => (req, res, next) => {
-    const __start = Date.now();
-    if (res && typeof res.once === 'function') {
-        try {
-            res.once('finish', () => {
-                const __dur = Date.now() - __start;
-                const __out = { status: res.statusCode, duration_ms: __dur };
-                console.log(\`EXIT|ENDPOINT|${method}|${route}|${fileName}|\${safeToString(__out)}\`);
-            });
-        } catch {}
+function argumentAt(call: CallExpression, path: number[]): Node | undefined {
+    let node: Node | undefined = call.getArguments()[path[0]!];
+    for (const index of path.slice(1)) {
+        node = node && Node.isArrayLiteralExpression(node) ? node.getElements()[index] : undefined;
     }
-    const __in = { params: req?.params, query: req?.query, body: req?.body };
-    console.log(\`ENTER|ENDPOINT|${method}|${route}|${fileName}|\${safeToString(__in)}\`);
-    try {
-        const out = __h(req, res, next);
-        if (out && typeof out.then === 'function') {
-            return out.catch(e => { console.error(\`ERROR|ENDPOINT|${method}|${route}|${fileName}|\${safeToString(e)}\`); throw e; });
-        }
-        return out;
-    } catch (e) {
-        console.error(\`ERROR|ENDPOINT|${method}|${route}|${fileName}|\${safeToString(e)}\`);
-        throw e;
-    }
-})(${originalHandlerText})`;
+    return node;
 }
 
-function buildEndpointWrapperRef(handlerName: string, fileName: string, method: string, route: string): string {
-    // Logs only ENTER with function name per requirement
-    return `(req, res, next) => {
-    console.log(\`ENTER|ENDPOINT|${method}|${route}|${fileName}|${handlerName}\`);
-    return ${handlerName}(req, res, next);
-}`;
+function handlerTarget(fileName: string, site: RouteSite, handler: HandlerSite, verbosity: 'full' | 'names'): TraceTarget {
+    return {
+        kind: handler.kind,
+        file: fileName,
+        scope: site.method,
+        name: site.routes.join(','),
+        line: handler.line,
+        column: handler.column,
+        handler: handler.label,
+        ...(verbosity === 'names' ? { verbosity } : {})
+    };
 }
-
-
@@ -0,0 +1,317 @@
+import { Project, SourceFile, Node, Type, CallExpression, Expression } from 'ts-morph';
+
+/**
+ * Static analysis of Express route registrations.
+ * - Typed mode (createExpressProjectAnalyzer): receivers are recognised by their Express types
+ *   (Express/Application, Router/IRouter, IRoute), whatever their variable names, and
+ *   `use()` mounts are followed across files (imports, default exports) so routes get
+ *   their full effective path, e.g. app.use('/api', api) + api.use('/users', users)
+ *   + users.get('/:id') → /api/users/:id
+ * - Name mode (analyzeExpressFile): untyped fallback for a single file; receivers named
+ *   `app`/`router` (or `*Router`), same path handling
+ * Handles string/template/regex/array paths, constants of string literal types (e.g. contract
+ * paths), app.route(path).get().post() chains, middleware arrays and route-level middleware.
+ * Result is keyed by original source location so the per-file instrumenter can find the same
+ * calls after rewriting.
+ */
+
+export const EXPRESS_METHODS = new Set(['get', 'post', 'put', 'delete', 'patch', 'head', 'options', 'all']);
+
+export type HandlerKind = 'ENDPOINT' | 'MIDDLEWARE';
+
+export interface HandlerSite {
+    // Argument index, then element indexes inside (nested) array arguments
+    path: number[];
+    kind: HandlerKind;
+    // Handler name or expression text (e.g. `requireAuth`, `express.json()`)
+    label: string;
+    line: number;
+    column: number;
+}
+
+export interface RouteSite {
+    // GET/POST/... or USE for app.use/router.use
+    method: string;
+    // Effective routes (one per mount prefix × path)
+    routes: string[];
+    handlers: HandlerSite[];
+}
+
+// "line:column" of the method name in `receiver.method(...)` → route site
+export type FileRouteSites = Map<string, RouteSite>;
+
+type Role = 'app' | 'router' | 'route';
+
+interface Matcher {
+    role(expr: Expression): Role | null;
+    isMountable(expr: Expression): boolean;
+    isHandlerLike(expr: Expression): boolean;
+}
+
+export function siteKey(line: number, column: number): string {
+    return `${line}:${column}`;
+}
+
+// Typed analysis of the given files (absolute path → text), keyed by absolute file path.
+// The ts-morph project is kept between calls (incremental builds): only changed files are re-parsed
+export function createExpressProjectAnalyzer(tsConfigFilePath: string): (files: Map<string, string>) => Map<string, FileRouteSites> {
+    const project = new Project({ tsConfigFilePath, skipAddingFilesFromTsConfig: true });
+    return (files) => {
+        for (const sourceFile of project.getSourceFiles()) {
+            if (!sourceFile.isDeclarationFile() && !files.has(sourceFile.getFilePath())) project.removeSourceFile(sourceFile);
+        }
+        for (const [filePath, text] of files) {
+            const sourceFile = project.getSourceFile(filePath);
+            if (!sourceFile) project.createSourceFile(filePath, text, { overwrite: true });
+            else if (sourceFile.getFullText() !== text) sourceFile.replaceWithText(text);
+        }
+        project.resolveSourceFileDependencies();
+        return analyze(project.getSourceFiles(), typedMatcher());
+    };
+}
+
+// Untyped, single-file analysis (receivers recognised by name)
+export function analyzeExpressFile(sourceFile: SourceFile): FileRouteSites {
+    return analyze([sourceFile], namedMatcher()).get(sourceFile.getFilePath()) ?? new Map();
+}
+
+function analyze(sourceFiles: SourceFile[], matcher: Matcher): Map<string, FileRouteSites> {
+    const calls: { call: CallExpression, method: string, receiver: Expression, nameNode: Node }[] = [];
+    for (const sourceFile of sourceFiles) {
+        if (sourceFile.isDeclarationFile()) continue;
+        sourceFile.forEachDescendant((node) => {
+            if (!Node.isCallExpression(node)) return;
+            const callee = node.getExpression();
+            if (!Node.isPropertyAccessExpression(callee)) return;
+            const method = callee.getName();
+            if (method !== 'use' && !EXPRESS_METHODS.has(method)) return;
+            const receiver = callee.getExpression();
+            if (!matcher.role(receiver)) return;
+            calls.push({ call: node, method, receiver, nameNode: callee.getNameNode() });
+        });
+    }
+
+    // Mount graph: router/app declaration → (parent receiver, mount paths)
+    const mounts = new Map<string, { parent: Expression, paths: string[] }[]>();
+    for (const { call, method, receiver } of calls) {
+        if (method !== 'use') continue;
+        const { paths, handlerArgs } = splitArgs(call);
+        for (const { expr } of flattenHandlers(handlerArgs)) {
+            if (!matcher.isMountable(expr)) continue;
+            const key = declarationKey(expr);
+            if (!key) continue;
+            const list = mounts.get(key) ?? [];
+            list.push({ parent: receiver, paths: paths ?? ['/'] });
+            mounts.set(key, list);
+        }
+    }
+
+    const prefixesOf = (receiver: Expression, visiting: Set<string>): string[] => {
+        if (matcher.role(receiver) === 'route') {
+            const chain = resolveRouteChain(receiver);
+            if (!chain) return ['/*'];
+            return cross(prefixesOf(chain.base, visiting), chain.paths);
+        }
+        const key = declarationKey(receiver);
+        const edges = key ? mounts.get(key) : undefined;
+        if (!key || !edges || visiting.has(key)) return [''];
+        const next = new Set(visiting).add(key);
+        return unique(edges.flatMap(edge => cross(prefixesOf(edge.parent, next), edge.paths)));
+    };
+
+    const result = new Map<string, FileRouteSites>();
+    for (const { call, method, receiver, nameNode } of calls) {
+        const { paths, handlerArgs } = splitArgs(call);
+        const handlers = flattenHandlers(handlerArgs)
+            .filter(h => matcher.isHandlerLike(h.expr) && !(method === 'use' && matcher.isMountable(h.expr)));
+        if (handlers.length === 0) continue;
+
+        const prefixes = prefixesOf(receiver, new Set());
+        const ownPaths = paths ?? (method === 'use' ? ['/'] : matcher.role(receiver) === 'route' ? [''] : ['/*']);
+        const routes = unique(cross(prefixes, ownPaths).map(r => r || '/'));
+        const lastHandler = handlers[handlers.length - 1];
+        const site: RouteSite = {
+            method: method.toUpperCase(),
+            routes,
+            handlers: handlers.map(h => {
+                const { line, column } = h.expr.getSourceFile().getLineAndColumnAtPos(h.expr.getStart());
+                const kind: HandlerKind = method !== 'use' && h === lastHandler ? 'ENDPOINT' : 'MIDDLEWARE';
+                return { path: h.path, kind, label: labelOf(h.expr), line, column };
+            })
+        };
+
+        const filePath = call.getSourceFile().getFilePath();
+        const { line, column } = call.getSourceFile().getLineAndColumnAtPos(nameNode.getStart());
+        const fileSites = result.get(filePath) ?? new Map();
+        fileSites.set(siteKey(line, column), site);
+        result.set(filePath, fileSites);
+    }
+    return result;
+}
+
+// --- Arguments and paths ---
+
+function splitArgs(call: CallExpression): { paths: string[] | null, handlerArgs: { expr: Expression, path: number[] }[] } {
+    const args = call.getArguments() as Expression[];
+    const first = args[0];
+    const paths = first ? pathsOf(first) : null;
+    const start = paths ? 1 : 0;
+    return { paths, handlerArgs: args.slice(start).map((expr, i) => ({ expr, path: [i + start] })) };
+}
+
+// String, template, regex or array-of-those path argument; null when the argument is not a path
+function pathsOf(expr: Expression): string[] | null {
+    if (Node.isStringLiteral(expr) || Node.isNoSubstitutionTemplateLiteral(expr)) return [expr.getLiteralValue()];
+    if (Node.isRegularExpressionLiteral(expr)) return [expr.getText()];
+    if (Node.isArrayLiteralExpression(expr)) {
+        const elements = expr.getElements();
+        if (elements.length === 0) return null;
+        const all: string[] = [];
+        for (const el of elements) {
+            const p = pathsOf(el as Expression);
+            if (!p) return null;
+            all.push(...p);
+        }
+        return all;
+    }
+    // Constants typed as string literals, e.g. `contract.health.path` (typed mode resolves them across files)
+    if (Node.isIdentifier(expr) || Node.isPropertyAccessExpression(expr)) {
+        const type = expr.getType();
+        if (type.isStringLiteral()) return [type.getLiteralValue() as string];
+    }
+    return null;
+}
+
+function flattenHandlers(args: { expr: Expression, path: number[] }[]): { expr: Expression, path: number[] }[] {
+    return args.flatMap(({ expr, path }) => Node.isArrayLiteralExpression(expr)
+        ? flattenHandlers(expr.getElements().map((el, i) => ({ expr: el as Expression, path: [...path, i] })))
+        : [{ expr, path }]);
+}
+
+function joinRoute(prefix: string, route: string): string {
+    if (!prefix || prefix === '/') return route || prefix;
+    if (!route || route === '/') return prefix;
+    return prefix.replace(/\/+$/, '') + (route.startsWith('/') ? route : `/${route}`);
+}
+
+function cross(prefixes: string[], paths: string[]): string[] {
+    return unique(prefixes.flatMap(prefix => paths.map(p => joinRoute(prefix, p))));
+}
+
+function unique(items: string[]): string[] {
+    return [...new Set(items)];
+}
+
+function labelOf(expr: Expression): string {
+    if ((Node.isFunctionExpression(expr) || Node.isArrowFunction(expr))) {
+        const name = Node.isFunctionExpression(expr) ? expr.getName() : undefined;
+        return name ?? '<anonymous>';
+    }
+    const text = expr.getText().replace(/\s+/g, ' ');
+    return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+// --- Route chains: app.route('/x').get(a).post(b), or const r = app.route('/x'); r.get(a) ---
+
+function resolveRouteChain(expr: Expression): { base: Expression, paths: string[] } | null {
+    let current: Node | undefined = expr;
+    for (let guard = 0; current && guard < 50; guard++) {
+        if (Node.isIdentifier(current)) {
+            const decl: Node | undefined = current.getSymbol()?.getDeclarations()[0];
+            current = decl && Node.isVariableDeclaration(decl) ? decl.getInitializer() : undefined;
+            continue;
+        }
+        if (!Node.isCallExpression(current)) return null;
+        const callee = current.getExpression();
+        if (!Node.isPropertyAccessExpression(callee)) return null;
+        if (callee.getName() === 'route') {
+            const arg = current.getArguments()[0] as Expression | undefined;
+            return { base: callee.getExpression(), paths: (arg && pathsOf(arg)) ?? ['/*'] };
+        }
+        if (!EXPRESS_METHODS.has(callee.getName())) return null;
+        current = callee.getExpression();
+    }
+    return null;
+}
+
+// --- Symbols ---
+
+// Stable key for the declaration an expression refers to (follows imports and `export default x`)
+function declarationKey(expr: Expression): string | null {
+    let symbol = expr.getSymbol();
+    for (let guard = 0; symbol && guard < 10; guard++) {
+        if (symbol.isAlias()) {
+            symbol = symbol.getAliasedSymbol();
+            continue;
+        }
+        const decl = symbol.getDeclarations()[0];
+        if (!decl) return null;
+        if (Node.isExportAssignment(decl)) {
+            symbol = decl.getExpression().getSymbol();
+            continue;
+        }
+        return `${decl.getSourceFile().getFilePath()}:${decl.getStart()}`;
+    }
+    return null;
+}
+
+// --- Matchers ---
+
+const APP_TYPES = new Set(['Express', 'Application']);
+const ROUTER_TYPES = new Set(['Router', 'IRouter']);
+const ROUTE_TYPES = new Set(['IRoute']);
+const EXPRESS_DECLARATION_FILE = /[\\/]@types[\\/]express(-serve-static-core)?[\\/]/;
+
+function expressTypeName(type: Type, depth = 0): string | null {
+    if (depth > 4) return null;
+    for (const t of type.isUnion() ? type.getUnionTypes() : [type]) {
+        const symbol = t.getSymbol() ?? t.getAliasSymbol();
+        if (symbol) {
+            const name = symbol.getName();
+            const fromExpress = symbol.getDeclarations().some(d => EXPRESS_DECLARATION_FILE.test(d.getSourceFile().getFilePath()));
+            if (fromExpress && (APP_TYPES.has(name) || ROUTER_TYPES.has(name) || ROUTE_TYPES.has(name))) return name;
+        }
+        for (const base of t.getBaseTypes()) {
+            const name = expressTypeName(base, depth + 1);
+            if (name) return name;
+        }
+    }
+    return null;
+}
+
+function typedMatcher(): Matcher {
+    const roleOfType = (expr: Expression): Role | null => {
+        const name = expressTypeName(expr.getType());
+        if (!name) return null;
+        if (APP_TYPES.has(name)) return 'app';
+        if (ROUTER_TYPES.has(name)) return 'router';
+        return 'route';
+    };
+    return {
+        role: roleOfType,
+        isMountable: (expr) => {
+            const role = roleOfType(expr);
+            return role === 'app' || role === 'router';
+        },
+        isHandlerLike: (expr) => expr.getType().getCallSignatures().length > 0
+    };
+}
+
+function namedMatcher(): Matcher {
+    const isRouterName = (name: string) => name === 'router' || /Router$/.test(name);
+    const role = (expr: Expression): Role | null => {
+        if (Node.isIdentifier(expr)) {
+            const name = expr.getText();
+            if (name === 'app') return 'app';
+            if (isRouterName(name)) return 'router';
+        }
+        const chain = resolveRouteChain(expr);
+        return chain && role(chain.base) ? 'route' : null;
+    };
+    return {
+        role,
+        isMountable: (expr) => Node.isIdentifier(expr) && isRouterName(expr.getText()),
+        isHandlerLike: (expr) => Node.isFunctionExpression(expr) || Node.isArrowFunction(expr) || Node.isIdentifier(expr)
+            || Node.isPropertyAccessExpression(expr) || Node.isCallExpression(expr)
+    };
+}
@@ -0,0 +1,84 @@
+import * as ts from 'typescript'
+import * as path from 'path'
+
+/**
+ * ESM module specifiers of the instrumented build. Node needs relative paths with the emitted
+ * extension, while sources may use extensionless imports, directory imports (`./routes` →
+ * `./routes/index.js`) and tsconfig `paths` aliases (`@/lib/db` → `../lib/db.js`).
+ * Every static specifier (import/export declarations, `import x = require()`, `import('...')`)
+ * is resolved against the real files, as a bundler would, and rewritten as a relative path.
+ * Package imports and specifiers that do not resolve to a project source are left as they are.
+ */
+
+// Emitted extension per source extension (.js, .mjs, .cjs and .json are kept)
+const OUTPUT_EXTENSIONS: Record<string, string> = {
+    '.ts': '.js',
+    '.tsx': '.js',
+    '.mts': '.mjs',
+    '.cts': '.cjs',
+}
+
+export interface SpecifierResolver {
+    // Runtime specifier for `specifier` imported from `filePath`, or undefined to keep it
+    resolve(specifier: string, filePath: string): string | undefined
+}
+
+export function createSpecifierResolver(options: ts.CompilerOptions, host: ts.ModuleResolutionHost = ts.sys): SpecifierResolver {
+    // Bundler resolution accepts extensionless and directory imports; `paths`/`baseUrl` are kept
+    const resolutionOptions: ts.CompilerOptions = {
+        ...options,
+        module: ts.ModuleKind.ESNext,
+        moduleResolution: ts.ModuleResolutionKind.Bundler,
+    }
+    const cache = ts.createModuleResolutionCache(process.cwd(), f => ts.sys.useCaseSensitiveFileNames ? f : f.toLowerCase(), resolutionOptions)
+
+    return {
+        resolve(specifier, filePath) {
+            const { resolvedModule } = ts.resolveModuleName(specifier, filePath, resolutionOptions, host, cache)
+            if (!resolvedModule || resolvedModule.isExternalLibraryImport) return undefined
+            const resolved = resolvedModule.resolvedFileName
+            if (/\.d\.[mc]?ts$/.test(resolved)) return undefined
+
+            const extension = path.extname(resolved)
+            const output = resolved.slice(0, -extension.length) + (OUTPUT_EXTENSIONS[extension] ?? extension)
+            const relative = path.relative(path.dirname(filePath), output).split(path.sep).join('/')
+            return relative.startsWith('.') ? relative : `./${relative}`
+        }
+    }
+}
+
+// Rewrites the module specifiers of `code` (the module at `filePath`); lines are unchanged
+export function rewriteModuleSpecifiers(filePath: string, code: string, resolver: SpecifierResolver): string {
+    const sourceFile = ts.createSourceFile(filePath, code, ts.ScriptTarget.Latest, true)
+    let output = code
+    // Back to front so earlier positions stay valid
+    for (const literal of specifierLiterals(sourceFile).reverse()) {
+        const specifier = resolver.resolve(literal.text, filePath)
+        if (specifier === undefined || specifier === literal.text) continue
+        // Keeps the original quotes
+        const start = literal.getStart(sourceFile) + 1
+        output = output.slice(0, start) + specifier + output.slice(literal.end - 1)
+    }
+    return output
+}
+
+function specifierLiterals(sourceFile: ts.SourceFile): ts.StringLiteralLike[] {
+    const literals: ts.StringLiteralLike[] = []
+
+    function visit(node: ts.Node) {
+        if ((ts.isImportDeclaration(node) || ts.isExportDeclaration(node))
+            && node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
+            literals.push(node.moduleSpecifier)
+        } else if (ts.isImportEqualsDeclaration(node) && ts.isExternalModuleReference(node.moduleReference)
+            && ts.isStringLiteral(node.moduleReference.expression)) {
+            literals.push(node.moduleReference.expression)
+        } else if (ts.isCallExpression(node) && node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+            const [argument] = node.arguments
+            if (argument && ts.isStringLiteralLike(argument)) literals.push(argument)
+        }
+        ts.forEachChild(node, visit)
+    }
+
+    visit(sourceFile)
+    return literals
+}
@@ -0,0 +1,105 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import type { RecordedExchange } from './runtime/recorder.js'
+import { REDACTED } from './runtime/serializer.js'
+
+/**
+ * Fixtures recorded by the instrumented server (runtime/recorder.ts) and how a replayed response is
+ * compared with them (see trace-replay.ts). A response matches its fixture with:
+ * - the same status
+ * - a body of the same shape: same JSON types and object keys, recursively. Values are not compared
+ *   (ids, timestamps), array items are checked against the first recorded item, text bodies by type only
+ * - the same errors thrown in its handlers, when the replay knows them (instrumented server)
+ */
+
+export interface Fixture {
+    file: string
+    exchange: RecordedExchange
+}
+
+export interface ReplayedResponse {
+    status: number
+    body?: unknown
+    // Errors recorded by the handlers; undefined when the server does not report them
+    errors?: string[]
+}
+
+export function loadFixtures(dir: string): Fixture[] {
+    if (!fs.existsSync(dir)) return []
+    return fs.readdirSync(dir).filter(name => name.endsWith('.json')).sort().map((name) => {
+        const file = path.join(dir, name)
+        try {
+            return { file, exchange: JSON.parse(fs.readFileSync(file, 'utf-8')) as RecordedExchange }
+        } catch (error) {
+            throw new Error(`Invalid fixture ${file}: ${(error as Error).message}`)
+        }
+    })
+}
+
+// `Name: value` (--header)
+export function parseHeader(text: string): [string, string] {
+    const colon = text.indexOf(':')
+    if (colon <= 0) throw new Error(`Invalid header "${text}" (expected "Name: value")`)
+    return [text.slice(0, colon).trim().toLowerCase(), text.slice(colon + 1).trim()]
+}
+
+// The recorded request without its redacted headers, `headers` added over the recorded ones
+export function requestOf(exchange: RecordedExchange, headers: Record<string, string> = {}): { url: string, init: RequestInit } {
+    const sent: Record<string, string> = {}
+    for (const [name, value] of Object.entries(exchange.request.headers)) {
+        if (value !== REDACTED) sent[name] = value
+    }
+    for (const [name, value] of Object.entries(headers)) sent[name.toLowerCase()] = value
+    const init: RequestInit = { method: exchange.request.method, headers: sent }
+    const { body } = exchange.request
+    if (body !== undefined && exchange.request.method !== 'GET' && exchange.request.method !== 'HEAD') {
+        init.body = typeof body === 'string' ? body : JSON.stringify(body)
+    }
+    return { url: exchange.request.url, init }
+}
+
+function shapeOf(value: unknown): string {
+    if (value === undefined) return 'nothing'
+    if (value === null) return 'null'
+    return Array.isArray(value) ? 'array' : typeof value
+}
+
+export function shapeDiff(expected: unknown, actual: unknown, at = 'body'): string[] {
+    const want = shapeOf(expected)
+    const got = shapeOf(actual)
+    if (want !== got) return [`${at}: expected ${want}, got ${got}`]
+    if (want === 'array') {
+        const [first] = expected as unknown[]
+        const [item] = actual as unknown[]
+        return first === undefined || item === undefined ? [] : shapeDiff(first, item, `${at}[0]`)
+    }
+    if (want !== 'object') return []
+    const recorded = expected as Record<string, unknown>
+    const replayed = actual as Record<string, unknown>
+    const differences: string[] = []
+    for (const key of Object.keys(recorded)) {
+        if (!(key in replayed)) differences.push(`${at}.${key}: missing`)
+        else differences.push(...shapeDiff(recorded[key], replayed[key], `${at}.${key}`))
+    }
+    for (const key of Object.keys(replayed)) {
+        if (!(key in recorded)) differences.push(`${at}.${key}: not recorded`)
+    }
+    return differences
+}
+
+// Differences of a replayed response with its fixture, none when it matches
+export function compareResponse(exchange: RecordedExchange, replayed: ReplayedResponse): string[] {
+    const differences: string[] = []
+    if (replayed.status !== exchange.response.status) {
+        differences.push(`status: expected ${exchange.response.status}, got ${replayed.status}`)
+    }
+    differences.push(...shapeDiff(exchange.response.body, replayed.body))
+    if (replayed.errors) {
+        const expected = [...exchange.errors].sort()
+        const actual = [...replayed.errors].sort()
+        if (JSON.stringify(expected) !== JSON.stringify(actual)) {
+            differences.push(`errors: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`)
+        }
+    }
+    return differences
+}
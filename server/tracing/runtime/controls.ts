@@ -0,0 +1,234 @@
+import * as fs from 'node:fs';
+import * as http from 'node:http';
+import type { TraceTarget } from './types.js';
+import { getCoverage, resetCoverage } from './coverage.js';
+import { matchesGlob } from './glob.js';
+import { formatFoldedStacks, getProfile, resetProfile } from './profiler.js';
+import { serialize } from './serializer.js';
+import type { SpanContext } from './trace-context.js';
+
+/**
+ * Runtime tracing controls, changeable without a rebuild:
+ * - Endpoint sampling: fraction of requests traced (tracing.config.json `sampling.endpoints`,
+ *   TRACE_SAMPLE_RATE); a request that is not sampled emits nothing, including the functions it calls
+ * - Toggles: tracing off/on for files (project-relative globs) or routes (request path globs),
+ *   the last matching toggle wins. Defaults come from tracing.config.json `runtime.toggles`,
+ *   followed by TRACE_TOGGLES, e.g. `file:src/hot/**=off,route:/api/health=off`
+ * - Local admin endpoint on 127.0.0.1 (`runtime.adminPort` / TRACE_ADMIN_PORT):
+ *     GET    /tracing            current settings
+ *     POST   /tracing/toggles    { "file" | "route": glob, "enabled": boolean }
+ *     DELETE /tracing/toggles    back to the configured toggles
+ *     PUT    /tracing/sampling   { "endpoints": 0..1 }
+ *     GET    /tracing/profile    per-function profile, slowest self time first (profiler.ts)
+ *     GET    /tracing/profile/folded   the same as folded stacks, for flame-graph tools
+ *     DELETE /tracing/profile    starts a new profile
+ *     GET    /tracing/coverage   instrumented targets that never ran (coverage.ts)
+ *     DELETE /tracing/coverage   forgets the targets that ran
+ * Configured values are written to settings.json next to this module by build-instrumented.ts.
+ */
+
+export interface TraceToggle {
+    file?: string;
+    route?: string;
+    enabled: boolean;
+}
+
+export interface RuntimeSettings {
+    // Fraction of endpoint requests traced (0..1)
+    sampleRate: number;
+    toggles: TraceToggle[];
+    adminPort?: number;
+}
+
+const SETTINGS_FILE = new URL('./settings.json', import.meta.url);
+
+export function runtimeSettingsFrom(baked: Partial<RuntimeSettings>, env: NodeJS.ProcessEnv): RuntimeSettings {
+    const settings: RuntimeSettings = {
+        sampleRate: clampRate(baked.sampleRate ?? 1),
+        toggles: [...(baked.toggles ?? [])]
+    };
+    if (baked.adminPort !== undefined) settings.adminPort = baked.adminPort;
+    if (env.TRACE_SAMPLE_RATE) settings.sampleRate = clampRate(Number(env.TRACE_SAMPLE_RATE));
+    if (env.TRACE_TOGGLES) settings.toggles.push(...parseToggles(env.TRACE_TOGGLES));
+    if (env.TRACE_ADMIN_PORT) settings.adminPort = Number.parseInt(env.TRACE_ADMIN_PORT, 10);
+    return settings;
+}
+
+// `file:<glob>=on|off` / `route:<glob>=on|off`, comma separated (commas inside {a,b} are kept)
+export function parseToggles(text: string): TraceToggle[] {
+    const entries: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const ch of text) {
+        if (ch === ',' && depth === 0) {
+            entries.push(current);
+            current = '';
+            continue;
+        }
+        if (ch === '{') depth++;
+        if (ch === '}') depth = Math.max(0, depth - 1);
+        current += ch;
+    }
+    entries.push(current);
+
+    return entries.map(e => e.trim()).filter(Boolean).map((entry) => {
+        const match = /^(file|route):(.+)=(on|off|true|false)$/.exec(entry);
+        if (!match) throw new Error(`Invalid TRACE_TOGGLES entry "${entry}" (expected file:<glob>=on|off or route:<glob>=on|off)`);
+        const enabled = match[3] === 'on' || match[3] === 'true';
+        return match[1] === 'file' ? { file: match[2]!, enabled } : { route: match[2]!, enabled };
+    });
+}
+
+function readBakedSettings(): Partial<RuntimeSettings> {
+    try {
+        return JSON.parse(fs.readFileSync(SETTINGS_FILE, 'utf-8')) as Partial<RuntimeSettings>;
+    } catch {
+        return {};
+    }
+}
+
+function clampRate(rate: number): number {
+    return Number.isFinite(rate) ? Math.min(1, Math.max(0, rate)) : 1;
+}
+
+const configured = runtimeSettingsFrom(readBakedSettings(), process.env);
+let settings: RuntimeSettings = { ...configured, toggles: [...configured.toggles] };
+const fileDecisions = new Map<string, boolean>();
+
+export function getRuntimeSettings(): RuntimeSettings {
+    return settings;
+}
+
+export function setSampleRate(rate: number): void {
+    settings.sampleRate = clampRate(rate);
+}
+
+// Adds a toggle, replacing an earlier one for the same file/route glob
+export function setToggle(toggle: TraceToggle): void {
+    settings.toggles = settings.toggles.filter(t => t.file !== toggle.file || t.route !== toggle.route);
+    settings.toggles.push(toggle);
+    fileDecisions.clear();
+}
+
+export function resetToggles(): void {
+    settings.toggles = [...configured.toggles];
+    fileDecisions.clear();
+}
+
+export function isFileEnabled(file: string): boolean {
+    let enabled = fileDecisions.get(file);
+    if (enabled === undefined) {
+        enabled = decide(settings.toggles, t => t.file !== undefined && matchesGlob(file, t.file));
+        fileDecisions.set(file, enabled);
+    }
+    return enabled;
+}
+
+export function isRouteEnabled(requestPath: string): boolean {
+    return decide(settings.toggles, t => t.route !== undefined && matchesGlob(requestPath, t.route));
+}
+
+function decide(toggles: TraceToggle[], applies: (toggle: TraceToggle) => boolean): boolean {
+    let enabled = true;
+    for (const toggle of toggles) {
+        if (applies(toggle)) enabled = toggle.enabled;
+    }
+    return enabled;
+}
+
+// Sampling decision for a new request (route toggles first, then the sample rate)
+export function sampleRequest(requestPath: string): boolean {
+    if (!isRouteEnabled(requestPath)) return false;
+    return settings.sampleRate >= 1 || Math.random() < settings.sampleRate;
+}
+
+// Whether an event for `target` in `span` is recorded at all
+export function isRecording(target: TraceTarget, span: SpanContext | undefined): boolean {
+    return span?.sampled !== false && isFileEnabled(target.file);
+}
+
+// Payload for a target: full serialization, or nothing for names-only targets
+export function payloadFor(target: TraceTarget, value: unknown): string {
+    return target.verbosity === 'names' ? '' : serialize(value);
+}
+
+// --- Admin endpoint ---
+
+export function startAdminServer(port: number): http.Server {
+    const server = http.createServer((req, res) => {
+        const reply = (status: number, body: unknown) => {
+            res.writeHead(status, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(body));
+        };
+        readBody(req).then((body) => {
+            const route = `${req.method} ${(req.url ?? '').split('?')[0]}`;
+            if (!isPlainObject(body)) return reply(400, { error: 'Expected a JSON object body' });
+            switch (route) {
+                case 'GET /tracing':
+                    return reply(200, settings);
+                case 'POST /tracing/toggles': {
+                    const { file, route: routeGlob, enabled } = body as Partial<TraceToggle>;
+                    if (typeof enabled !== 'boolean' || (typeof file === 'string') === (typeof routeGlob === 'string')) {
+                        return reply(400, { error: 'Expected { "file" | "route": string, "enabled": boolean }' });
+                    }
+                    setToggle(typeof file === 'string' ? { file, enabled } : { route: routeGlob!, enabled });
+                    return reply(200, settings);
+                }
+                case 'DELETE /tracing/toggles':
+                    resetToggles();
+                    return reply(200, settings);
+                case 'PUT /tracing/sampling': {
+                    const rate = body.endpoints;
+                    if (typeof rate !== 'number') return reply(400, { error: 'Expected { "endpoints": number }' });
+                    setSampleRate(rate);
+                    return reply(200, settings);
+                }
+                case 'GET /tracing/profile':
+                    return reply(200, getProfile());
+                case 'GET /tracing/profile/folded':
+                    res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' });
+                    return res.end(formatFoldedStacks());
+                case 'DELETE /tracing/profile':
+                    resetProfile();
+                    return reply(200, []);
+                case 'GET /tracing/coverage':
+                    return reply(200, getCoverage());
+                case 'DELETE /tracing/coverage':
+                    resetCoverage();
+                    return reply(200, getCoverage());
+                default:
+                    return reply(404, { error: `No admin route ${route}` });
+            }
+        }, () => reply(400, { error: 'Invalid JSON body' })).catch((error: unknown) => {
+            console.error('⚠️  Tracing admin request failed:', error instanceof Error ? error.message : error);
+            if (!res.headersSent) reply(500, { error: 'Internal error' });
+            else res.end();
+        });
+    });
+    server.on('error', (error) => console.error(`⚠️  Tracing admin endpoint unavailable on port ${port}:`, error.message));
+    server.listen(port, '127.0.0.1');
+    // Never keeps the traced process alive
+    server.unref();
+    return server;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readBody(req: http.IncomingMessage): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+        let data = '';
+        req.on('data', (chunk) => { data += chunk; });
+        req.on('end', () => {
+            try {
+                resolve(data ? JSON.parse(data) : {});
+            } catch (error) {
+                reject(error);
+            }
+        });
+        req.on('error', reject);
+    });
+}
+
+if (settings.adminPort) startAdminServer(settings.adminPort);
@@ -0,0 +1,112 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { TraceEvent, TraceKind, TraceTarget } from './types.js';
+
+/**
+ * Runtime coverage of the instrumented build: which of its functions, endpoints and middleware ran.
+ * - manifest.json, next to this module, lists every instrumented target (written by build-instrumented.ts)
+ * - a target is hit when a call of it is recorded (fed by emit(), see emitter.ts): calls of requests
+ *   that are not sampled, and of files toggled off, are not seen (controls.ts)
+ * - the report lists the targets of the manifest that were never hit
+ * Served by the admin endpoint (controls.ts). With TRACE_COVERAGE_FILE set, the hits are added to
+ * that file when the process exits, so a session spans server restarts; `trace-query coverage`
+ * reports from it.
+ */
+
+export type ManifestTarget = Omit<TraceTarget, 'verbosity'> & { line: number; column: number };
+
+export interface CoverageManifest {
+    targets: ManifestTarget[];
+}
+
+export interface CoverageReport {
+    // Per kind (FUNCTION, ENDPOINT, MIDDLEWARE)
+    summary: Partial<Record<TraceKind, { total: number; hit: number }>>;
+    missed: ManifestTarget[];
+}
+
+const MANIFEST_FILE = new URL('./manifest.json', import.meta.url);
+
+const hits = new Set<string>();
+
+export function targetId(target: Pick<TraceTarget, 'kind' | 'file' | 'line' | 'column'>): string {
+    return `${target.kind}|${target.file}:${target.line}:${target.column}`;
+}
+
+export function recordHit(event: TraceEvent): void {
+    if (event.action === 'ENTER' && event.line !== undefined) hits.add(targetId(event));
+}
+
+export function getHits(): string[] {
+    return [...hits];
+}
+
+export function resetCoverage(): void {
+    hits.clear();
+}
+
+export function readManifest(file: string | URL = MANIFEST_FILE): CoverageManifest {
+    try {
+        return JSON.parse(fs.readFileSync(file, 'utf-8')) as CoverageManifest;
+    } catch {
+        return { targets: [] };
+    }
+}
+
+export function coverageOf(manifest: CoverageManifest, hitIds: Iterable<string>): CoverageReport {
+    const hit = new Set(hitIds);
+    const report: CoverageReport = { summary: {}, missed: [] };
+    for (const target of manifest.targets) {
+        const counts = report.summary[target.kind] ??= { total: 0, hit: 0 };
+        counts.total++;
+        if (hit.has(targetId(target))) counts.hit++;
+        else report.missed.push(target);
+    }
+    return report;
+}
+
+export function getCoverage(): CoverageReport {
+    return coverageOf(readManifest(), hits);
+}
+
+function labelOf(target: ManifestTarget): string {
+    if (target.kind === 'FUNCTION') return target.scope ? `${target.scope}.${target.name}` : target.name;
+    return `${target.scope} ${target.name}${target.handler ? ` (${target.handler})` : ''}`;
+}
+
+export function formatCoverage(report: CoverageReport): string {
+    const summary = Object.entries(report.summary).map(([kind, { total, hit }]) =>
+        `${kind.padEnd(10)}  ${hit}/${total} ran (${total ? Math.round((hit / total) * 100) : 100}%)`);
+    const missed = report.missed.map(t => `  ${t.kind.padEnd(10)}  ${labelOf(t)}  ${t.file}:${t.line}`);
+    return [...summary, ...(missed.length ? ['Never ran:', ...missed] : ['Every instrumented target ran'])].join('\n');
+}
+
+// Hits of earlier runs in `file`, merged with this run's
+export function readHitsFile(file: string): string[] {
+    try {
+        const saved = JSON.parse(fs.readFileSync(file, 'utf-8')) as { hits?: unknown };
+        return Array.isArray(saved.hits) ? saved.hits.filter((id): id is string => typeof id === 'string') : [];
+    } catch {
+        return [];
+    }
+}
+
+// At exit: this run's hits added to `file`, and a one-line summary on stderr
+export function installCoverageReport(file: string): void {
+    process.once('exit', () => {
+        if (!hits.size) return;
+        const merged = new Set([...readHitsFile(file), ...hits]);
+        try {
+            fs.mkdirSync(path.dirname(file), { recursive: true });
+            fs.writeFileSync(file, JSON.stringify({ hits: [...merged].sort() }, null, 2));
+        } catch (error) {
+            console.error(`⚠️  Could not write coverage to ${file}:`, (error as Error).message);
+            return;
+        }
+        const report = coverageOf(readManifest(), merged);
+        const counts = Object.entries(report.summary).map(([kind, { total, hit }]) => `${kind.toLowerCase()} ${hit}/${total}`);
+        console.error(`🧭 Coverage: ${counts.join(', ')} ran (${report.missed.length} never ran, see npm run trace:query -- coverage)`);
+    });
+}
+
+if (process.env.TRACE_COVERAGE_FILE) installCoverageReport(process.env.TRACE_COVERAGE_FILE);
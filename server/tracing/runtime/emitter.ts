@@ -0,0 +1,93 @@
+import * as diagnosticsChannel from 'node:diagnostics_channel';
+import type { SpanContext } from './trace-context.js';
+import type { TraceAction, TraceEvent, TraceTarget } from './types.js';
+import { isRecording } from './controls.js';
+import { recordHit } from './coverage.js';
+import { recordProfile } from './profiler.js';
+import { createSinksFromEnv, MemorySink, type TraceSink } from './sinks.js';
+
+/**
+ * Trace emitter called by instrumented code instead of console.log/console.error.
+ * Every event is a typed record fanned out to the configured sinks
+ * (TRACE_SINKS=stdout,jsonl,memory — see sinks.ts; defaults to stdout).
+ * Events of requests that are not sampled and of files toggled off are dropped (see controls.ts).
+ * Events are also published on the `tracing:events` diagnostics channel for live subscribers
+ * (the dev trace viewer endpoint, server/src/dev/trace-stream.ts); events emitted while a
+ * subscriber runs are dropped, so traced subscriber code cannot feed back into the stream.
+ * Every recorded event also feeds the per-function profile (profiler.ts) and coverage (coverage.ts).
+ * Durations are in milliseconds from a high-resolution clock (startTimer/elapsedMs), to the microsecond.
+ */
+
+export const TRACE_CHANNEL = 'tracing:events';
+
+let sinks: TraceSink[] = createSinksFromEnv(process.env);
+const channel = diagnosticsChannel.channel(TRACE_CHANNEL);
+let publishing = false;
+
+export function startTimer(): number {
+    return performance.now();
+}
+
+export function elapsedMs(start: number): number {
+    return Math.round((performance.now() - start) * 1000) / 1000;
+}
+
+export function emit(target: TraceTarget, action: TraceAction, span: SpanContext, payload: string, duration?: number): void {
+    if (publishing || !isRecording(target, span)) return;
+    const event: TraceEvent = {
+        action,
+        ...target,
+        payload,
+        timestamp: Date.now(),
+        ...(duration !== undefined ? { duration } : {}),
+        traceId: span.traceId,
+        spanId: span.spanId,
+        parentSpanId: span.parentSpanId,
+        depth: span.depth
+    };
+    for (const sink of sinks) {
+        try {
+            sink.write(event);
+        } catch {
+            // A failing sink must never break the traced code
+        }
+    }
+    recordProfile(event);
+    recordHit(event);
+    if (channel.hasSubscribers) {
+        publishing = true;
+        try {
+            channel.publish(event);
+        } catch {
+            // Same as sinks: subscribers never break the traced code
+        } finally {
+            publishing = false;
+        }
+    }
+}
+
+// Events held by the memory sink(s), oldest first
+export function getBufferedEvents(): TraceEvent[] {
+    return sinks.flatMap(sink => sink instanceof MemorySink ? sink.events() : []);
+}
+
+export function getSinks(): readonly TraceSink[] {
+    return sinks;
+}
+
+export function setSinks(next: TraceSink[]): void {
+    closeSinks();
+    sinks = next;
+}
+
+export function addSink(sink: TraceSink): void {
+    sinks.push(sink);
+}
+
+export function closeSinks(): void {
+    for (const sink of sinks) {
+        try {
+            sink.close?.();
+        } catch {}
+    }
+}
@@ -0,0 +1,102 @@
+import { isRecording, payloadFor, sampleRequest } from './controls.js';
+import { elapsedMs, emit, startTimer } from './emitter.js';
+import type { TraceTarget } from './types.js';
+import { recordError, recordExchange } from './recorder.js';
+import { runWithSpan, startRequestSpan } from './trace-context.js';
+
+/**
+ * Express handler wrappers injected by express-endpoint-instrumenter.ts as
+ * `__trace.wrapHandler(handler, target)`.
+ * - ENDPOINT: ENTER (params/query/body, and `user`: the authenticated user id once auth middleware has set
+ *   `req.user`, see server/src/auth), EXIT on response finish ({ status, duration_ms }), ERROR
+ * - MIDDLEWARE: same, but EXIT as soon as it hands over with next() ({ next: arg })
+ * - next(err) is recorded as ERROR; throws/rejections too (and rethrown)
+ * Wrappers keep the handler's arity, so (err, req, res, next) error middleware stays one.
+ * Sampling and route toggles (controls.ts) are decided on the request path by its first handler.
+ * A request with a `traceparent` header joins the caller's trace (see trace-context.ts).
+ * In recording mode, sampled requests are also saved as replayable fixtures (recorder.ts).
+ */
+
+type Next = (...args: unknown[]) => unknown;
+type Handler = (this: unknown, ...args: unknown[]) => unknown;
+
+interface ResponseLike {
+    statusCode?: number;
+    once?: (event: string, listener: () => void) => unknown;
+}
+
+interface RequestLike {
+    params?: unknown;
+    query?: unknown;
+    body?: unknown;
+    originalUrl?: string;
+    url?: string;
+    user?: { id?: unknown };
+}
+
+export function wrapHandler<T>(handler: T, target: TraceTarget): T {
+    if (typeof handler !== 'function') return handler;
+    const original = handler as unknown as Handler;
+    const wrapped = original.length >= 4
+        ? function (this: unknown, err: unknown, req: RequestLike, res: ResponseLike, next: Next) {
+            return invoke(original, this, target, req, res, next, [err], err);
+        }
+        : function (this: unknown, req: RequestLike, res: ResponseLike, next: Next) {
+            return invoke(original, this, target, req, res, next, []);
+        };
+    Object.defineProperty(wrapped, 'name', { value: original.name });
+    return wrapped as unknown as T;
+}
+
+function invoke(handler: Handler, thisArg: unknown, target: TraceTarget, req: RequestLike, res: ResponseLike,
+    next: Next, leading: unknown[], incomingError?: unknown): unknown {
+    const span = startRequestSpan(req, () => sampleRequest(requestPath(req)));
+    recordExchange(req, res, span, target);
+    if (!isRecording(target, span)) return runWithSpan(span, () => handler.apply(thisArg, [...leading, req, res, next]));
+    const start = startTimer();
+    let exited = false;
+    const exit = (out: unknown) => {
+        if (exited) return;
+        exited = true;
+        emit(target, 'EXIT', span, payloadFor(target, out), elapsedMs(start));
+    };
+    const fail = (error: unknown) => {
+        recordError(req, error);
+        emit(target, 'ERROR', span, payloadFor(target, error), elapsedMs(start));
+    };
+
+    if (res && typeof res.once === 'function') {
+        try {
+            res.once('finish', () => exit({ status: res.statusCode, duration_ms: elapsedMs(start) }));
+        } catch {}
+    }
+    const tracedNext: Next = typeof next === 'function'
+        ? (...args: unknown[]) => {
+            const [arg] = args;
+            if (arg !== undefined && arg !== 'route' && arg !== 'router') fail(arg);
+            if (target.kind === 'MIDDLEWARE') exit({ next: arg === undefined ? true : arg });
+            return next(...args);
+        }
+        : next;
+
+    return runWithSpan(span, () => {
+        const input: Record<string, unknown> = { params: req?.params, query: req?.query, body: req?.body };
+        if (leading.length) input.error = incomingError;
+        if (typeof req?.user?.id === 'string') input.user = req.user.id;
+        emit(target, 'ENTER', span, payloadFor(target, input));
+        try {
+            const out = handler.apply(thisArg, [...leading, req, res, tracedNext]);
+            if (out && typeof (out as PromiseLike<unknown>).then === 'function') {
+                return (out as Promise<unknown>).catch((e: unknown) => { fail(e); throw e; });
+            }
+            return out;
+        } catch (e) {
+            fail(e);
+            throw e;
+        }
+    });
+}
+
+function requestPath(req: RequestLike): string {
+    return (req?.originalUrl ?? req?.url ?? '/').split('?')[0] || '/';
+}
@@ -0,0 +1,26 @@
+import { activeSpan } from './trace-context.js';
+import { formatTraceparent, withTraceHeaders } from './traceparent.js';
+
+/**
+ * Outbound context propagation: `fetch` calls made while a span is active (handling a traced
+ * request, or inside a traced function) carry `traceparent` with that span as the parent, and the
+ * incoming `tracestate`, so downstream services (Supabase, other APIs) join the request's trace.
+ * Installed when the runtime loads; TRACE_PROPAGATION=off leaves fetch untouched.
+ */
+
+const PATCHED = Symbol.for('tracing.fetchPropagation');
+
+type Fetch = typeof fetch & { [PATCHED]?: true };
+
+export function propagateOnFetch(): void {
+    const original = globalThis.fetch as Fetch | undefined;
+    if (typeof original !== 'function' || original[PATCHED]) return;
+    const traced: Fetch = Object.assign(function fetch(input: RequestInfo | URL, init?: RequestInit) {
+        const span = activeSpan();
+        if (!span) return original(input, init);
+        return original(...withTraceHeaders(input, init, formatTraceparent(span.traceId, span.spanId, span.sampled), span.traceState));
+    }, { [PATCHED]: true as const });
+    globalThis.fetch = traced;
+}
+
+if (process.env.TRACE_PROPAGATION !== 'off') propagateOnFetch();
@@ -0,0 +1,145 @@
+import { isRecording, payloadFor } from './controls.js';
+import { elapsedMs, emit, startTimer } from './emitter.js';
+import type { TraceTarget } from './types.js';
+import { activeSpan, enterSpan, runWithSpan, startChildSpan, type SpanContext } from './trace-context.js';
+
+/**
+ * Call wrappers injected by ts-morph-function-tracer.ts into instrumented function bodies.
+ * The original body is passed in as a callback created inside the function itself, so
+ * `this`, `arguments`, `super`, `new.target` and hoisting are untouched.
+ * - traceCall: ENTER (arguments), EXIT (return value, resolved value for thenables) or ERROR
+ * - traceGenerator: ENTER on the first next(), YIELD per yielded value, EXIT (return value) or ERROR;
+ *   generator bodies are an inner generator, called with the function's `this` and arguments
+ * - traceAsyncGenerator: ENTER on the first next(), EXIT on completion ({ yields, return }) or ERROR
+ * - enterFrame/exitFrame/failFrame: constructors, whose body stays in place inside try/finally:
+ *   ENTER (arguments), EXIT (undefined) or ERROR; the frame's span is active until it exits
+ * Every call runs in its own span, child of whatever span is active (see trace-context.ts).
+ * Calls that are not recorded (request not sampled, file toggled off, see controls.ts) run unwrapped.
+ */
+
+export function traceCall<T>(target: TraceTarget, args: ArrayLike<unknown>, body: () => T): T {
+    if (!isRecording(target, activeSpan())) return body();
+    const span = startChildSpan();
+    return runWithSpan(span, () => {
+        const start = startTimer();
+        emit(target, 'ENTER', span, payloadFor(target, Array.from(args)));
+        try {
+            const out = body();
+            if (out && typeof (out as unknown as PromiseLike<unknown>).then === 'function') {
+                return (out as unknown as PromiseLike<unknown>).then(
+                    v => { emit(target, 'EXIT', span, payloadFor(target, v), elapsedMs(start)); return v; },
+                    e => { emit(target, 'ERROR', span, payloadFor(target, e), elapsedMs(start)); throw e; }
+                ) as unknown as T;
+            }
+            emit(target, 'EXIT', span, payloadFor(target, out), elapsedMs(start));
+            return out;
+        } catch (error) {
+            emit(target, 'ERROR', span, payloadFor(target, error), elapsedMs(start));
+            throw error;
+        }
+    });
+}
+
+export function traceGenerator<This, T, TReturn, TNext>(target: TraceTarget, thisArg: This, args: ArrayLike<unknown>,
+    body: (this: This, ...args: unknown[]) => Generator<T, TReturn, TNext>): IterableIterator<T> & Iterator<T, TReturn, TNext> {
+    const generator = body.apply(thisArg, Array.from(args));
+    if (!isRecording(target, activeSpan())) return generator;
+    const span = startChildSpan();
+    const start = startTimer();
+    let done = false;
+    emit(target, 'ENTER', span, payloadFor(target, Array.from(args)));
+
+    const step = (resume: () => IteratorResult<T, TReturn>): IteratorResult<T, TReturn> => runWithSpan(span, () => {
+        try {
+            const result = resume();
+            if (!done) {
+                if (result.done) done = true;
+                emit(target, result.done ? 'EXIT' : 'YIELD', span, payloadFor(target, result.value), elapsedMs(start));
+            }
+            return result;
+        } catch (error) {
+            if (!done) emit(target, 'ERROR', span, payloadFor(target, error), elapsedMs(start));
+            done = true;
+            throw error;
+        }
+    });
+
+    return {
+        next: (...value: [] | [TNext]) => step(() => generator.next(...value)),
+        return: (value?: TReturn) => step(() => generator.return(value as TReturn)),
+        throw: (error?: unknown) => step(() => generator.throw(error)),
+        [Symbol.iterator]() {
+            return this;
+        }
+    };
+}
+
+export function traceAsyncGenerator<This, T, TReturn, TNext>(target: TraceTarget, thisArg: This, args: ArrayLike<unknown>,
+    body: (this: This, ...args: unknown[]) => AsyncGenerator<T, TReturn, TNext>): AsyncIterableIterator<T> & AsyncIterator<T, TReturn, TNext> {
+    const generator = body.apply(thisArg, Array.from(args));
+    if (!isRecording(target, activeSpan())) return generator;
+    const span = startChildSpan();
+    const start = startTimer();
+    let done = false;
+    let yields = 0;
+    emit(target, 'ENTER', span, payloadFor(target, Array.from(args)));
+
+    const step = (resume: () => Promise<IteratorResult<T, TReturn>>): Promise<IteratorResult<T, TReturn>> => runWithSpan(span, async () => {
+        try {
+            const result = await resume();
+            if (!done) {
+                if (result.done) {
+                    done = true;
+                    emit(target, 'EXIT', span, payloadFor(target, { yields, return: result.value }), elapsedMs(start));
+                } else {
+                    yields++;
+                }
+            }
+            return result;
+        } catch (error) {
+            if (!done) emit(target, 'ERROR', span, payloadFor(target, error), elapsedMs(start));
+            done = true;
+            throw error;
+        }
+    });
+
+    return {
+        next: (...value: [] | [TNext]) => step(() => generator.next(...value)),
+        return: (value?: TReturn | PromiseLike<TReturn>) => step(() => generator.return(value as TReturn)),
+        throw: (error?: unknown) => step(() => generator.throw(error)),
+        [Symbol.asyncIterator]() {
+            return this;
+        }
+    };
+}
+
+export interface Frame {
+    target: TraceTarget;
+    // null when the call is not recorded
+    span: SpanContext | null;
+    previous: SpanContext | undefined;
+    start: number;
+    done: boolean;
+}
+
+export function enterFrame(target: TraceTarget, args: ArrayLike<unknown>): Frame {
+    const previous = activeSpan();
+    if (!isRecording(target, previous)) return { target, span: null, previous, start: 0, done: true };
+    const span = startChildSpan(previous);
+    enterSpan(span);
+    emit(target, 'ENTER', span, payloadFor(target, Array.from(args)));
+    return { target, span, previous, start: startTimer(), done: false };
+}
+
+export function failFrame(frame: Frame, error: unknown): void {
+    if (!frame.span || frame.done) return;
+    frame.done = true;
+    emit(frame.target, 'ERROR', frame.span, payloadFor(frame.target, error), elapsedMs(frame.start));
+}
+
+export function exitFrame(frame: Frame): void {
+    if (!frame.span) return;
+    enterSpan(frame.previous);
+    if (!frame.done) emit(frame.target, 'EXIT', frame.span, payloadFor(frame.target, undefined), elapsedMs(frame.start));
+    frame.done = true;
+}
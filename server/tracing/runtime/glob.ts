@@ -0,0 +1,55 @@
+/**
+ * Minimal glob matching for tracing.config patterns (files, routes and function names).
+ * - `*` matches within a segment, `**` across segments, `?` one character, `{a,b}` alternatives
+ * - Segments are split by `separator`: '/' for paths and routes, '.' for qualified function names
+ */
+
+const cache = new Map<string, RegExp>();
+
+export function globToRegExp(glob: string, separator = '/'): RegExp {
+    const key = `${separator}\0${glob}`;
+    const cached = cache.get(key);
+    if (cached) return cached;
+
+    const sep = escape(separator);
+    let source = '';
+    let braces = 0;
+    for (let i = 0; i < glob.length; i++) {
+        const ch = glob[i]!;
+        if (ch === '*' && glob[i + 1] === '*') {
+            // `**/` also matches zero segments
+            const trailingSep = glob[i + 2] === separator;
+            source += trailingSep ? `(?:.*${sep})?` : '.*';
+            i += trailingSep ? 2 : 1;
+        } else if (ch === '*') {
+            source += `[^${sep}]*`;
+        } else if (ch === '?') {
+            source += `[^${sep}]`;
+        } else if (ch === '{') {
+            braces++;
+            source += '(?:';
+        } else if (ch === '}' && braces > 0) {
+            braces--;
+            source += ')';
+        } else if (ch === ',' && braces > 0) {
+            source += '|';
+        } else {
+            source += escape(ch);
+        }
+    }
+    const regex = new RegExp(`^${source}$`);
+    cache.set(key, regex);
+    return regex;
+}
+
+export function matchesGlob(value: string, glob: string, separator = '/'): boolean {
+    return globToRegExp(glob, separator).test(value);
+}
+
+export function matchesAny(value: string, globs: readonly string[], separator = '/'): boolean {
+    return globs.some(glob => matchesGlob(value, glob, separator));
+}
+
+function escape(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,35 @@
+/**
+ * Runtime support imported by instrumented modules as `__trace`.
+ * Copied into the instrumented build under `__tracing/` by build-instrumented.ts.
+ */
+export { activeSpan, startRootSpan, startChildSpan, startRequestSpan, runWithSpan, formatSpan } from './trace-context.js';
+export type { SpanContext } from './trace-context.js';
+export { emit, startTimer, elapsedMs, TRACE_CHANNEL, getBufferedEvents, getSinks, setSinks, addSink, closeSinks } from './emitter.js';
+export type { TraceAction, TraceKind, TraceTarget, TraceEvent } from './types.js';
+export { StdoutSink, JsonlFileSink, MemorySink, formatPipeRecord, createSinksFromEnv } from './sinks.js';
+export type { TraceSink, JsonlSinkOptions } from './sinks.js';
+export { serialize, configureSerializer, getSerializerOptions, serializerOptionsFromEnv, REDACTED } from './serializer.js';
+export type { SerializerOptions } from './serializer.js';
+export { wrapHandler } from './express-handlers.js';
+export { parseTraceparent, formatTraceparent, withTraceHeaders } from './traceparent.js';
+export type { RemoteContext } from './traceparent.js';
+export { propagateOnFetch } from './fetch-propagation.js';
+export { QUERY_CHANNEL, subscribeQueries } from './queries.js';
+export type { QueryMessage } from './queries.js';
+export { traceCall, traceGenerator, traceAsyncGenerator, enterFrame, exitFrame, failFrame } from './functions.js';
+export type { Frame } from './functions.js';
+export {
+    getRuntimeSettings, setSampleRate, setToggle, resetToggles, isFileEnabled, isRouteEnabled,
+    sampleRequest, isRecording, payloadFor, startAdminServer, runtimeSettingsFrom, parseToggles
+} from './controls.js';
+export type { TraceToggle, RuntimeSettings } from './controls.js';
+export { globToRegExp, matchesGlob, matchesAny } from './glob.js';
+export { recordProfile, getProfile, formatProfile, formatFoldedStacks, resetProfile, installProfileReport } from './profiler.js';
+export type { ProfileEntry } from './profiler.js';
+export {
+    recordHit, getHits, resetCoverage, getCoverage, coverageOf, formatCoverage, readManifest, readHitsFile,
+    targetId, installCoverageReport
+} from './coverage.js';
+export type { ManifestTarget, CoverageManifest, CoverageReport } from './coverage.js';
+export { startRecording, stopRecording, recordExchange, recordError, errorText, fixtureFileName } from './recorder.js';
+export type { RecordedExchange, RecordedRequest, RecordedResponse } from './recorder.js';
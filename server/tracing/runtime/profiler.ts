@@ -0,0 +1,186 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { TraceEvent, TraceKind } from './types.js';
+
+/**
+ * Per-function profile built from the events of recorded calls (fed by emit(), see emitter.ts):
+ * - total time: ENTER → EXIT/ERROR of a call, wall clock (awaits included)
+ * - self time: total minus the total of its direct children (0 when concurrent children add up to more)
+ * - per target: calls, errors, total/self sums, max, and p50/p95/p99 over its last SAMPLE_SIZE calls
+ * - folded stacks for flame graphs (speedscope, flamegraph.pl, inferno): one `caller;callee <self µs>`
+ *   line per call path, from the span ancestry of each call. A middleware span ends when it calls
+ *   next(), so the handlers after it start their own stacks
+ * Served by the admin endpoint (controls.ts); with TRACE_PROFILE_FILE set, the folded stacks are
+ * written to that file and a summary printed when the process exits.
+ */
+
+export interface ProfileEntry {
+    kind: TraceKind;
+    label: string;
+    location: string;
+    calls: number;
+    errors: number;
+    error_rate: number;
+    total_ms: number;
+    self_ms: number;
+    avg_ms: number;
+    p50_ms: number;
+    p95_ms: number;
+    p99_ms: number;
+    max_ms: number;
+}
+
+interface Stats {
+    kind: TraceKind;
+    label: string;
+    location: string;
+    calls: number;
+    errors: number;
+    totalMs: number;
+    selfMs: number;
+    maxMs: number;
+    // Ring of the last SAMPLE_SIZE total times
+    samples: number[];
+    next: number;
+}
+
+interface OpenCall {
+    key: string;
+    frame: string;
+    parentSpanId: string | null;
+    childMs: number;
+}
+
+const SAMPLE_SIZE = 1000;
+// Calls that never end (abandoned generators, lost responses) are forgotten oldest first
+const MAX_OPEN_CALLS = 10_000;
+const MAX_STACK_DEPTH = 128;
+
+const stats = new Map<string, Stats>();
+const open = new Map<string, OpenCall>();
+const folded = new Map<string, number>();
+
+// Same labels as the trace viewer (client/src/traces/traceModel.ts)
+function labelOf(event: TraceEvent): string {
+    if (event.kind === 'FUNCTION') return event.scope ? `${event.scope}.${event.name}` : event.name;
+    const label = `${event.scope} ${event.name}${event.handler ? ` (${event.handler})` : ''}`;
+    return event.kind === 'MIDDLEWARE' ? `[mw] ${label}` : label;
+}
+
+function locationOf(event: TraceEvent): string {
+    return event.line !== undefined ? `${event.file}:${event.line}` : event.file;
+}
+
+function round(ms: number): number {
+    return Math.round(ms * 1000) / 1000;
+}
+
+export function recordProfile(event: TraceEvent): void {
+    if (event.action === 'ENTER') {
+        const label = labelOf(event);
+        const location = locationOf(event);
+        const key = `${event.kind} ${label} ${location}`;
+        if (!stats.has(key)) {
+            stats.set(key, { kind: event.kind, label, location, calls: 0, errors: 0, totalMs: 0, selfMs: 0, maxMs: 0, samples: [], next: 0 });
+        }
+        // Folded stack frames cannot contain the separators
+        const frame = `${label} (${location})`.replace(/[;\r\n]/g, ' ');
+        open.set(event.spanId, { key, frame, parentSpanId: event.parentSpanId, childMs: 0 });
+        if (open.size > MAX_OPEN_CALLS) open.delete(open.keys().next().value!);
+        return;
+    }
+    if ((event.action !== 'EXIT' && event.action !== 'ERROR') || event.duration === undefined) return;
+    // The first EXIT/ERROR of a call ends it (a handler that fails and still responds reports both)
+    const call = open.get(event.spanId);
+    if (!call) return;
+    open.delete(event.spanId);
+
+    const total = event.duration;
+    const self = Math.max(0, total - call.childMs);
+    const parent = call.parentSpanId ? open.get(call.parentSpanId) : undefined;
+    if (parent) parent.childMs += total;
+
+    const entry = stats.get(call.key)!;
+    entry.calls++;
+    if (event.action === 'ERROR') entry.errors++;
+    entry.totalMs += total;
+    entry.selfMs += self;
+    entry.maxMs = Math.max(entry.maxMs, total);
+    entry.samples[entry.next] = total;
+    entry.next = (entry.next + 1) % SAMPLE_SIZE;
+
+    const frames = [call.frame];
+    for (let ancestor = parent; ancestor && frames.length < MAX_STACK_DEPTH; ancestor = ancestor.parentSpanId ? open.get(ancestor.parentSpanId) : undefined) {
+        frames.unshift(ancestor.frame);
+    }
+    const stack = frames.join(';');
+    folded.set(stack, (folded.get(stack) ?? 0) + Math.round(self * 1000));
+}
+
+// Nearest-rank percentile of sorted values
+function percentile(sorted: number[], p: number): number {
+    return sorted.length ? sorted[Math.max(0, Math.ceil(p * sorted.length) - 1)]! : 0;
+}
+
+// Targets with at least one finished call, by self time (the code that is slow itself first)
+export function getProfile(): ProfileEntry[] {
+    return [...stats.values()].filter(s => s.calls > 0).map((s) => {
+        const sorted = [...s.samples].sort((a, b) => a - b);
+        return {
+            kind: s.kind,
+            label: s.label,
+            location: s.location,
+            calls: s.calls,
+            errors: s.errors,
+            error_rate: round(s.errors / s.calls),
+            total_ms: round(s.totalMs),
+            self_ms: round(s.selfMs),
+            avg_ms: round(s.totalMs / s.calls),
+            p50_ms: round(percentile(sorted, 0.5)),
+            p95_ms: round(percentile(sorted, 0.95)),
+            p99_ms: round(percentile(sorted, 0.99)),
+            max_ms: round(s.maxMs)
+        };
+    }).sort((a, b) => b.self_ms - a.self_ms);
+}
+
+// Collapsed stack format: `frame;frame;frame <self time in µs>` per line
+export function formatFoldedStacks(): string {
+    return [...folded].filter(([, micros]) => micros > 0).map(([stack, micros]) => `${stack} ${micros}\n`).join('');
+}
+
+export function formatProfile(entries: ProfileEntry[], limit = 20): string {
+    const header = ['self_ms', 'total_ms', 'calls', 'err%', 'p50', 'p95', 'p99', 'max', 'function'];
+    const rows = entries.slice(0, limit).map(e => [
+        e.self_ms.toFixed(1), e.total_ms.toFixed(1), String(e.calls), (e.error_rate * 100).toFixed(0),
+        e.p50_ms.toFixed(2), e.p95_ms.toFixed(2), e.p99_ms.toFixed(2), e.max_ms.toFixed(2),
+        `${e.label}  ${e.location}`
+    ]);
+    const widths = header.map((h, i) => Math.max(h.length, ...rows.map(r => r[i]!.length)));
+    const line = (cells: string[]) => cells.map((c, i) => i === cells.length - 1 ? c : c.padStart(widths[i]!)).join('  ');
+    const more = entries.length > limit ? [`… ${entries.length - limit} more`] : [];
+    return [line(header), ...rows.map(line), ...more].join('\n');
+}
+
+export function resetProfile(): void {
+    stats.clear();
+    open.clear();
+    folded.clear();
+}
+
+// At exit: folded stacks to `file`, summary on stderr (nothing when no call was profiled)
+export function installProfileReport(file: string): void {
+    process.once('exit', () => {
+        const entries = getProfile();
+        if (!entries.length) return;
+        try {
+            fs.mkdirSync(path.dirname(file), { recursive: true });
+            fs.writeFileSync(file, formatFoldedStacks());
+        } catch (error) {
+            console.error(`⚠️  Could not write the profile to ${file}:`, (error as Error).message);
+        }
+        console.error(`\n📊 Profile (by self time, ms; flame graph stacks in ${file})\n${formatProfile(entries)}`);
+    });
+}
+
+if (process.env.TRACE_PROFILE_FILE) installProfileReport(process.env.TRACE_PROFILE_FILE);
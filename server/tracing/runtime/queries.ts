@@ -0,0 +1,53 @@
+import * as diagnosticsChannel from 'node:diagnostics_channel';
+import { payloadFor } from './controls.js';
+import { emit } from './emitter.js';
+import type { TraceTarget } from './types.js';
+import { activeSpan, startChildSpan, type SpanContext } from './trace-context.js';
+
+/**
+ * Data-access queries as QUERY trace records. The application's data layer (server/src/db) does
+ * not depend on the tracing runtime: it publishes each query on the `tracing:queries` diagnostics
+ * channel, once when it starts and once when it settles (the same message object, completed),
+ * and this subscriber turns them into ENTER ({ filters, ... }) and EXIT ({ rows, duration_ms })
+ * or ERROR records in a child span of the calling span. Installed when the runtime loads.
+ */
+
+export const QUERY_CHANNEL = 'tracing:queries';
+
+export interface QueryMessage {
+    phase: 'start' | 'end';
+    backend: string;
+    table: string;
+    operation: string;
+    filters?: unknown;
+    options?: unknown;
+    rows?: number;
+    duration?: number;
+    error?: unknown;
+}
+
+let subscribed = false;
+
+export function subscribeQueries(): void {
+    if (subscribed) return;
+    subscribed = true;
+    const spans = new WeakMap<QueryMessage, SpanContext>();
+
+    diagnosticsChannel.subscribe(QUERY_CHANNEL, (message) => {
+        const query = message as QueryMessage;
+        const target: TraceTarget = { kind: 'QUERY', file: query.backend, scope: query.operation, name: query.table };
+        if (query.phase === 'start') {
+            const span = startChildSpan(activeSpan());
+            spans.set(query, span);
+            emit(target, 'ENTER', span, payloadFor(target, { filters: query.filters, options: query.options }));
+            return;
+        }
+        const span = spans.get(query);
+        if (!span) return;
+        spans.delete(query);
+        if (query.error !== undefined) emit(target, 'ERROR', span, payloadFor(target, query.error), query.duration);
+        else emit(target, 'EXIT', span, payloadFor(target, { rows: query.rows, duration_ms: query.duration }), query.duration);
+    });
+}
+
+subscribeQueries();
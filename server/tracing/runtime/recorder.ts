@@ -0,0 +1,236 @@
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as zlib from 'node:zlib';
+import type { TraceTarget } from './types.js';
+import { serialize } from './serializer.js';
+import type { SpanContext } from './trace-context.js';
+
+/**
+ * Recording mode: each sampled request the instrumented server answers is saved as a fixture, one JSON
+ * file per request/response pair, that `npm run trace:replay` (../trace-replay.ts) runs again.
+ * - request: method, url, headers (connection, caching, browser and tracing headers dropped) and the
+ *   body as parsed by the app (none when it could not parse it)
+ * - response: status, content type and body (decompressed; JSON is parsed)
+ * - endpoint: route of the ENDPOINT handler that ran; errors: thrown by or passed to next() from the
+ *   traced handlers of the request, as in their ERROR events
+ * Headers and bodies are redacted like trace payloads (serializer.ts), without its size limits: a replay
+ * leaves redacted headers out, real credentials are passed to it instead.
+ * The first handler of a request starts its recording (express-handlers.ts); it is written when the
+ * response finishes. Identical requests share a file name, so a file holds the latest answer.
+ * Enabled by TRACE_RECORD_DIR (or startRecording()).
+ */
+
+export interface RecordedRequest {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: unknown;
+}
+
+export interface RecordedResponse {
+    status: number;
+    contentType?: string;
+    body?: unknown;
+}
+
+export interface RecordedExchange {
+    // `METHOD /route` of the endpoint that answered, when one did
+    endpoint?: string;
+    recordedAt: string;
+    traceId: string;
+    request: RecordedRequest;
+    response: RecordedResponse;
+    errors: string[];
+}
+
+interface RequestLike {
+    method?: string;
+    originalUrl?: string;
+    url?: string;
+    headers?: Record<string, string | string[] | undefined>;
+    body?: unknown;
+}
+
+type Write = (this: unknown, chunk?: unknown, ...rest: unknown[]) => unknown;
+
+interface ResponseLike {
+    statusCode?: number;
+    getHeader?: (name: string) => unknown;
+    write?: Write;
+    end?: Write;
+    once?: (event: string, listener: () => void) => unknown;
+}
+
+interface Recording {
+    endpoint?: string;
+    errors: string[];
+    chunks: Buffer[];
+    bytes: number;
+    truncated: boolean;
+    // The wrapper that captures the body: replaced after it by middleware that encodes what it writes
+    write?: Write;
+}
+
+// Bodies past this size are not kept
+const MAX_BODY_BYTES = 1024 * 1024;
+// Per connection, per request or per browser: a replay sends its own
+const DROPPED_HEADERS = new Set([
+    'host', 'connection', 'keep-alive', 'content-length', 'transfer-encoding', 'upgrade', 'te', 'trailer',
+    'accept-encoding', 'if-none-match', 'if-modified-since', 'cache-control', 'pragma',
+    'user-agent', 'referer', 'origin', 'accept-language', 'traceparent', 'tracestate', 'x-request-id'
+]);
+const UNBOUNDED = { maxDepth: 64, maxStringLength: Infinity, maxArrayLength: Infinity };
+const RECORDING = Symbol.for('tracing.recording');
+
+let recordDir: string | undefined;
+
+export function startRecording(dir: string): void {
+    recordDir = dir;
+}
+
+export function stopRecording(): void {
+    recordDir = undefined;
+}
+
+// Called by every traced handler: the first one of a sampled request starts its recording, the endpoint names it
+export function recordExchange(req: unknown, res: unknown, span: SpanContext, target: TraceTarget): void {
+    if (!req || typeof req !== 'object') return;
+    const holder = req as Record<symbol, Recording | undefined>;
+    let recording = holder[RECORDING];
+    if (!recording) {
+        const response = res as ResponseLike;
+        if (!recordDir || !span.sampled || typeof response?.write !== 'function' || typeof response.end !== 'function'
+            || typeof response.once !== 'function') return;
+        recording = holder[RECORDING] = { errors: [], chunks: [], bytes: 0, truncated: false };
+        const dir = recordDir;
+        const kept = recording;
+        captureBody(response, kept);
+        response.once('finish', () => {
+            try {
+                saveExchange(dir, exchangeOf(req as RequestLike, response, span, kept));
+            } catch (error) {
+                console.error(`⚠️  Could not record ${(req as RequestLike).method} ${(req as RequestLike).originalUrl}:`, (error as Error).message);
+            }
+        });
+    }
+    if (target.kind === 'ENDPOINT') recording.endpoint = `${target.scope} ${target.name}`;
+}
+
+export function recordError(req: unknown, error: unknown): void {
+    const recording = req && typeof req === 'object' ? (req as Record<symbol, Recording | undefined>)[RECORDING] : undefined;
+    recording?.errors.push(errorText(serialize(error)));
+}
+
+// Error payload of an ERROR event as text (`Error: message` for Error instances)
+export function errorText(payload: string): string {
+    try {
+        const value: unknown = JSON.parse(payload);
+        return typeof value === 'string' ? value : payload;
+    } catch {
+        return payload;
+    }
+}
+
+// `GET-api-todos-3-<hash of the request>.json`
+export function fixtureFileName(request: RecordedRequest): string {
+    const slug = request.url.split('?')[0]!.replace(/[^\w]+/g, '-').replace(/^-|-$/g, '').slice(0, 60) || 'root';
+    const hash = createHash('sha1').update(JSON.stringify([request.method, request.url, request.headers, request.body])).digest('hex');
+    return `${request.method}-${slug}-${hash.slice(0, 8)}.json`;
+}
+
+// Headers and bodies through the payload redaction: JSON-safe, secrets replaced by [REDACTED]
+function redacted(value: unknown): unknown {
+    if (value === undefined) return undefined;
+    try {
+        return JSON.parse(serialize(value, UNBOUNDED));
+    } catch {
+        return undefined;
+    }
+}
+
+function captureBody(res: ResponseLike, recording: Recording): void {
+    const write = res.write!;
+    const end = res.end!;
+    const keep = (chunk: unknown, encoding: unknown) => {
+        if (chunk === undefined || chunk === null || typeof chunk === 'function' || recording.truncated) return;
+        const buffer = typeof chunk === 'string'
+            ? Buffer.from(chunk, typeof encoding === 'string' ? encoding as BufferEncoding : 'utf-8')
+            : chunk instanceof Uint8Array ? Buffer.from(chunk) : undefined;
+        if (!buffer) return;
+        recording.bytes += buffer.length;
+        if (recording.bytes > MAX_BODY_BYTES) {
+            recording.truncated = true;
+            recording.chunks = [];
+        } else {
+            recording.chunks.push(buffer);
+        }
+    };
+    res.write = recording.write = function (this: unknown, chunk?: unknown, ...rest: unknown[]) {
+        keep(chunk, rest[0]);
+        return write.call(this, chunk, ...rest);
+    };
+    res.end = function (this: unknown, chunk?: unknown, ...rest: unknown[]) {
+        keep(chunk, rest[0]);
+        return end.call(this, chunk, ...rest);
+    };
+}
+
+// The body as sent, decompressed: compression middleware that ran after the first handler writes
+// its output through the wrappers above, when it ran before they see the body it compresses
+function decode(raw: Buffer, res: ResponseLike, recording: Recording): Buffer {
+    if (res.write === recording.write) return raw;
+    switch (String(res.getHeader?.('content-encoding') ?? '').toLowerCase()) {
+        case 'gzip':
+            return zlib.gunzipSync(raw);
+        case 'br':
+            return zlib.brotliDecompressSync(raw);
+        case 'deflate':
+            return zlib.inflateSync(raw);
+        default:
+            return raw;
+    }
+}
+
+function responseBody(res: ResponseLike, recording: Recording, contentType: string | undefined): unknown {
+    if (recording.truncated) return `[not recorded: over ${MAX_BODY_BYTES} bytes]`;
+    if (!recording.bytes) return undefined;
+    const text = decode(Buffer.concat(recording.chunks), res, recording).toString('utf-8');
+    if (!contentType?.includes('json')) return text;
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text;
+    }
+}
+
+function exchangeOf(req: RequestLike, res: ResponseLike, span: SpanContext, recording: Recording): RecordedExchange {
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(req.headers ?? {})) {
+        if (value === undefined || DROPPED_HEADERS.has(name) || name.startsWith('sec-')) continue;
+        headers[name] = Array.isArray(value) ? value.join(', ') : value;
+    }
+    const request: RecordedRequest = {
+        method: req.method ?? 'GET',
+        url: req.originalUrl ?? req.url ?? '/',
+        headers: redacted(headers) as Record<string, string>
+    };
+    const body = redacted(req.body);
+    if (body !== undefined) request.body = body;
+
+    const contentType = res.getHeader?.('content-type');
+    const response: RecordedResponse = { status: res.statusCode ?? 200 };
+    if (contentType !== undefined) response.contentType = String(contentType);
+    const responseValue = redacted(responseBody(res, recording, response.contentType));
+    if (responseValue !== undefined) response.body = responseValue;
+
+    const exchange: RecordedExchange = { recordedAt: new Date().toISOString(), traceId: span.traceId, request, response, errors: recording.errors };
+    return recording.endpoint ? { endpoint: recording.endpoint, ...exchange } : exchange;
+}
+
+function saveExchange(dir: string, exchange: RecordedExchange): void {
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, fixtureFileName(exchange.request)), `${JSON.stringify(exchange, null, 2)}\n`);
+}
+
+if (process.env.TRACE_RECORD_DIR) startRecording(process.env.TRACE_RECORD_DIR);
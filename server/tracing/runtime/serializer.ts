@@ -0,0 +1,216 @@
+/**
+ * Payload serializer for trace events (replaces the per-file `safeToString` helper).
+ * - Redacts values whose key matches a pattern (passwords, tokens, Authorization, API/Supabase keys...)
+ *   and string values that are tokens themselves (JWTs, `Bearer ...`), e.g. a token passed as an argument
+ * - Bounds output: max depth, max string length, max items per array/Map/Set/typed array
+ * - Marks circular references instead of failing (`[Circular ~.path]`)
+ * - Renders Map, Set, BigInt, Date, Buffer and typed arrays faithfully
+ * - Never throws: worst case is a '[unserializable ...]' marker
+ * Defaults can be changed through TRACE_REDACT_KEYS (comma separated, added to the
+ * defaults), TRACE_MAX_DEPTH, TRACE_MAX_STRING and TRACE_MAX_ARRAY, or configureSerializer().
+ * Also bundled into the browser runtime (../browser), where there is no process/Buffer; `render`
+ * lets it describe React elements and DOM nodes instead of walking them.
+ */
+
+export interface SerializerOptions {
+    redactKeys: RegExp[];
+    maxDepth: number;
+    maxStringLength: number;
+    maxArrayLength: number;
+    redactValues: RegExp[];
+    // Custom rendering of objects: a JSON-safe replacement, or undefined for the default handling
+    render?: (value: object) => unknown;
+}
+
+export const REDACTED = '[REDACTED]';
+
+const DEFAULT_REDACT_KEYS: RegExp[] = [
+    /pass(word|wd)|^pass$/i,
+    /secret/i,
+    /token/i,
+    /^authorization$/i,
+    /^cookie$/i,
+    /^set-cookie$/i,
+    /api[-_]?key/i,
+    /supabase.*key/i,
+    /service[-_]?role/i,
+    /private[-_]?key/i,
+    /credential/i,
+    /^jwt$/i
+];
+
+const TYPED_ARRAY = Object.getPrototypeOf(Uint8Array) as abstract new (...args: never[]) => ArrayLike<number | bigint>;
+
+const DEFAULT_REDACT_VALUES: RegExp[] = [
+    /^(Bearer\s+)?eyJ[\w-]*\.[\w-]*\.[\w-]*$/i,
+    /^Bearer\s+\S+$/i
+];
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function positiveInt(value: string | undefined, fallback: number): number {
+    const parsed = value ? Number.parseInt(value, 10) : NaN;
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function serializerOptionsFromEnv(env: NodeJS.ProcessEnv): SerializerOptions {
+    const extraKeys = (env.TRACE_REDACT_KEYS ?? '')
+        .split(',')
+        .map(k => k.trim())
+        .filter(Boolean)
+        .map(k => new RegExp(escapeRegExp(k), 'i'));
+    return {
+        redactKeys: [...DEFAULT_REDACT_KEYS, ...extraKeys],
+        maxDepth: positiveInt(env.TRACE_MAX_DEPTH, 6),
+        maxStringLength: positiveInt(env.TRACE_MAX_STRING, 2000),
+        maxArrayLength: positiveInt(env.TRACE_MAX_ARRAY, 50),
+        redactValues: [...DEFAULT_REDACT_VALUES]
+    };
+}
+
+let options: SerializerOptions = serializerOptionsFromEnv(typeof process === 'undefined' ? {} : process.env);
+
+export function configureSerializer(next: Partial<SerializerOptions>): void {
+    options = { ...options, ...next };
+}
+
+export function getSerializerOptions(): SerializerOptions {
+    return options;
+}
+
+export function serialize(value: unknown, overrides?: Partial<SerializerOptions>): string {
+    const opts = overrides ? { ...options, ...overrides } : options;
+    try {
+        const plain = toPlain(value, opts, [], '', 0);
+        return plain === undefined ? 'undefined' : JSON.stringify(plain);
+    } catch {
+        return `[unserializable ${describe(value)}]`;
+    }
+}
+
+function describe(value: unknown): string {
+    try {
+        return Object.prototype.toString.call(value);
+    } catch {
+        return typeof value;
+    }
+}
+
+function truncateString(text: string, max: number): string {
+    return text.length > max ? `${text.slice(0, max)}…(+${text.length - max} chars)` : text;
+}
+
+function isRedactedKey(key: string, opts: SerializerOptions): boolean {
+    return opts.redactKeys.some(pattern => pattern.test(key));
+}
+
+// Converts any value into a JSON-safe structure, honouring the limits in `opts`.
+// `ancestors` holds the objects on the current path (for circular detection) and `path` its key path.
+function toPlain(value: unknown, opts: SerializerOptions, ancestors: object[], path: string, depth: number): unknown {
+    switch (typeof value) {
+        case 'string':
+            return opts.redactValues.some(pattern => pattern.test(value)) ? REDACTED : truncateString(value, opts.maxStringLength);
+        case 'number':
+            return Number.isFinite(value) ? value : String(value);
+        case 'boolean':
+            return value;
+        case 'bigint':
+            return `${value}n`;
+        case 'undefined':
+            return undefined;
+        case 'symbol':
+            return value.toString();
+        case 'function':
+            return `[Function ${value.name || 'anonymous'}]`;
+    }
+    if (value === null) return null;
+
+    const obj = value as object;
+    if (obj instanceof Error) return String(obj);
+    if (obj instanceof Date) return Number.isNaN(obj.getTime()) ? 'Invalid Date' : obj.toISOString();
+    if (obj instanceof RegExp) return String(obj);
+
+    const circularAt = ancestors.indexOf(obj);
+    if (circularAt >= 0) return `[Circular ~${circularPath(path, circularAt)}]`;
+    const rendered = opts.render?.(obj);
+    if (rendered !== undefined) return rendered;
+    if (depth >= opts.maxDepth) return `[${Array.isArray(obj) ? `Array(${obj.length})` : constructorName(obj)}]`;
+
+    const next = [...ancestors, obj];
+    const child = (v: unknown, key: string) => toPlain(v, opts, next, `${path}.${key}`, depth + 1);
+
+    if (typeof Buffer !== 'undefined' && Buffer.isBuffer(obj)) {
+        const hex = obj.subarray(0, Math.ceil(opts.maxStringLength / 2)).toString('hex');
+        return { __type: 'Buffer', length: obj.length, hex: obj.length * 2 > hex.length ? `${hex}…` : hex };
+    }
+    if (obj instanceof TYPED_ARRAY) {
+        const typed = obj as ArrayLike<number | bigint>;
+        const values = Array.from({ length: Math.min(typed.length, opts.maxArrayLength) }, (_, i) => toPlain(typed[i], opts, next, path, depth + 1));
+        return { __type: constructorName(obj), length: typed.length, values: withOverflow(values, typed.length) };
+    }
+    if (obj instanceof ArrayBuffer) return { __type: 'ArrayBuffer', byteLength: obj.byteLength };
+    if (Array.isArray(obj)) {
+        const items = obj.slice(0, opts.maxArrayLength).map((v, i) => {
+            const out = child(v, String(i));
+            return out === undefined ? null : out;
+        });
+        return withOverflow(items, obj.length);
+    }
+    if (obj instanceof Map) {
+        const entries: unknown[] = [];
+        for (const [k, v] of obj) {
+            if (entries.length >= opts.maxArrayLength) break;
+            const keyText = typeof k === 'string' ? k : '';
+            entries.push([child(k, '<key>'), keyText && isRedactedKey(keyText, opts) ? REDACTED : child(v, keyText || '<value>')]);
+        }
+        return { __type: 'Map', size: obj.size, entries: withOverflow(entries, obj.size) };
+    }
+    if (obj instanceof Set) {
+        const values: unknown[] = [];
+        for (const v of obj) {
+            if (values.length >= opts.maxArrayLength) break;
+            values.push(child(v, String(values.length)));
+        }
+        return { __type: 'Set', size: obj.size, values: withOverflow(values, obj.size) };
+    }
+    if (obj instanceof WeakMap || obj instanceof WeakSet || obj instanceof Promise) return `[${constructorName(obj)}]`;
+
+    const toJSON = (obj as { toJSON?: unknown }).toJSON;
+    if (typeof toJSON === 'function') {
+        return toPlain(toJSON.call(obj), opts, next, path, depth + 1);
+    }
+
+    const out: Record<string, unknown> = {};
+    for (const key of Object.keys(obj)) {
+        if (isRedactedKey(key, opts)) {
+            out[key] = REDACTED;
+            continue;
+        }
+        let v: unknown;
+        try {
+            v = (obj as Record<string, unknown>)[key];
+        } catch {
+            v = '[Getter error]';
+        }
+        const plain = child(v, key);
+        if (plain !== undefined) out[key] = plain;
+    }
+    return out;
+}
+
+function withOverflow(items: unknown[], total: number): unknown[] {
+    return total > items.length ? [...items, `…(+${total - items.length} items)`] : items;
+}
+
+function constructorName(obj: object): string {
+    const name = (obj.constructor as { name?: unknown } | undefined)?.name;
+    return typeof name === 'string' && name ? name : 'Object';
+}
+
+function circularPath(path: string, index: number): string {
+    // Path segments line up with ancestors: ancestors[0] is the root ('')
+    const segments = path.split('.').slice(0, index + 1);
+    return segments.join('.') || '.';
+}
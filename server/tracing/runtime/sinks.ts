@@ -0,0 +1,172 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { TraceEvent } from './types.js';
+
+/**
+ * Trace sinks selectable through TRACE_SINKS (comma separated):
+ * - stdout: legacy pipe format on stdout/stderr
+ *     FUNCTION: ACTION|FUNCTION|FILE:LINE:COLUMN|CLASS_OR_OBJECT|NAME|TRACE_ID|SPAN_ID|PARENT_SPAN_ID|DEPTH|PAYLOAD
+ *     ENDPOINT: ACTION|ENDPOINT|METHOD|ROUTE|FILE:LINE:COLUMN|TRACE_ID|SPAN_ID|PARENT_SPAN_ID|DEPTH|PAYLOAD
+ *     (MIDDLEWARE and QUERY records use the ENDPOINT layout: QUERY|OPERATION|TABLE|BACKEND)
+ * - jsonl: one JSON record per line in TRACE_FILE, rotated by size (TRACE_MAX_BYTES)
+ *   and/or age (TRACE_ROTATE_INTERVAL_MS), keeping TRACE_MAX_FILES rotated files
+ * - memory: ring buffer of the last TRACE_BUFFER_SIZE events (see getBufferedEvents)
+ */
+
+export interface TraceSink {
+    write(event: TraceEvent): void;
+    close?(): void;
+}
+
+export function formatPipeRecord(event: TraceEvent): string {
+    const ctx = `${event.traceId}|${event.spanId}|${event.parentSpanId ?? ''}|${event.depth}`;
+    // Keep one record per line even when a payload falls back to a multi-line String()
+    const payload = event.payload.replace(/\r?\n/g, '\\n');
+    const file = event.line !== undefined ? `${event.file}:${event.line}:${event.column ?? 0}` : event.file;
+    const head = event.kind !== 'FUNCTION'
+        ? `${event.action}|${event.kind}|${event.scope}|${event.name}|${file}`
+        : `${event.action}|FUNCTION|${file}|${event.scope}|${event.name}`;
+    return `${head}|${ctx}|${payload}`;
+}
+
+export class StdoutSink implements TraceSink {
+    write(event: TraceEvent): void {
+        const line = formatPipeRecord(event);
+        if (event.action === 'ERROR') console.error(line);
+        else console.log(line);
+    }
+}
+
+export interface JsonlSinkOptions {
+    file: string;
+    maxBytes?: number;
+    rotateIntervalMs?: number;
+    maxFiles?: number;
+}
+
+export class JsonlFileSink implements TraceSink {
+    private fd: number | null = null;
+    private size = 0;
+    private openedAt = 0;
+    private readonly file: string;
+    private readonly maxBytes: number;
+    private readonly rotateIntervalMs: number;
+    private readonly maxFiles: number;
+
+    constructor(options: JsonlSinkOptions) {
+        this.file = options.file;
+        this.maxBytes = options.maxBytes ?? 10 * 1024 * 1024;
+        this.rotateIntervalMs = options.rotateIntervalMs ?? 0;
+        this.maxFiles = options.maxFiles ?? 5;
+    }
+
+    write(event: TraceEvent): void {
+        const line = JSON.stringify(event) + '\n';
+        const bytes = Buffer.byteLength(line);
+        if (this.fd === null) this.open();
+        else if (this.shouldRotate(bytes)) this.rotate();
+        fs.writeSync(this.fd!, line);
+        this.size += bytes;
+    }
+
+    close(): void {
+        if (this.fd !== null) {
+            fs.closeSync(this.fd);
+            this.fd = null;
+        }
+    }
+
+    private open(): void {
+        fs.mkdirSync(path.dirname(this.file), { recursive: true });
+        this.fd = fs.openSync(this.file, 'a');
+        this.size = fs.fstatSync(this.fd).size;
+        this.openedAt = Date.now();
+    }
+
+    private shouldRotate(nextBytes: number): boolean {
+        if (this.size === 0) return false;
+        if (this.maxBytes > 0 && this.size + nextBytes > this.maxBytes) return true;
+        return this.rotateIntervalMs > 0 && Date.now() - this.openedAt >= this.rotateIntervalMs;
+    }
+
+    private rotate(): void {
+        this.close();
+        const { dir, name, ext } = path.parse(this.file);
+        // Rotated files are named by rotation time; bump on collisions so none get overwritten
+        let stamp = Date.now();
+        while (fs.existsSync(path.join(dir, `${name}.${stamp}${ext}`))) stamp++;
+        fs.renameSync(this.file, path.join(dir, `${name}.${stamp}${ext}`));
+        this.pruneRotated(dir, name, ext);
+        this.open();
+    }
+
+    private pruneRotated(dir: string, name: string, ext: string): void {
+        const rotated = fs.readdirSync(dir)
+            .filter(f => f.startsWith(`${name}.`) && f.endsWith(ext) && /^\d+$/.test(f.slice(name.length + 1, f.length - ext.length)))
+            .sort();
+        for (const f of rotated.slice(0, Math.max(0, rotated.length - this.maxFiles))) {
+            fs.rmSync(path.join(dir, f), { force: true });
+        }
+    }
+}
+
+export class MemorySink implements TraceSink {
+    private buffer: TraceEvent[] = [];
+    // Slot of the oldest event once the buffer is full, overwritten by the next one
+    private head = 0;
+    private readonly capacity: number;
+
+    constructor(capacity = 1000) {
+        this.capacity = capacity;
+    }
+
+    write(event: TraceEvent): void {
+        if (this.capacity <= 0) return;
+        if (this.buffer.length < this.capacity) {
+            this.buffer.push(event);
+            return;
+        }
+        this.buffer[this.head] = event;
+        this.head = (this.head + 1) % this.capacity;
+    }
+
+    // Oldest first
+    events(): TraceEvent[] {
+        return [...this.buffer.slice(this.head), ...this.buffer.slice(0, this.head)];
+    }
+
+    clear(): void {
+        this.buffer = [];
+        this.head = 0;
+    }
+}
+
+function intFromEnv(value: string | undefined): number | undefined {
+    if (value === undefined || value.trim() === '') return undefined;
+    const parsed = Number.parseInt(value, 10);
+    return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+export function createSinksFromEnv(env: NodeJS.ProcessEnv): TraceSink[] {
+    const names = (env.TRACE_SINKS ?? 'stdout').split(',').map(s => s.trim().toLowerCase()).filter(Boolean);
+    const sinks: TraceSink[] = [];
+    for (const name of new Set(names)) {
+        if (name === 'stdout') {
+            sinks.push(new StdoutSink());
+        } else if (name === 'jsonl') {
+            const options: JsonlSinkOptions = { file: env.TRACE_FILE || 'tracing/tracing.jsonl' };
+            const maxBytes = intFromEnv(env.TRACE_MAX_BYTES);
+            const rotateIntervalMs = intFromEnv(env.TRACE_ROTATE_INTERVAL_MS);
+            const maxFiles = intFromEnv(env.TRACE_MAX_FILES);
+            if (maxBytes !== undefined) options.maxBytes = maxBytes;
+            if (rotateIntervalMs !== undefined) options.rotateIntervalMs = rotateIntervalMs;
+            if (maxFiles !== undefined) options.maxFiles = maxFiles;
+            sinks.push(new JsonlFileSink(options));
+        } else if (name === 'memory') {
+            sinks.push(new MemorySink(intFromEnv(env.TRACE_BUFFER_SIZE)));
+        } else {
+            console.error(`⚠️  Unknown trace sink "${name}" (expected stdout, jsonl or memory)`);
+        }
+    }
+    return sinks;
+}
@@ -0,0 +1,89 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomBytes } from 'node:crypto';
+import { parseTraceparent } from './traceparent.js';
+
+/**
+ * Request-scoped trace context for instrumented code.
+ * - Endpoint wrappers open a root span per request (or a child if one is already active)
+ * - Function wrappers open a child of whatever span is active
+ * - Propagated across awaits/callbacks via AsyncLocalStorage
+ * Ids follow W3C trace-context sizes: 16-byte trace id, 8-byte span id (hex).
+ * `sampled` is decided when a request span opens (see controls.ts) and inherited by child spans.
+ * Requests carrying a W3C `traceparent` header (e.g. from the instrumented client) continue that
+ * trace: the request span's parent is the caller's span, and `tracestate` is kept for outbound calls
+ * (see traceparent.ts, fetch-propagation.ts).
+ */
+
+export interface SpanContext {
+    traceId: string;
+    spanId: string;
+    parentSpanId: string | null;
+    depth: number;
+    sampled: boolean;
+    traceState?: string;
+}
+
+const storage = new AsyncLocalStorage<SpanContext>();
+
+export function newTraceId(): string {
+    return randomBytes(16).toString('hex');
+}
+
+export function newSpanId(): string {
+    return randomBytes(8).toString('hex');
+}
+
+export function activeSpan(): SpanContext | undefined {
+    return storage.getStore();
+}
+
+export function startRootSpan(): SpanContext {
+    return { traceId: newTraceId(), spanId: newSpanId(), parentSpanId: null, depth: 0, sampled: true };
+}
+
+export function startChildSpan(parent: SpanContext | undefined = activeSpan()): SpanContext {
+    if (!parent) return startRootSpan();
+    const span: SpanContext = { traceId: parent.traceId, spanId: newSpanId(), parentSpanId: parent.spanId, depth: parent.depth + 1, sampled: parent.sampled };
+    if (parent.traceState !== undefined) span.traceState = parent.traceState;
+    return span;
+}
+
+export function runWithSpan<T>(span: SpanContext, fn: () => T): T {
+    return storage.run(span, fn);
+}
+
+// Makes `span` active for the rest of the current synchronous execution (frames, see functions.ts);
+// the caller restores the previous span when the frame exits
+export function enterSpan(span: SpanContext | undefined): void {
+    storage.enterWith(span as SpanContext);
+}
+
+// TRACE_ID|SPAN_ID|PARENT_SPAN_ID|DEPTH (parent empty for root spans)
+export function formatSpan(span: SpanContext): string {
+    return `${span.traceId}|${span.spanId}|${span.parentSpanId ?? ''}|${span.depth}`;
+}
+
+const REQUEST_SPAN = Symbol.for('tracing.requestSpan');
+
+// Endpoint spans: the first handler of a request opens the root span and pins it on `req`,
+// later handlers/middleware for the same request become its children.
+// `sample` decides whether a new request is traced (ignored when it joins a span that is not sampled,
+// locally or by the caller's traceparent flags).
+export function startRequestSpan(req: unknown, sample?: () => boolean): SpanContext {
+    const holder = req && typeof req === 'object' ? (req as Record<symbol, SpanContext | undefined>) : undefined;
+    const existing = holder?.[REQUEST_SPAN];
+    const span = existing ? startChildSpan(existing) : startChildSpan(remoteParentOf(req) ?? activeSpan());
+    if (!existing && span.sampled && sample && !sample()) span.sampled = false;
+    if (holder && !existing) holder[REQUEST_SPAN] = span;
+    return span;
+}
+
+// The caller's span from the request's traceparent/tracestate headers, as a parent for the request span
+function remoteParentOf(req: unknown): SpanContext | undefined {
+    const headers = req && typeof req === 'object' ? (req as { headers?: Record<string, unknown> }).headers : undefined;
+    const remote = headers ? parseTraceparent(headers.traceparent, headers.tracestate) : undefined;
+    if (!remote) return undefined;
+    const parent: SpanContext = { traceId: remote.traceId, spanId: remote.spanId, parentSpanId: null, depth: -1, sampled: remote.sampled };
+    if (remote.traceState !== undefined) parent.traceState = remote.traceState;
+    return parent;
+}
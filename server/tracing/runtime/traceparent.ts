@@ -0,0 +1,43 @@
+/**
+ * W3C trace context headers (https://www.w3.org/TR/trace-context/):
+ *   traceparent: 00-<trace id, 32 hex>-<parent span id, 16 hex>-<flags, 01 = sampled>
+ *   tracestate:  vendor entries, forwarded as received
+ * Shared by the server runtime (incoming requests, outbound fetch) and the browser runtime
+ * (../browser), so no Node APIs here.
+ */
+
+export interface RemoteContext {
+    traceId: string;
+    spanId: string;
+    sampled: boolean;
+    traceState?: string;
+}
+
+const TRACEPARENT = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+
+// Undefined for missing or invalid headers (the request then starts a new trace)
+export function parseTraceparent(traceparent: unknown, tracestate?: unknown): RemoteContext | undefined {
+    const match = typeof traceparent === 'string' ? TRACEPARENT.exec(traceparent.trim().toLowerCase()) : null;
+    if (!match) return undefined;
+    const [, version, traceId, spanId, flags, rest] = match;
+    // Version ff is invalid; version 00 has exactly four fields; all-zero ids are invalid
+    if (version === 'ff' || (version === '00' && rest)) return undefined;
+    if (/^0+$/.test(traceId!) || /^0+$/.test(spanId!)) return undefined;
+    const context: RemoteContext = { traceId: traceId!, spanId: spanId!, sampled: (Number.parseInt(flags!, 16) & 1) === 1 };
+    const state = Array.isArray(tracestate) ? tracestate.join(',') : tracestate;
+    if (typeof state === 'string' && state.trim()) context.traceState = state.trim();
+    return context;
+}
+
+export function formatTraceparent(traceId: string, spanId: string, sampled: boolean): string {
+    return `00-${traceId}-${spanId}-${sampled ? '01' : '00'}`;
+}
+
+// fetch() arguments with trace headers added; headers already set by the caller are kept
+export function withTraceHeaders(input: string | URL | Request, init: RequestInit | undefined,
+    traceparent: string, tracestate?: string): [string | URL | Request, RequestInit] {
+    const headers = new Headers(init?.headers ?? (input instanceof Request ? input.headers : undefined));
+    if (!headers.has('traceparent')) headers.set('traceparent', traceparent);
+    if (tracestate && !headers.has('tracestate')) headers.set('tracestate', tracestate);
+    return [input, { ...init, headers }];
+}
@@ -0,0 +1,37 @@
+/**
+ * Types of trace events, shared by the tracer (build time), the Node and browser runtimes and the
+ * trace tools. No imports: the tracer and vite.config.ts type-check this without the Node runtime.
+ */
+
+// YIELD: a value produced by a traced generator (between its ENTER and EXIT)
+export type TraceAction = 'ENTER' | 'EXIT' | 'ERROR' | 'YIELD';
+export type TraceKind = 'FUNCTION' | 'ENDPOINT' | 'MIDDLEWARE' | 'QUERY';
+
+// Static description of an instrumented target, generated at build time.
+// FUNCTION: scope = class/object name (or ''), name = function name
+// ENDPOINT/MIDDLEWARE: scope = HTTP method (USE for app/router.use), name = route(s), handler = handler label
+// QUERY: scope = operation (select/insert/update/delete), name = table, file = data backend (see queries.ts)
+// file is project-relative; line/column (1-based) locate the target in the original source
+// verbosity 'names' (tracing.config.json) records calls without payloads
+export interface TraceTarget {
+    kind: TraceKind;
+    file: string;
+    scope: string;
+    name: string;
+    line?: number;
+    column?: number;
+    handler?: string;
+    verbosity?: 'full' | 'names';
+}
+
+export interface TraceEvent extends TraceTarget {
+    action: TraceAction;
+    payload: string;
+    timestamp: number;
+    // Milliseconds since ENTER (EXIT, ERROR, YIELD), fractional
+    duration?: number;
+    traceId: string;
+    spanId: string;
+    parentSpanId: string | null;
+    depth: number;
+}
@@ -0,0 +1,71 @@
+import type { Node } from 'ts-morph';
+
+/**
+ * Insert-only edits over the pristine source text.
+ * Instrumentation never rewrites original code: it wraps ranges with a prefix/suffix.
+ * Edits are collected against the unmodified AST (so nested targets compose and keep
+ * their original positions) and applied in one pass by apply().
+ * At the same position, closing text goes before opening text, inner closers before
+ * outer ones and outer openers before inner ones. An empty range (`{}` bodies) goes between
+ * the closers and the openers, its own prefix before its suffix.
+ */
+
+interface Insertion {
+    pos: number;
+    text: string;
+    side: 'open' | 'close';
+    depth: number;
+    order: number;
+    // around() call the insertion belongs to; set for empty ranges only
+    pair?: number;
+}
+
+export class SourceEdits {
+    private insertions: Insertion[] = [];
+
+    // Wraps the node's text (without leading trivia)
+    wrap(node: Node, prefix: string, suffix: string): void {
+        this.around(node.getStart(), node.getEnd(), depthOf(node), prefix, suffix);
+    }
+
+    // Wraps the range [start, end); depth orders edits that share a position
+    around(start: number, end: number, depth: number, prefix: string, suffix: string): void {
+        const pair = start === end ? { pair: this.insertions.length } : {};
+        this.insertions.push({ pos: start, text: prefix, side: 'open', depth, order: this.insertions.length, ...pair });
+        this.insertions.push({ pos: end, text: suffix, side: 'close', depth, order: this.insertions.length, ...pair });
+    }
+
+    get size(): number {
+        return this.insertions.length;
+    }
+
+    apply(text: string): string {
+        const sorted = [...this.insertions].sort((a, b) => {
+            if (a.pos !== b.pos) return a.pos - b.pos;
+            if (rank(a) !== rank(b)) return rank(a) - rank(b);
+            if (a.pair !== undefined && b.pair !== undefined) {
+                return a.pair !== b.pair ? a.pair - b.pair : a.side === 'open' ? -1 : 1;
+            }
+            if (a.side !== b.side) return a.side === 'close' ? -1 : 1;
+            if (a.depth !== b.depth) return a.side === 'close' ? b.depth - a.depth : a.depth - b.depth;
+            return a.side === 'close' ? b.order - a.order : a.order - b.order;
+        });
+        let out = '';
+        let last = 0;
+        for (const { pos, text: insert } of sorted) {
+            out += text.slice(last, pos) + insert;
+            last = pos;
+        }
+        return out + text.slice(last);
+    }
+}
+
+// Closers, then empty ranges, then openers
+function rank(insertion: Insertion): number {
+    if (insertion.pair !== undefined) return 1;
+    return insertion.side === 'close' ? 0 : 2;
+}
+
+export function depthOf(node: Node): number {
+    return node.getAncestors().length;
+}
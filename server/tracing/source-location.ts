@@ -0,0 +1,32 @@
+import { Node } from 'ts-morph';
+import * as path from 'path';
+
+/**
+ * Original-source locations for instrumented targets.
+ * Instrumentation only inserts text around original code (see source-edits.ts), computed on the
+ * unmodified AST, so node positions are the original ones. Inserted wrapper code is kept on a
+ * single line so the instrumented module stays line-aligned with the original
+ * (see build-instrumented.ts source maps).
+ */
+
+export interface SourceLocation {
+    line: number;
+    column: number;
+}
+
+// 1-based line/column of the node's start
+export function locationOf(node: Node): SourceLocation {
+    const { line, column } = node.getSourceFile().getLineAndColumnAtPos(node.getStart());
+    return { line, column };
+}
+
+// Path shown in trace records: relative to the project root (posix separators), else the bare file name
+export function displayPath(filePath: string, projectRoot?: string): string {
+    if (!projectRoot) return path.basename(filePath);
+    return path.relative(projectRoot, path.resolve(filePath)).split(path.sep).join('/');
+}
+
+// Collapses generated wrapper code onto one line (templates must not contain `//` comments)
+export function singleLine(code: string): string {
+    return code.replace(/\s*\n\s*/g, ' ');
+}
@@ -0,0 +1,257 @@
+import * as fs from 'fs'
+import type { TraceAction, TraceKind } from './runtime/types.js'
+
+/**
+ * Parsing and call reconstruction for trace output.
+ * Accepts, line by line (anything else, e.g. application logs, is skipped):
+ * - JSONL records written by the jsonl sink
+ * - pipe records written by the stdout sink
+ *     ACTION|FUNCTION|FILE[:LINE:COLUMN]|CLASS_OR_OBJECT|NAME|TRACE_ID|SPAN_ID|PARENT_SPAN_ID|DEPTH|PAYLOAD
+ *     ACTION|ENDPOINT|METHOD|ROUTE|FILE[:LINE:COLUMN]|TRACE_ID|SPAN_ID|PARENT_SPAN_ID|DEPTH|PAYLOAD
+ *     (MIDDLEWARE and QUERY records use the ENDPOINT layout)
+ * - legacy pipe records without trace context (ACTION|KIND|...|PAYLOAD)
+ * Pipe records carry no timestamp, so time-window queries only apply to JSONL input.
+ */
+
+export interface TraceRecord {
+    action: TraceAction
+    kind: TraceKind
+    file: string
+    // FUNCTION: class/object name, ENDPOINT/MIDDLEWARE: HTTP method
+    scope: string
+    // FUNCTION: function name, ENDPOINT/MIDDLEWARE: route
+    name: string
+    payload: string
+    // Original source location of the target
+    line?: number
+    column?: number
+    timestamp?: number
+    duration?: number
+    traceId?: string
+    spanId?: string
+    parentSpanId?: string | null
+    depth?: number
+    // Line number in the trace file
+    logLine: number
+}
+
+export interface CallNode {
+    kind: TraceKind
+    file: string
+    scope: string
+    name: string
+    line?: number
+    traceId: string
+    spanId: string
+    enter?: TraceRecord
+    exit?: TraceRecord
+    error?: TraceRecord
+    // Values produced by a traced generator
+    yields?: TraceRecord[]
+    children: CallNode[]
+}
+
+export interface Trace {
+    traceId: string
+    roots: CallNode[]
+    calls: CallNode[]
+}
+
+const ACTIONS = new Set<string>(['ENTER', 'EXIT', 'ERROR', 'YIELD'])
+const KINDS = new Set<string>(['FUNCTION', 'ENDPOINT', 'MIDDLEWARE', 'QUERY'])
+const TRACE_ID = /^[0-9a-f]{32}$/
+const SPAN_ID = /^[0-9a-f]{16}$/
+
+export function readTraceFile(filePath: string): TraceRecord[] {
+    return parseTraceLog(fs.readFileSync(filePath, 'utf-8'))
+}
+
+export function parseTraceLog(text: string): TraceRecord[] {
+    const records: TraceRecord[] = []
+    const lines = text.split(/\r?\n/)
+    for (let i = 0; i < lines.length; i++) {
+        const record = parseTraceLine(lines[i] ?? '', i + 1)
+        if (record) records.push(record)
+    }
+    return records
+}
+
+export function parseTraceLine(raw: string, logLine: number = 0): TraceRecord | null {
+    const text = raw.trim()
+    if (text.startsWith('{')) return parseJsonRecord(text, logLine)
+    return parsePipeRecord(text, logLine)
+}
+
+function parseJsonRecord(text: string, logLine: number): TraceRecord | null {
+    let value: Record<string, unknown>
+    try {
+        value = JSON.parse(text)
+    } catch {
+        return null
+    }
+    if (!ACTIONS.has(String(value.action)) || !KINDS.has(String(value.kind))) return null
+    const record: TraceRecord = {
+        action: value.action as TraceAction,
+        kind: value.kind as TraceKind,
+        file: String(value.file ?? ''),
+        scope: String(value.scope ?? ''),
+        name: String(value.name ?? ''),
+        payload: typeof value.payload === 'string' ? value.payload : JSON.stringify(value.payload ?? null),
+        logLine
+    }
+    if (typeof value.line === 'number') record.line = value.line
+    if (typeof value.column === 'number') record.column = value.column
+    if (typeof value.timestamp === 'number') record.timestamp = value.timestamp
+    if (typeof value.duration === 'number') record.duration = value.duration
+    if (typeof value.traceId === 'string') record.traceId = value.traceId
+    if (typeof value.spanId === 'string') record.spanId = value.spanId
+    if (typeof value.parentSpanId === 'string' || value.parentSpanId === null) record.parentSpanId = value.parentSpanId
+    if (typeof value.depth === 'number') record.depth = value.depth
+    return withEndpointDuration(record)
+}
+
+function parsePipeRecord(text: string, logLine: number): TraceRecord | null {
+    const parts = text.split('|')
+    const [action, kind, a, b, c] = parts
+    if (!action || !kind || !ACTIONS.has(action) || !KINDS.has(kind) || parts.length < 6) return null
+
+    const record: TraceRecord = kind !== 'FUNCTION'
+        ? { action: action as TraceAction, kind: kind as TraceKind, scope: a ?? '', name: b ?? '', file: c ?? '', payload: '', logLine }
+        : { action: action as TraceAction, kind: kind as TraceKind, file: a ?? '', scope: b ?? '', name: c ?? '', payload: '', logLine }
+
+    const location = /^(.*):(\d+):(\d+)$/.exec(record.file)
+    if (location) {
+        record.file = location[1]!
+        record.line = Number(location[2])
+        record.column = Number(location[3])
+    }
+
+    // Payload is always the last field and may itself contain '|'
+    const hasContext = parts.length >= 10 && TRACE_ID.test(parts[5] ?? '') && SPAN_ID.test(parts[6] ?? '')
+    if (hasContext) {
+        record.traceId = parts[5]!
+        record.spanId = parts[6]!
+        record.parentSpanId = parts[7] ? parts[7] : null
+        record.depth = Number(parts[8])
+        record.payload = parts.slice(9).join('|')
+    } else {
+        record.payload = parts.slice(5).join('|')
+    }
+    return withEndpointDuration(record)
+}
+
+// ENDPOINT (and responding MIDDLEWARE) EXIT payloads carry { status, duration_ms }, QUERY ones { rows, duration_ms }
+function withEndpointDuration(record: TraceRecord): TraceRecord {
+    if (record.kind === 'FUNCTION' || record.action !== 'EXIT' || record.duration !== undefined) return record
+    const parsed = parsePayload(record.payload)
+    if (parsed && typeof parsed === 'object' && typeof (parsed as { duration_ms?: unknown }).duration_ms === 'number') {
+        record.duration = (parsed as { duration_ms: number }).duration_ms
+    }
+    return record
+}
+
+export function parsePayload(payload: string): unknown {
+    try {
+        return JSON.parse(payload)
+    } catch {
+        return payload
+    }
+}
+
+export function targetKey(r: { kind: TraceKind, file: string, scope: string, name: string, line?: number }): string {
+    const file = r.line !== undefined ? `${r.file}:${r.line}` : r.file
+    return r.kind !== 'FUNCTION' ? `${r.kind === 'MIDDLEWARE' ? '[mw] ' : ''}${r.scope} ${r.name} (${file})` : `${file}:${r.scope ? r.scope + '.' : ''}${r.name}`
+}
+
+/**
+ * Pairs ENTER/EXIT/ERROR (and generator YIELD) records into calls and nests them into traces.
+ * Records with span ids are matched exactly; legacy records are matched with a
+ * single call stack (only meaningful for non-concurrent logs), where every
+ * ENDPOINT ENTER opens a new pseudo trace.
+ */
+export function buildTraces(records: TraceRecord[]): Trace[] {
+    const traces = new Map<string, Trace>()
+    const bySpan = new Map<string, CallNode>()
+    const legacyStack: CallNode[] = []
+    const legacyOpen = new Map<string, CallNode[]>()
+    let legacyCount = 0
+    let legacyTraceId = ''
+
+    const traceFor = (traceId: string): Trace => {
+        let trace = traces.get(traceId)
+        if (!trace) {
+            trace = { traceId, roots: [], calls: [] }
+            traces.set(traceId, trace)
+        }
+        return trace
+    }
+
+    for (const record of records) {
+        if (record.traceId && record.spanId) {
+            let node = bySpan.get(record.spanId)
+            if (!node) {
+                node = newNode(record, record.traceId, record.spanId)
+                bySpan.set(record.spanId, node)
+                const trace = traceFor(record.traceId)
+                trace.calls.push(node)
+                const parent = record.parentSpanId ? bySpan.get(record.parentSpanId) : undefined
+                if (parent) parent.children.push(node)
+                else trace.roots.push(node)
+            }
+            attach(node, record)
+            continue
+        }
+
+        // Legacy records without trace context
+        const key = targetKey(record)
+        if (record.action === 'ENTER') {
+            if (record.kind === 'ENDPOINT' || !legacyTraceId) {
+                legacyTraceId = `legacy-${++legacyCount}`
+                legacyStack.length = 0
+            }
+            const node = newNode(record, legacyTraceId, `${legacyTraceId}-${record.logLine}`)
+            const trace = traceFor(legacyTraceId)
+            trace.calls.push(node)
+            const parent = legacyStack[legacyStack.length - 1]
+            if (parent) parent.children.push(node)
+            else trace.roots.push(node)
+            attach(node, record)
+            const open = legacyOpen.get(key) ?? []
+            open.push(node)
+            legacyOpen.set(key, open)
+            legacyStack.push(node)
+            continue
+        }
+        const open = legacyOpen.get(key)
+        const node = open?.[open.length - 1]
+        if (!open || !node) continue
+        attach(node, record)
+        if (record.action === 'YIELD') continue
+        // An endpoint ERROR is still followed by its EXIT (status) record
+        if (record.kind === 'FUNCTION' || record.action === 'EXIT') open.pop()
+        const idx = legacyStack.lastIndexOf(node)
+        if (idx >= 0) legacyStack.length = idx
+    }
+    return [...traces.values()]
+}
+
+function newNode(record: TraceRecord, traceId: string, spanId: string): CallNode {
+    const node: CallNode = { kind: record.kind, file: record.file, scope: record.scope, name: record.name, traceId, spanId, children: [] }
+    if (record.line !== undefined) node.line = record.line
+    return node
+}
+
+function attach(node: CallNode, record: TraceRecord): void {
+    if (record.action === 'ENTER') node.enter = record
+    else if (record.action === 'EXIT') node.exit = record
+    else if (record.action === 'YIELD') (node.yields ??= []).push(record)
+    else node.error = record
+}
+
+export function callDuration(node: CallNode): number | undefined {
+    return node.exit?.duration ?? node.error?.duration
+}
+
+export function callTimestamp(node: CallNode): number | undefined {
+    return node.enter?.timestamp ?? node.exit?.timestamp ?? node.error?.timestamp
+}
@@ -0,0 +1,266 @@
+#!/usr/bin/env tsx
+import * as fs from 'fs'
+import { parseArgs } from 'util'
+import {
+    readTraceFile, buildTraces, parsePayload, targetKey, callDuration, callTimestamp,
+    type CallNode, type Trace
+} from './trace-log.js'
+import { coverageOf, formatCoverage, readHitsFile, readManifest } from './runtime/coverage.js'
+
+/**
+ * Query trace output (tracing.log pipe records or tracing.jsonl).
+ *
+ *   tsx tracing/trace-query.ts <command> [options]
+ *
+ * Commands:
+ *   slowest   endpoints sorted by duration_ms
+ *   errors    ERROR records with the inputs of the failing call
+ *   counts    calls, errors and avg duration per function/endpoint
+ *   traces    call trees, filtered by --route/--method/--since/--until
+ *   coverage  instrumented functions and routes that never ran (runtime/coverage.ts), from the
+ *             build manifest and the hits the server saved in TRACE_COVERAGE_FILE
+ *
+ * Options:
+ *   --file <path>     trace file (default tracing/tracing.log)
+ *   --route <path>    only endpoints whose route contains <path>
+ *   --method <verb>   only endpoints with this HTTP method
+ *   --since <time>    ISO date, epoch ms or relative (30s, 15m, 2h, 1d ago)
+ *   --until <time>    same formats as --since
+ *   --limit <n>       max rows (default 20, 0 = all)
+ *   --json            machine-readable output
+ *   --manifest <path> coverage: build manifest (default dist/instrumented/__tracing/manifest.json)
+ *   --hits <path>     coverage: saved hits (default tracing/coverage.json)
+ */
+
+const USAGE = `Usage: tsx tracing/trace-query.ts <slowest|errors|counts|traces|coverage> [--file path] [--route path] [--method verb] [--since time] [--until time] [--limit n] [--json] [--manifest path] [--hits path]`
+
+interface QueryOptions {
+    route?: string
+    method?: string
+    since?: number
+    until?: number
+    limit: number
+}
+
+function main(argv: string[]): number {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            file: { type: 'string', default: 'tracing/tracing.log' },
+            route: { type: 'string' },
+            method: { type: 'string' },
+            since: { type: 'string' },
+            until: { type: 'string' },
+            limit: { type: 'string', default: '20' },
+            json: { type: 'boolean', default: false },
+            manifest: { type: 'string', default: 'dist/instrumented/__tracing/manifest.json' },
+            hits: { type: 'string', default: 'tracing/coverage.json' },
+            help: { type: 'boolean', short: 'h', default: false }
+        }
+    })
+
+    const command = positionals[0]
+    if (values.help || !command) {
+        console.log(USAGE)
+        return command ? 0 : 1
+    }
+
+    if (command === 'coverage') return coverage(values.manifest, values.hits, values.json)
+
+    const options: QueryOptions = { limit: Number.parseInt(values.limit, 10) || 0 }
+    if (values.route) options.route = values.route
+    if (values.method) options.method = values.method.toUpperCase()
+    if (values.since) options.since = parseTime(values.since)
+    if (values.until) options.until = parseTime(values.until)
+
+    const records = readTraceFile(values.file)
+    if ((options.since !== undefined || options.until !== undefined) && !records.some(r => r.timestamp !== undefined)) {
+        console.error('⚠️  No timestamps in this file (pipe format); --since/--until need the jsonl sink output')
+    }
+    const traces = buildTraces(records).filter(t => matchesTrace(t, options))
+
+    let result: { columns: string[], rows: Record<string, unknown>[] } | { trees: Trace[] }
+    switch (command) {
+        case 'slowest': result = slowest(traces, options); break
+        case 'errors': result = errors(traces, options); break
+        case 'counts': result = counts(traces, options); break
+        case 'traces': result = { trees: limit(traces, options.limit) }; break
+        default:
+            console.error(`Unknown command "${command}"\n${USAGE}`)
+            return 1
+    }
+
+    if ('trees' in result) {
+        if (values.json) console.log(JSON.stringify(result.trees.map(treeToJson), null, 2))
+        else for (const trace of result.trees) printTree(trace)
+    } else if (values.json) {
+        console.log(JSON.stringify(result.rows, null, 2))
+    } else {
+        printTable(result.columns, result.rows)
+    }
+    return 0
+}
+
+// --- Queries ---
+
+function slowest(traces: Trace[], options: QueryOptions) {
+    const rows = traces.flatMap(t => t.calls)
+        .filter(c => c.kind === 'ENDPOINT' && callDuration(c) !== undefined)
+        .sort((a, b) => (callDuration(b) ?? 0) - (callDuration(a) ?? 0))
+        .map(c => ({
+            method: c.scope,
+            route: c.name,
+            status: statusOf(c),
+            duration_ms: callDuration(c),
+            file: c.file,
+            trace: c.traceId
+        }))
+    return { columns: ['method', 'route', 'status', 'duration_ms', 'file', 'trace'], rows: limit(rows, options.limit) }
+}
+
+function errors(traces: Trace[], options: QueryOptions) {
+    const rows = traces.flatMap(t => t.calls)
+        .filter(c => c.error)
+        .map(c => ({
+            target: targetKey(c),
+            error: parsePayload(c.error!.payload),
+            input: c.enter ? parsePayload(c.enter.payload) : undefined,
+            trace: c.traceId,
+            log_line: c.error!.logLine
+        }))
+    return { columns: ['target', 'error', 'input', 'trace', 'log_line'], rows: limit(rows, options.limit) }
+}
+
+function counts(traces: Trace[], options: QueryOptions) {
+    const stats = new Map<string, { target: string, kind: string, calls: number, errors: number, total: number, timed: number }>()
+    for (const call of traces.flatMap(t => t.calls)) {
+        const key = targetKey(call)
+        const s = stats.get(key) ?? { target: key, kind: call.kind, calls: 0, errors: 0, total: 0, timed: 0 }
+        s.calls++
+        if (call.error) s.errors++
+        const d = callDuration(call)
+        if (d !== undefined) {
+            s.total += d
+            s.timed++
+        }
+        stats.set(key, s)
+    }
+    const rows = [...stats.values()]
+        .sort((a, b) => b.calls - a.calls)
+        .map(s => ({
+            target: s.target,
+            kind: s.kind,
+            calls: s.calls,
+            errors: s.errors,
+            avg_ms: s.timed ? Math.round((s.total / s.timed) * 100) / 100 : undefined
+        }))
+    return { columns: ['target', 'kind', 'calls', 'errors', 'avg_ms'], rows: limit(rows, options.limit) }
+}
+
+// Not from the trace file: the hits were recorded by the runtime, also for calls the log does not keep
+function coverage(manifestFile: string, hitsFile: string, json: boolean): number {
+    if (!fs.existsSync(manifestFile)) {
+        console.error(`No build manifest at ${manifestFile}: run npm run dev:instrumented (or pass --manifest)`)
+        return 1
+    }
+    const report = coverageOf(readManifest(manifestFile), readHitsFile(hitsFile))
+    if (json) console.log(JSON.stringify(report, null, 2))
+    else console.log(formatCoverage(report))
+    return 0
+}
+
+// --- Filters ---
+
+function matchesTrace(trace: Trace, options: QueryOptions): boolean {
+    if (options.route || options.method) {
+        const endpoints = trace.calls.filter(c => c.kind === 'ENDPOINT')
+        const hit = endpoints.some(c =>
+            (!options.route || c.name.includes(options.route)) &&
+            (!options.method || c.scope === options.method))
+        if (!hit) return false
+    }
+    if (options.since !== undefined || options.until !== undefined) {
+        const times = trace.calls.map(callTimestamp).filter((t): t is number => t !== undefined)
+        if (times.length === 0) return false
+        const start = Math.min(...times)
+        if (options.since !== undefined && start < options.since) return false
+        if (options.until !== undefined && start > options.until) return false
+    }
+    return true
+}
+
+function parseTime(value: string): number {
+    const relative = /^(\d+)(s|m|h|d)$/.exec(value)
+    if (relative) {
+        const unit = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 }[relative[2] as 's' | 'm' | 'h' | 'd']
+        return Date.now() - Number(relative[1]) * unit
+    }
+    if (/^\d+$/.test(value)) return Number(value)
+    const parsed = Date.parse(value)
+    if (Number.isNaN(parsed)) throw new Error(`Invalid time "${value}"`)
+    return parsed
+}
+
+function limit<T>(items: T[], n: number): T[] {
+    return n > 0 ? items.slice(0, n) : items
+}
+
+// --- Output ---
+
+function statusOf(call: CallNode): number | undefined {
+    const out = call.exit ? parsePayload(call.exit.payload) : undefined
+    return out && typeof out === 'object' ? (out as { status?: number }).status : undefined
+}
+
+function cell(value: unknown): string {
+    if (value === undefined || value === null) return ''
+    const text = typeof value === 'string' ? value : JSON.stringify(value)
+    return text.length > 80 ? text.slice(0, 77) + '...' : text
+}
+
+function printTable(columns: string[], rows: Record<string, unknown>[]) {
+    if (rows.length === 0) {
+        console.log('(no matching records)')
+        return
+    }
+    const cells = rows.map(r => columns.map(c => cell(r[c])))
+    const widths = columns.map((c, i) => Math.max(c.length, ...cells.map(r => r[i]!.length)))
+    const line = (values: string[]) => values.map((v, i) => v.padEnd(widths[i]!)).join('  ').trimEnd()
+    console.log(line(columns.map(c => c.toUpperCase())))
+    console.log(line(widths.map(w => '-'.repeat(w))))
+    for (const r of cells) console.log(line(r))
+}
+
+function printTree(trace: Trace) {
+    console.log(`trace ${trace.traceId}`)
+    const walk = (node: CallNode, indent: string) => {
+        const d = callDuration(node)
+        const status = node.error ? ' ✗ ' + cell(parsePayload(node.error.payload)) : ''
+        console.log(`${indent}${targetKey(node)}${d !== undefined ? ` ${d}ms` : ''}${status}`)
+        for (const child of node.children) walk(child, indent + '  ')
+    }
+    for (const root of trace.roots) walk(root, '  ')
+}
+
+function treeToJson(trace: Trace) {
+    const toJson = (node: CallNode): Record<string, unknown> => ({
+        kind: node.kind,
+        target: targetKey(node),
+        spanId: node.spanId,
+        timestamp: callTimestamp(node),
+        duration_ms: callDuration(node),
+        input: node.enter ? parsePayload(node.enter.payload) : undefined,
+        output: node.exit ? parsePayload(node.exit.payload) : undefined,
+        error: node.error ? parsePayload(node.error.payload) : undefined,
+        children: node.children.map(toJson)
+    })
+    return { traceId: trace.traceId, calls: trace.roots.map(toJson) }
+}
+
+try {
+    process.exitCode = main(process.argv.slice(2))
+} catch (error) {
+    console.error('❌', error instanceof Error ? error.message : error)
+    process.exitCode = 1
+}
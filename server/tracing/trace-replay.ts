@@ -0,0 +1,235 @@
+#!/usr/bin/env tsx
+import { spawn, ChildProcess } from 'child_process'
+import { randomBytes } from 'crypto'
+import * as fs from 'fs'
+import * as net from 'net'
+import * as os from 'os'
+import * as path from 'path'
+import { parseArgs } from 'util'
+import { createInstrumentedBuilder, printDiagnostics } from './build-instrumented.js'
+import { loadTracingConfig } from './tracing-config.js'
+import { readTraceFile } from './trace-log.js'
+import { compareResponse, loadFixtures, parseHeader, requestOf, type Fixture, type ReplayedResponse } from './replay.js'
+import { errorText } from './runtime/recorder.js'
+import { formatTraceparent } from './runtime/traceparent.js'
+import { contract } from '../src/contract/index.js'
+
+/**
+ * Replays the fixtures recorded by the instrumented server (TRACE_RECORD_DIR, runtime/recorder.ts)
+ * against a freshly started server and reports the responses that differ (replay.ts).
+ *
+ *   tsx tracing/trace-replay.ts [options]
+ *
+ * Options:
+ *   --dir <path>      fixtures (default tracing/recordings)
+ *   --instrumented    build and run the instrumented server (dist/instrumented), which also compares
+ *                     the errors thrown in handlers; by default src/index.ts runs through tsx
+ *   --url <base>      replay against a server that is already running instead
+ *   --header <h: v>   sent with every request over the recorded value, repeatable; e.g. a real
+ *                     Authorization for fixtures whose credentials were redacted
+ *   --filter <text>   only fixtures whose file name or endpoint contains <text>
+ *   --json            machine-readable output
+ * The server runs with NODE_ENV=development and the .env of the server, on a free port; it records,
+ * profiles and reports coverage to nothing. Exits with 1 when a response differs.
+ */
+
+const USAGE = `Usage: tsx tracing/trace-replay.ts [--dir path] [--instrumented] [--url base] [--header "Name: value"]... [--filter text] [--json]`
+
+const SOURCE_DIR = 'src'
+const OUTPUT_DIR = 'dist/instrumented'
+const ENTRY_FILE = 'dist/instrumented/index.js'
+const READY_TIMEOUT_MS = 30_000
+const STOP_TIMEOUT_MS = 10_000
+
+interface Server {
+    baseUrl: string
+    child: ChildProcess
+    output: string[]
+    // jsonl trace of the instrumented server
+    traceFile?: string
+}
+
+interface Result {
+    file: string
+    endpoint: string
+    differences: string[]
+}
+
+async function main(argv: string[]): Promise<number> {
+    const { values } = parseArgs({
+        args: argv,
+        options: {
+            dir: { type: 'string', default: 'tracing/recordings' },
+            instrumented: { type: 'boolean', default: false },
+            url: { type: 'string' },
+            header: { type: 'string', multiple: true, default: [] },
+            filter: { type: 'string' },
+            json: { type: 'boolean', default: false },
+            help: { type: 'boolean', short: 'h', default: false }
+        }
+    })
+    if (values.help) {
+        console.log(USAGE)
+        return 0
+    }
+
+    const headers = Object.fromEntries(values.header.map(parseHeader))
+    const fixtures = loadFixtures(values.dir).filter(({ file, exchange }) =>
+        !values.filter || path.basename(file).includes(values.filter) || (exchange.endpoint ?? '').includes(values.filter))
+    if (!fixtures.length) {
+        console.error(`❌ No fixtures in ${values.dir}; record some by running the instrumented server with TRACE_RECORD_DIR=${values.dir}`)
+        return 1
+    }
+
+    const server = values.url ? undefined : await startServer(values.instrumented)
+    const baseUrl = values.url ?? server!.baseUrl
+    const replayed = new Map<Fixture, { response: ReplayedResponse, traceId: string }>()
+    try {
+        // One at a time, in file order: fixtures may depend on the state left by earlier ones
+        for (const fixture of fixtures) {
+            const traceId = randomBytes(16).toString('hex')
+            replayed.set(fixture, { response: await replay(baseUrl, fixture, headers, traceId), traceId })
+        }
+    } finally {
+        if (server) await stopServer(server)
+    }
+
+    const errors = server?.traceFile ? handlerErrors(server.traceFile) : undefined
+    if (server?.traceFile) fs.rmSync(path.dirname(server.traceFile), { recursive: true, force: true })
+    const results: Result[] = fixtures.map((fixture) => {
+        const { response, traceId } = replayed.get(fixture)!
+        if (errors) response.errors = errors.get(traceId) ?? []
+        const { method, url } = fixture.exchange.request
+        return { file: fixture.file, endpoint: fixture.exchange.endpoint ?? `${method} ${url}`, differences: compareResponse(fixture.exchange, response) }
+    })
+
+    const failed = results.filter(r => r.differences.length)
+    if (values.json) {
+        console.log(JSON.stringify({ fixtures: results.length, failed: failed.length, results }, null, 2))
+    } else {
+        for (const result of results) {
+            console.log(`${result.differences.length ? '✗' : '✓'} ${result.endpoint}  ${path.basename(result.file)}`)
+            for (const difference of result.differences) console.log(`    ${difference}`)
+        }
+        console.log(`\n${results.length - failed.length}/${results.length} fixture(s) match`)
+        if (!errors) console.log('ℹ️  Errors thrown in handlers are only compared with --instrumented')
+    }
+    return failed.length ? 1 : 0
+}
+
+async function replay(baseUrl: string, fixture: Fixture, headers: Record<string, string>, traceId: string): Promise<ReplayedResponse> {
+    const { url, init } = requestOf(fixture.exchange, headers)
+    // A known trace id per request ties the server's ERROR events to its fixture
+    const traceparent = formatTraceparent(traceId, randomBytes(8).toString('hex'), true)
+    const response = await fetch(new URL(url, baseUrl), { ...init, headers: { ...init.headers as Record<string, string>, traceparent }, redirect: 'manual' })
+    const text = await response.text()
+    if (!text) return { status: response.status }
+    if (!response.headers.get('content-type')?.includes('json')) return { status: response.status, body: text }
+    try {
+        return { status: response.status, body: JSON.parse(text) }
+    } catch {
+        return { status: response.status, body: text }
+    }
+}
+
+// ERROR events of handlers per trace id, as recorded in fixtures
+function handlerErrors(traceFile: string): Map<string, string[]> {
+    const errors = new Map<string, string[]>()
+    if (!fs.existsSync(traceFile)) return errors
+    for (const record of readTraceFile(traceFile)) {
+        if (record.action !== 'ERROR' || (record.kind !== 'ENDPOINT' && record.kind !== 'MIDDLEWARE') || !record.traceId) continue
+        errors.set(record.traceId, [...(errors.get(record.traceId) ?? []), errorText(record.payload)])
+    }
+    return errors
+}
+
+function freePort(): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const probe = net.createServer()
+        probe.once('error', reject)
+        probe.listen(0, '127.0.0.1', () => {
+            const { port } = probe.address() as net.AddressInfo
+            probe.close(() => resolve(port))
+        })
+    })
+}
+
+async function startServer(instrumented: boolean): Promise<Server> {
+    if (instrumented) {
+        console.error('🔄 Building instrumented server...')
+        const result = createInstrumentedBuilder({ sourceDir: SOURCE_DIR, outputDir: OUTPUT_DIR }).build(loadTracingConfig())
+        printDiagnostics(result.diagnostics)
+        if (!result.ok) throw new Error('Build failed')
+    }
+
+    const port = await freePort()
+    // Empty values, not missing ones: the server's dotenv.config() would fill those from .env
+    const env: NodeJS.ProcessEnv = {
+        ...process.env,
+        NODE_ENV: 'development',
+        PORT: String(port),
+        TRACE_RECORD_DIR: '',
+        TRACE_PROFILE_FILE: '',
+        TRACE_COVERAGE_FILE: '',
+        TRACE_ADMIN_PORT: ''
+    }
+    let traceFile: string | undefined
+    if (instrumented) {
+        traceFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'trace-replay-')), 'tracing.jsonl')
+        Object.assign(env, { TRACE_SINKS: 'jsonl', TRACE_FILE: traceFile, TRACE_SAMPLE_RATE: '1' })
+    }
+
+    console.error(`🚀 Starting ${instrumented ? 'instrumented ' : ''}server on port ${port}...`)
+    const args = instrumented ? ['--enable-source-maps', ENTRY_FILE] : ['--import', 'tsx', `${SOURCE_DIR}/index.ts`]
+    const child = spawn('node', args, { env, stdio: ['ignore', 'pipe', 'pipe'] })
+    const output: string[] = []
+    const keep = (chunk: Buffer) => output.push(chunk.toString())
+    child.stdout!.on('data', keep)
+    child.stderr!.on('data', keep)
+
+    const server: Server = { baseUrl: `http://127.0.0.1:${port}`, child, output }
+    if (traceFile) server.traceFile = traceFile
+    try {
+        await waitUntilReady(server)
+    } catch (error) {
+        await stopServer(server)
+        console.error(output.join(''))
+        throw error
+    }
+    return server
+}
+
+async function waitUntilReady(server: Server): Promise<void> {
+    const deadline = Date.now() + READY_TIMEOUT_MS
+    while (Date.now() < deadline) {
+        if (server.child.exitCode !== null) throw new Error(`Server exited with code ${server.child.exitCode}`)
+        try {
+            if ((await fetch(new URL(contract.health.path, server.baseUrl))).ok) return
+        } catch {
+            // Not listening yet
+        }
+        await new Promise(resolve => setTimeout(resolve, 100))
+    }
+    throw new Error(`Server not ready within ${READY_TIMEOUT_MS}ms`)
+}
+
+// SIGTERM (the server drains, see src/lifecycle), then SIGKILL if it is still running
+function stopServer(server: Server): Promise<void> {
+    const { child } = server
+    if (child.exitCode !== null || child.signalCode !== null) return Promise.resolve()
+    return new Promise((resolve) => {
+        const timer = setTimeout(() => child.kill('SIGKILL'), STOP_TIMEOUT_MS)
+        child.once('exit', () => {
+            clearTimeout(timer)
+            resolve()
+        })
+        child.kill('SIGTERM')
+    })
+}
+
+try {
+    process.exitCode = await main(process.argv.slice(2))
+} catch (error) {
+    console.error('❌', error instanceof Error ? error.message : error)
+    process.exitCode = 1
+}
@@ -0,0 +1,145 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { matchesAny, matchesGlob } from './runtime/glob.js'
+import type { RuntimeSettings, TraceToggle } from './runtime/controls.js'
+
+/**
+ * tracing.config.json (server root, or the path in TRACING_CONFIG), read by build-instrumented.ts
+ * and dev-instrumented.ts. Every section is optional:
+ *
+ *   {
+ *     "files":     { "include": ["src/**"], "exclude": ["src/generated/**"] },
+ *     "functions": { "include": ["**"], "exclude": ["*.toString", "Cache.**"] },
+ *     "verbosity": { "default": "full", "files": { "src/hot/**": "names" } },
+ *     "sampling":  { "endpoints": 0.25 },
+ *     "runtime":   { "toggles": [{ "route": "/api/health", "enabled": false }], "adminPort": 9464 }
+ *   }
+ *
+ * - files: project-relative globs; excluded files are compiled but not instrumented
+ * - functions: globs over qualified names (`Class.method`, `outer.inner`; `*` stops at '.', `**` does not)
+ * - verbosity: `names` records calls without payloads; the last matching file glob wins
+ * - sampling.endpoints: fraction of requests traced
+ * - runtime: initial toggles and admin port, changeable while running (see runtime/controls.ts)
+ */
+
+export type Verbosity = 'full' | 'names'
+
+export interface TracingConfig {
+    files: { include: string[], exclude: string[] }
+    functions: { include: string[], exclude: string[] }
+    verbosity: { default: Verbosity, files: Record<string, Verbosity> }
+    sampling: { endpoints: number }
+    runtime: { toggles: TraceToggle[], adminPort?: number }
+}
+
+export const CONFIG_FILE = 'tracing.config.json'
+
+export function defaultTracingConfig(): TracingConfig {
+    return {
+        files: { include: ['**'], exclude: [] },
+        functions: { include: ['**'], exclude: [] },
+        verbosity: { default: 'full', files: {} },
+        sampling: { endpoints: 1 },
+        runtime: { toggles: [] }
+    }
+}
+
+export function configPath(cwd = process.cwd(), env: NodeJS.ProcessEnv = process.env): string {
+    return path.resolve(cwd, env.TRACING_CONFIG ?? CONFIG_FILE)
+}
+
+// Defaults when the file does not exist; throws on invalid JSON or values
+export function loadTracingConfig(cwd = process.cwd(), env: NodeJS.ProcessEnv = process.env): TracingConfig {
+    const file = configPath(cwd, env)
+    if (!fs.existsSync(file)) return defaultTracingConfig()
+    let raw: unknown
+    try {
+        raw = JSON.parse(fs.readFileSync(file, 'utf-8'))
+    } catch (error) {
+        throw new Error(`Invalid ${path.basename(file)}: ${error instanceof Error ? error.message : error}`)
+    }
+    return parseTracingConfig(raw, path.basename(file))
+}
+
+export function parseTracingConfig(raw: unknown, source = CONFIG_FILE): TracingConfig {
+    const config = defaultTracingConfig()
+    const fail = (field: string, expected: string): never => {
+        throw new Error(`Invalid ${source}: ${field} must be ${expected}`)
+    }
+    const obj = (value: unknown, field: string): Record<string, unknown> =>
+        value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : fail(field, 'an object')
+    const strings = (value: unknown, field: string): string[] =>
+        Array.isArray(value) && value.every(v => typeof v === 'string') ? value : fail(field, 'an array of strings')
+    const verbosity = (value: unknown, field: string): Verbosity =>
+        value === 'full' || value === 'names' ? value : fail(field, '"full" or "names"')
+
+    const root = obj(raw, 'the config')
+    for (const section of ['files', 'functions'] as const) {
+        if (root[section] === undefined) continue
+        const s = obj(root[section], section)
+        if (s.include !== undefined) config[section].include = strings(s.include, `${section}.include`)
+        if (s.exclude !== undefined) config[section].exclude = strings(s.exclude, `${section}.exclude`)
+    }
+    if (root.verbosity !== undefined) {
+        const v = obj(root.verbosity, 'verbosity')
+        if (v.default !== undefined) config.verbosity.default = verbosity(v.default, 'verbosity.default')
+        if (v.files !== undefined) {
+            for (const [glob, level] of Object.entries(obj(v.files, 'verbosity.files'))) {
+                config.verbosity.files[glob] = verbosity(level, `verbosity.files["${glob}"]`)
+            }
+        }
+    }
+    if (root.sampling !== undefined) {
+        const endpoints = obj(root.sampling, 'sampling').endpoints
+        if (endpoints !== undefined) {
+            if (typeof endpoints !== 'number' || endpoints < 0 || endpoints > 1) fail('sampling.endpoints', 'a number between 0 and 1')
+            config.sampling.endpoints = endpoints as number
+        }
+    }
+    if (root.runtime !== undefined) {
+        const r = obj(root.runtime, 'runtime')
+        if (r.toggles !== undefined) {
+            if (!Array.isArray(r.toggles)) fail('runtime.toggles', 'an array')
+            config.runtime.toggles = (r.toggles as unknown[]).map((t, i) => {
+                const toggle = obj(t, `runtime.toggles[${i}]`)
+                const hasFile = typeof toggle.file === 'string'
+                const hasRoute = typeof toggle.route === 'string'
+                if (hasFile === hasRoute || typeof toggle.enabled !== 'boolean') {
+                    fail(`runtime.toggles[${i}]`, '{ "file" | "route": string, "enabled": boolean }')
+                }
+                return hasFile
+                    ? { file: toggle.file as string, enabled: toggle.enabled as boolean }
+                    : { route: toggle.route as string, enabled: toggle.enabled as boolean }
+            })
+        }
+        if (r.adminPort !== undefined) {
+            if (typeof r.adminPort !== 'number' || !Number.isInteger(r.adminPort)) fail('runtime.adminPort', 'an integer')
+            config.runtime.adminPort = r.adminPort as number
+        }
+    }
+    return config
+}
+
+// `file` is project-relative with posix separators (as in trace records)
+export function isFileTraced(config: TracingConfig, file: string): boolean {
+    return matchesAny(file, config.files.include) && !matchesAny(file, config.files.exclude)
+}
+
+export function isFunctionTraced(config: TracingConfig, qualifiedName: string): boolean {
+    return matchesAny(qualifiedName, config.functions.include, '.') && !matchesAny(qualifiedName, config.functions.exclude, '.')
+}
+
+export function verbosityFor(config: TracingConfig, file: string): Verbosity {
+    let level = config.verbosity.default
+    for (const [glob, value] of Object.entries(config.verbosity.files)) {
+        if (matchesGlob(file, glob)) level = value
+    }
+    return level
+}
+
+// Settings baked into the instrumented build for the runtime (runtime/controls.ts)
+export function runtimeSettingsOf(config: TracingConfig): Partial<RuntimeSettings> {
+    const settings: Partial<RuntimeSettings> = { sampleRate: config.sampling.endpoints, toggles: config.runtime.toggles }
+    if (config.runtime.adminPort !== undefined) settings.adminPort = config.runtime.adminPort
+    return settings
+}
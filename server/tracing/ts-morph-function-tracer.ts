@@ -1,29 +1,70 @@
-import { Project, SourceFile, Node, SyntaxKind, ObjectLiteralExpression, PropertyAssignment, MethodDeclaration as ObjectMethodDeclaration } from 'ts-morph';
+import {
+    Project, Node, SyntaxKind,
+    type ArrowFunction, type ConstructorDeclaration, type FunctionDeclaration, type FunctionExpression,
+    type GetAccessorDeclaration, type MethodDeclaration, type ParameterDeclaration, type SetAccessorDeclaration
+} from 'ts-morph';
 import { instrumentExpressEndpointsAst } from './express-endpoint-instrumenter.js';
-import * as path from 'path';
+import { analyzeExpressFile, type FileRouteSites } from './express-route-analyzer.js';
+import { SourceEdits, depthOf } from './source-edits.js';
+import { displayPath, locationOf } from './source-location.js';
+import type { TraceTarget } from './runtime/types.js';
 
 /**
- * Function instrumentation for module-scope functions using ts-morph
+ * Function instrumentation using ts-morph
  * Goals:
- * - 100% coverage of module-scope functions (exclude generators), including async
- * - Logs inputs/outputs/errors
- * - 0% chance of breaking at runtime (instrumented build only; no source edits)
- * - Minimal, simple logs in format:
- *   ACTION|FUNCTION|FILE|CLASS_OR_OBJECT|NAME|INPUT_OR_OUTPUT_OR_ERROR
+ * - Coverage of every function with a name: declarations (nested too), function/arrow values bound to
+ *   variables, properties, class fields and `export default`, class and object methods (static,
+ *   `#private`, class expressions), getters/setters and constructors, generators and async generators.
+ *   Anonymous callbacks passed as arguments are left alone (Express handlers are traced as endpoints).
+ * - React mode (client modules, see vite-plugin.ts): components and custom hooks are traced as frames
+ *   that keep their body in place; callbacks passed to hooks and inline JSX handlers are named after them.
+ * - Logs inputs/outputs/errors as typed events through the runtime emitter (runtime/emitter.ts)
+ * - 0% chance of breaking at runtime (instrumented build only; no source edits): the original body
+ *   stays in place and runs as a callback of the runtime wrapper (runtime/functions.ts), so `this`,
+ *   `arguments`, `super`, hoisting and the function's name/length are preserved; constructors are
+ *   traced as frames around their body, so field assignments still type-check as constructor code
+ *   (checked against the original modules by __tests__/tracer-parity.test.ts)
+ * - Generators log ENTER, one YIELD per value and EXIT; async generators log ENTER and EXIT on completion
+ * - Every call runs in its own span, child of whatever span is active (see runtime/trace-context.ts)
+ * - Records carry the project-relative file and the original line/column of each target;
+ *   instrumented output stays line-aligned with the original source (see source-location.ts)
+ * - Minimal, simple logs (stdout sink) in format:
+ *   ACTION|FUNCTION|FILE:LINE:COLUMN|CLASS_OR_OBJECT|NAME|TRACE_ID|SPAN_ID|PARENT_SPAN_ID|DEPTH|INPUT_OR_OUTPUT_OR_ERROR
+ *   CLASS_OR_OBJECT is the enclosing function (e.g. `UserService.create`) for nested functions
  */
 
-interface FunctionInfo {
-    name: string;
-    isAsync: boolean;
-    wrapperCode: string;
-    className?: string;
-    isStatic?: boolean;
+// Specifier the instrumented module uses to import the tracing runtime as `__trace`
+const DEFAULT_RUNTIME_SPECIFIER = './__tracing/index.js';
+
+export interface InstrumentOptions {
+    runtimeSpecifier?: string;
+    // Records show file paths relative to this directory (basename when omitted)
+    projectRoot?: string;
+    // Express route sites from the typed project analysis (name-based single-file analysis when omitted)
+    routeSites?: FileRouteSites;
+    // Function filter over qualified names (`Class.method`, `outer.inner`), from tracing.config.json
+    includeFunction?: (qualifiedName: string) => boolean;
+    // 'names' records calls without payloads
+    verbosity?: 'full' | 'names';
+    // React modules (client Vite plugin): components and custom hooks are traced as frames, and
+    // callbacks passed to hooks / JSX attributes are named after them (see instrumentFunction)
+    react?: boolean;
+    // Receives every target the file is instrumented with (build manifest, see build-instrumented.ts)
+    onTarget?: (target: TraceTarget) => void;
 }
 
-// (endpoint instrumentation moved to express-endpoint-instrumenter.ts)
+type FunctionNode = FunctionDeclaration | FunctionExpression | ArrowFunction | MethodDeclaration
+    | ConstructorDeclaration | GetAccessorDeclaration | SetAccessorDeclaration;
+
+function isFunctionNode(node: Node): node is FunctionNode {
+    return Node.isFunctionDeclaration(node) || Node.isFunctionExpression(node) || Node.isArrowFunction(node)
+        || Node.isMethodDeclaration(node) || Node.isConstructorDeclaration(node)
+        || Node.isGetAccessorDeclaration(node) || Node.isSetAccessorDeclaration(node);
+}
 
 export class TSMorphFunctionTracer {
     private project: Project;
+    private options: InstrumentOptions = {};
 
     constructor() {
         this.project = new Project({
@@ -38,274 +79,239 @@ export class TSMorphFunctionTracer {
         });
     }
 
-    public instrumentFile(filePath: string, sourceCode: string): string {
+    public instrumentFile(filePath: string, sourceCode: string, options: InstrumentOptions = {}): string {
         // Parse source file
-        const sourceFile = this.project.createSourceFile('temp.ts', sourceCode, { overwrite: true });
-        const fileName = path.basename(filePath);
+        const sourceFile = this.project.createSourceFile(/\.[jt]sx$/.test(filePath) ? 'temp.tsx' : 'temp.ts', sourceCode, { overwrite: true });
+        const fileName = displayPath(filePath, options.projectRoot);
+        this.options = options;
 
-        // 1) Module-scope variable functions and object-literal methods → initializer/body replacement (no rebinding)
-        this.instrumentTopLevelVariableFunctions(sourceFile, fileName);
-        this.instrumentTopLevelObjectLiteralMethods(sourceFile, fileName);
-        this.instrumentExportDefaultFunctionExpressions(sourceFile, fileName);
+        // Edits are collected on the unmodified AST and applied at once (see source-edits.ts)
+        const edits = new SourceEdits();
 
-        // 2) Express endpoints (inline + named handlers at call sites)
-        instrumentExpressEndpointsAst(sourceFile, fileName);
+        // 1) Express route handlers and middleware
+        instrumentExpressEndpointsAst(sourceFile, fileName, edits, options.routeSites ?? analyzeExpressFile(sourceFile), options.verbosity,
+            options.onTarget);
 
-        // 3) Collect safe wrapper targets (top-level function declarations and class methods)
-        const functionsToWrap: FunctionInfo[] = [];
-        this.findAllNamedFunctions(sourceFile, functionsToWrap, fileName);
-
-        // 4) Print modified source and append wrappers + safe serializer
-        const instrumentedBase = sourceFile.getFullText();
-        const safeSerializerCode = this.generateSafeToString();
-        const wrapperCode = this.generateAllWrappers(functionsToWrap);
-        return instrumentedBase + '\n\n' + safeSerializerCode + '\n\n' + wrapperCode;
-    }
-
-    private findAllNamedFunctions(sourceFile: SourceFile, functions: FunctionInfo[], fileName: string) {
-        // Only wrap top-level function declarations and top-level class methods
-        const isTopLevel = (node: Node): boolean => node.getParent()?.getKind() === SyntaxKind.SourceFile;
+        // 2) Function bodies (payloads serialized by the runtime, see runtime/serializer.ts)
         sourceFile.forEachDescendant((node) => {
-            // 1. Regular function declarations
-            if (Node.isFunctionDeclaration(node) && isTopLevel(node)) {
-                const name = node.getName();
-                // Skip generators if any
-                if (name && !node.isGenerator()) {
-                    functions.push({
-                        name,
-                        isAsync: node.isAsync(),
-                        wrapperCode: this.createStandaloneWrapper(name, node.isAsync(), fileName)
-                    });
-                }
-            }
-
-            // 2. Class methods (instance and static)
-            else if (Node.isMethodDeclaration(node)) {
-                const name = node.getName();
-                const className = this.getClassName(node);
-                // Only wrap methods of top-level classes
-                const classNode = node.getFirstAncestorByKind(SyntaxKind.ClassDeclaration);
-                const classIsTopLevel = classNode?.getParent()?.getKind() === SyntaxKind.SourceFile;
-                if (name && className && classIsTopLevel) {
-                    // Skip hard private methods (#name) which cannot be reassigned externally
-                    if (name.startsWith('#')) return;
-                    const isStatic = node.hasModifier(SyntaxKind.StaticKeyword);
-                    functions.push({
-                        name,
-                        isAsync: node.isAsync(),
-                        className,
-                        isStatic,
-                        wrapperCode: this.createClassMethodWrapper(name, node.isAsync(), fileName, className, isStatic)
-                    });
-                }
-            }
-            // 3. Exported default assigned function expression
-            else if (Node.isExportAssignment(node)) {
-                // Export default handled via expression replacement to avoid unsafe rebinding
-                return;
-            }
+            if (isFunctionNode(node)) this.instrumentFunction(node, fileName, edits);
         });
+
+        // 3) Print and append the runtime import; appended (imports are hoisted) so original lines keep their numbers
+        const runtimeImport = `import * as __trace from '${options.runtimeSpecifier ?? DEFAULT_RUNTIME_SPECIFIER}';`;
+        return edits.apply(sourceFile.getFullText()) + '\n\n' + runtimeImport + '\n';
     }
 
-    private getClassName(node: Node): string | null {
-        let current = node.getParent();
-        while (current) {
-            if (Node.isClassDeclaration(current)) {
-                return current.getName() || null;
-            }
-            current = current.getParent();
+    private instrumentFunction(node: FunctionNode, fileName: string, edits: SourceEdits) {
+        const body = node.getBody();
+        if (!body) return; // overloads, abstract and ambient declarations
+        const name = this.nameOf(node);
+        if (!name) return;
+        const scope = this.scopeOf(node);
+        if (this.options.includeFunction && !this.options.includeFunction(scope ? `${scope}.${name}` : name)) return;
+        const isAsync = 'isAsync' in node && node.isAsync();
+        const isGenerator = (Node.isFunctionDeclaration(node) || Node.isFunctionExpression(node) || Node.isMethodDeclaration(node))
+            && node.isGenerator();
+        // Generator bodies are re-invoked as an inner generator (see below), where `super` is not valid
+        if (isGenerator && body.getFirstDescendantByKind(SyntaxKind.SuperKeyword)) return;
+        const target = this.targetLiteral(fileName, scope, name, node);
+
+        // Frames keep the body in the function itself, inside try/finally; EXIT carries no return value.
+        // - React components and custom hooks: hook calls must stay in the component (Fast Refresh signatures)
+        // - Constructors: `this` field assignments must stay in the constructor (readonly / definite assignment);
+        //   a leading super() call stays first (required before `this`)
+        const frameEnter = (args: string) => `const __frame = __trace.enterFrame(${target}, ${args}); try {`;
+        const frameLeave = '} catch (__error) { __trace.failFrame(__frame, __error); throw __error; } finally { __trace.exitFrame(__frame); }';
+        if (Node.isConstructorDeclaration(node) && Node.isBlock(body)) {
+            const first = body.getStatements()[0];
+            const afterSuper = !!first && this.isSuperCall(first);
+            const open = afterSuper ? first!.getEnd() : body.getStart() + 1;
+            edits.around(open, body.getEnd() - 1, depthOf(body), `${afterSuper ? ';' : ''}${frameEnter('arguments')}`, frameLeave);
+            return;
+        }
+        if (this.options.react && !isAsync && !isGenerator && this.isComponentOrHook(node, name)) {
+            const args = Node.isArrowFunction(node) ? this.parameterList(node.getParameters()) : 'arguments';
+            if (Node.isBlock(body)) edits.around(body.getStart() + 1, body.getEnd() - 1, depthOf(body), frameEnter(args), frameLeave);
+            else edits.wrap(body, `{ ${frameEnter(args)} return (`, `); ${frameLeave} }`);
+            return;
         }
-        return null;
-    }
 
-    private createStandaloneWrapper(functionName: string, isAsync: boolean, fileName: string): string {
-        const originalVar = `__original_${functionName}`;
-        // Single wrapper that preserves async/sync by checking for thenable
-        return `
-{
-    const ${originalVar} = ${functionName};
-    ${functionName} = function(...args) {
-        console.log(\`ENTER|FUNCTION|${fileName}||${functionName}|\${safeToString(args)}\`);
-        try {
-            const out = ${originalVar}.apply(this, args);
-            if (out && typeof out.then === 'function') {
-                return out.then(v => { console.log(\`EXIT|FUNCTION|${fileName}||${functionName}|\${safeToString(v)}\`); return v; })
-                          .catch(e => { console.error(\`ERROR|FUNCTION|${fileName}||${functionName}|\${safeToString(e)}\`); throw e; });
-            }
-            console.log(\`EXIT|FUNCTION|${fileName}||${functionName}|\${safeToString(out)}\`);
-            return out;
-        } catch (error) {
-            console.error(\`ERROR|FUNCTION|${fileName}||${functionName}|\${safeToString(error)}\`);
-            throw error;
+        // Expression-bodied arrow: (a) => expr
+        if (!Node.isBlock(body)) {
+            const args = this.parameterList(node.getParameters());
+            edits.wrap(body, `__trace.traceCall(${target}, ${args}, ${isAsync ? 'async ' : ''}() => (`, '))');
+            return;
         }
-    };
-}`;
-    }
 
-    private createClassMethodWrapper(functionName: string, isAsync: boolean, fileName: string, className: string, isStatic: boolean): string {
-        const originalVar = `__original_${functionName}`;
-        const accessor = isStatic ? `${className}.${functionName}` : `${className}.prototype.${functionName}`;
-        return `
-{
-    const ${originalVar} = ${accessor};
-    ${accessor} = function(...args) {
-        console.log(\`ENTER|FUNCTION|${fileName}|${className}|${functionName}|\${safeToString(args)}\`);
-        try {
-            const out = ${originalVar}.apply(this, args);
-            if (out && typeof out.then === 'function') {
-                return out.then(v => { console.log(\`EXIT|FUNCTION|${fileName}|${className}|${functionName}|\${safeToString(v)}\`); return v; })
-                          .catch(e => { console.error(\`ERROR|FUNCTION|${fileName}|${className}|${functionName}|\${safeToString(e)}\`); throw e; });
-            }
-            console.log(\`EXIT|FUNCTION|${fileName}|${className}|${functionName}|\${safeToString(out)}\`);
-            return out;
-        } catch (error) {
-            console.error(\`ERROR|FUNCTION|${fileName}|${className}|${functionName}|\${safeToString(error)}\`);
-            throw error;
+        const args = Node.isArrowFunction(node) ? this.parameterList(node.getParameters()) : 'arguments';
+        const open = body.getStart() + 1;
+        let prefix: string;
+        let suffix: string;
+        if (isGenerator) {
+            // Generator bodies can't move into an arrow: re-invoked as an inner generator with the same this/arguments
+            // (`super` is only valid in the method itself, so those generators were skipped above).
+            // The inner generator's `this` is typed from the runtime's thisArg; bodies that don't use `this` pass
+            // undefined, so functions without a `this` parameter still type-check under noImplicitThis
+            const wrap = isAsync ? 'traceAsyncGenerator' : 'traceGenerator';
+            const thisArg = body.getFirstDescendantByKind(SyntaxKind.ThisKeyword) ? 'this' : 'undefined';
+            prefix = `return yield* __trace.${wrap}(${target}, ${thisArg}, arguments, ${isAsync ? 'async ' : ''}function* () {`;
+            suffix = '});';
+        } else if (Node.isSetAccessorDeclaration(node)) {
+            // No return value to forward
+            prefix = `__trace.traceCall(${target}, ${args}, () => {`;
+            suffix = '});';
+        } else {
+            prefix = `return __trace.traceCall(${target}, ${args}, ${isAsync ? 'async ' : ''}() => {`;
+            suffix = '});';
         }
-    };
-}`;
+        edits.around(open, body.getEnd() - 1, depthOf(body), prefix, suffix);
     }
 
-    // Generators are intentionally excluded per requirements
-
-    private generateAllWrappers(functions: FunctionInfo[]): string {
-        return functions.map(f => f.wrapperCode).join('\n');
+    // Name recorded for a function; undefined for anonymous callbacks (left uninstrumented)
+    private nameOf(node: FunctionNode): string | undefined {
+        if (Node.isConstructorDeclaration(node)) return 'constructor';
+        if (Node.isGetAccessorDeclaration(node)) return `get ${node.getName()}`;
+        if (Node.isSetAccessorDeclaration(node)) return `set ${node.getName()}`;
+        if (Node.isMethodDeclaration(node)) return node.getName();
+        if (Node.isFunctionDeclaration(node)) return node.getName() ?? 'default';
+        if (this.isCallArgument(node)) return this.options.react ? this.reactCallbackName(node) : undefined;
+        return this.bindingName(node) ?? (Node.isFunctionExpression(node) ? node.getName() : undefined)
+            ?? (this.options.react ? this.jsxAttributeName(node) : undefined);
     }
 
-    private generateSafeToString(): string {
-        return `
-function safeToString(value) {
-    try {
-        return JSON.stringify(value, (key, val) => {
-            if (val instanceof Error) {
-                return String(val);
-            }
-            return val;
-        });
-    } catch (e) {
-        try {
-            return String(value);
-        } catch (e2) {
-            return '[stringify error]';
+    // Callbacks passed to hooks are named after the hook (`useEffect`), memo/forwardRef components after their binding
+    private reactCallbackName(node: FunctionNode): string | undefined {
+        const call = this.unwrapped(node).getParent();
+        if (!call || !Node.isCallExpression(call)) return undefined;
+        const callee = call.getExpression();
+        const calleeName = Node.isIdentifier(callee) ? callee.getText() : Node.isPropertyAccessExpression(callee) ? callee.getName() : '';
+        if (/^use[A-Z0-9]/.test(calleeName)) return calleeName;
+        if (calleeName === 'memo' || calleeName === 'forwardRef') {
+            return (Node.isFunctionExpression(node) ? node.getName() : undefined) ?? this.bindingName(call);
         }
+        return undefined;
     }
-}`;
+
+    // Inline handlers: onClick={() => ...} is named `onClick`
+    private jsxAttributeName(node: FunctionNode): string | undefined {
+        const container = this.unwrapped(node).getParent();
+        const attribute = container && Node.isJsxExpression(container) ? container.getParent() : undefined;
+        return attribute && Node.isJsxAttribute(attribute) ? attribute.getNameNode().getText() : undefined;
     }
 
-    // --- New helpers for module-scope variable functions and object methods ---
+    // Components: capitalized functions rendering JSX or calling hooks; hooks: use* functions
+    private isComponentOrHook(node: FunctionNode, name: string): boolean {
+        if (Node.isMethodDeclaration(node) || Node.isConstructorDeclaration(node)
+            || Node.isGetAccessorDeclaration(node) || Node.isSetAccessorDeclaration(node)) return false;
+        // Hook callbacks (named after the hook) keep the call form, which records their return value
+        if (/^use[A-Z0-9]/.test(name)) return !this.isCallArgument(node);
+        if (!/^[A-Z]/.test(name)) return false;
+        return node.getDescendants().some(d => Node.isJsxElement(d) || Node.isJsxSelfClosingElement(d) || Node.isJsxFragment(d)
+            || (Node.isCallExpression(d) && /^use[A-Z0-9]/.test(d.getExpression().getText().split('.').pop() ?? '')));
+    }
 
-    private instrumentTopLevelVariableFunctions(sourceFile: SourceFile, fileName: string) {
-        const variableStatements = sourceFile.getVariableStatements();
-        for (const vs of variableStatements) {
-            const isTopLevel = vs.getParent()?.getKind() === SyntaxKind.SourceFile;
-            if (!isTopLevel) continue;
-            const kind = vs.getDeclarationKind(); // const/let/var
-            for (const decl of vs.getDeclarations()) {
-                const name = decl.getName();
-                const init = decl.getInitializer();
-                if (!init) continue;
-                if (Node.isFunctionExpression(init) || Node.isArrowFunction(init)) {
-                    // Replace initializer with a wrapped function expression (IIFE over original)
-                    const wrapped = this.buildInitializerWrapper(name, '', fileName, init.getText());
-                    decl.setInitializer(wrapped);
-                } else if (Node.isObjectLiteralExpression(init)) {
-                    // Object literal handled in separate method
-                    continue;
-                }
+    // CLASS_OR_OBJECT field: the owning class/object for members, else the enclosing named function
+    private scopeOf(node: Node): string {
+        const owner = this.memberOwner(node);
+        if (owner) {
+            if (Node.isClassDeclaration(owner) || Node.isClassExpression(owner)) {
+                return owner.getName() ?? this.bindingName(owner) ?? '<anonymous class>';
             }
+            return this.bindingName(owner) ?? '';
         }
+        for (const ancestor of node.getAncestors()) {
+            if (!isFunctionNode(ancestor) || !ancestor.getBody()) continue;
+            const name = this.nameOf(ancestor);
+            if (!name) continue;
+            const scope = this.scopeOf(ancestor);
+            return scope ? `${scope}.${name}` : name;
+        }
+        return '';
     }
 
-    private instrumentExportDefaultFunctionExpressions(sourceFile: SourceFile, fileName: string) {
-        const exportAssignments = sourceFile.getExportAssignments();
-        for (const ex of exportAssignments) {
-            const expr = ex.getExpression();
-            if (!expr) continue;
-            if (Node.isFunctionExpression(expr) || Node.isArrowFunction(expr)) {
-                const wrapped = this.buildInitializerWrapper('default', '', fileName, expr.getText());
-                ex.setExpression(wrapped);
-            }
+    // Class or object literal a function belongs to as a member (method, accessor, field or property value)
+    private memberOwner(node: Node): Node | undefined {
+        const member = Node.isArrowFunction(node) || Node.isFunctionExpression(node) ? this.unwrapped(node).getParent() : node;
+        if (!member) return undefined;
+        if (Node.isMethodDeclaration(member) || Node.isConstructorDeclaration(member) || Node.isGetAccessorDeclaration(member)
+            || Node.isSetAccessorDeclaration(member) || Node.isPropertyDeclaration(member) || Node.isPropertyAssignment(member)) {
+            const owner = member.getParent();
+            if (owner && (Node.isClassDeclaration(owner) || Node.isClassExpression(owner) || Node.isObjectLiteralExpression(owner))) return owner;
         }
+        return undefined;
     }
 
-    private instrumentTopLevelObjectLiteralMethods(sourceFile: SourceFile, fileName: string) {
-        const variableStatements = sourceFile.getVariableStatements();
-        for (const vs of variableStatements) {
-            const isTopLevel = vs.getParent()?.getKind() === SyntaxKind.SourceFile;
-            if (!isTopLevel) continue;
-            for (const decl of vs.getDeclarations()) {
-                const varName = decl.getName();
-                const init = decl.getInitializer();
-                if (!init || !Node.isObjectLiteralExpression(init)) continue;
-                this.wrapObjectLiteralProperties(init as ObjectLiteralExpression, varName, fileName);
-            }
+    // Name an expression is bound to: variable, property, class field, assignment target or `export default`
+    private bindingName(node: Node): string | undefined {
+        const parent = this.unwrapped(node).getParent();
+        if (!parent) return undefined;
+        if (Node.isVariableDeclaration(parent)) {
+            const nameNode = parent.getNameNode();
+            return Node.isIdentifier(nameNode) ? nameNode.getText() : undefined;
+        }
+        if (Node.isPropertyAssignment(parent) || Node.isPropertyDeclaration(parent)) {
+            return parent.getNameNode().getText().replace(/^['"`]|['"`]$/g, '');
         }
+        if (Node.isExportAssignment(parent)) return 'default';
+        if (Node.isBinaryExpression(parent) && parent.getOperatorToken().getKind() === SyntaxKind.EqualsToken) {
+            return parent.getLeft().getText().replace(/\s+/g, '');
+        }
+        return undefined;
     }
 
-    private wrapObjectLiteralProperties(obj: ObjectLiteralExpression, objectName: string, fileName: string) {
-        for (const prop of obj.getProperties()) {
-            // Method shorthand: { foo(a){...} }
-            if (Node.isMethodDeclaration(prop as any)) {
-                const m = prop as unknown as ObjectMethodDeclaration;
-                const key = m.getName();
-                const originalText = m.getText();
-                // Build a property assignment with function expression wrapper using original method as IIFE
-                const asFunctionExpr = this.convertObjectMethodToFunctionExpression(originalText);
-                const wrappedInit = this.buildInitializerWrapper(key, objectName, fileName, asFunctionExpr);
-                m.replaceWithText(`${key}: ${wrappedInit}`);
-            }
-            // Property assignment with function value: { foo: function(){}, bar: ()=>{} }
-            else if (Node.isPropertyAssignment(prop)) {
-                const pa = prop as PropertyAssignment;
-                const nameNode = pa.getNameNode();
-                const key = nameNode.getText().replace(/['"`]/g, '');
-                const init = pa.getInitializer();
-                if (!init) continue;
-                if (Node.isFunctionExpression(init) || Node.isArrowFunction(init)) {
-                    const wrappedInit = this.buildInitializerWrapper(key, objectName, fileName, init.getText());
-                    pa.setInitializer(wrappedInit);
-                }
-            }
+    // Skips parentheses and type-only wrappers around an expression: (fn), fn as T, fn satisfies T, fn!
+    private unwrapped(node: Node): Node {
+        let current = node;
+        let parent = current.getParent();
+        while (parent && (Node.isParenthesizedExpression(parent) || Node.isAsExpression(parent)
+            || Node.isSatisfiesExpression(parent) || Node.isNonNullExpression(parent))) {
+            current = parent;
+            parent = current.getParent();
         }
+        return current;
     }
 
-    private convertObjectMethodToFunctionExpression(methodText: string): string {
-        // methodText like: "foo(a,b) { ... }" possibly with modifiers; convert to function(a,b){...}
-        // Simple heuristic: find first '(' as params start and '{' as body start
-        const nameEnd = methodText.indexOf('(');
-        const bodyStart = methodText.indexOf('{', nameEnd);
-        const params = methodText.slice(nameEnd, bodyStart).trim();
-        const body = methodText.slice(bodyStart).trim();
-        return `function ${params} ${body}`;
+    private isCallArgument(node: Node): boolean {
+        const expr = this.unwrapped(node);
+        const parent = expr.getParent();
+        return !!parent && (Node.isCallExpression(parent) || Node.isNewExpression(parent))
+            && parent.getArguments().includes(expr);
     }
 
-    private buildInitializerWrapper(name: string, objectOrClass: string, fileName: string, originalInitializer: string): string {
-        // Wrap original initializer via IIFE to preserve original behavior and this/args
-        // Handles async/sync by thenable detection; does not change signature
-        const scopeField = objectOrClass ? objectOrClass : '';
-        const enter = `ENTER|FUNCTION|${fileName}|${scopeField}|${name}|`;
-        const exit = `EXIT|FUNCTION|${fileName}|${scopeField}|${name}|`;
-        const error = `ERROR|FUNCTION|${fileName}|${scopeField}|${name}|`;
-        return `((__orig) => function(...args){
-    console.log(\`${enter}\${safeToString(args)}\`);
-    try {
-        const out = __orig.apply(this, args);
-        if (out && typeof out.then === 'function') {
-            return out.then(v => { console.log(\`${exit}\${safeToString(v)}\`); return v; })
-                      .catch(e => { console.error(\`${error}\${safeToString(e)}\`); throw e; });
-        }
-        console.log(\`${exit}\${safeToString(out)}\`);
-        return out;
-    } catch (e) {
-        console.error(\`${error}\${safeToString(e)}\`);
-        throw e;
+    private isSuperCall(statement: Node): boolean {
+        if (!Node.isExpressionStatement(statement)) return false;
+        const expr = statement.getExpression();
+        return Node.isCallExpression(expr) && expr.getExpression().getKind() === SyntaxKind.SuperKeyword;
     }
-})(${originalInitializer})`;
+
+    // Arrow functions have no `arguments`: rebuild the argument list from the parameters
+    // (destructured parameters are logged as an object of their bindings)
+    private parameterList(parameters: ParameterDeclaration[]): string {
+        const items = parameters.filter(p => p.getName() !== 'this').map((p) => {
+            const nameNode = p.getNameNode();
+            const value = Node.isIdentifier(nameNode)
+                ? nameNode.getText()
+                : `{ ${nameNode.getDescendantsOfKind(SyntaxKind.BindingElement)
+                    .map(e => e.getNameNode())
+                    .filter(n => Node.isIdentifier(n))
+                    .map(n => n.getText())
+                    .join(', ')} }`;
+            return p.isRestParameter() && Node.isIdentifier(nameNode) ? `...${value}` : value;
+        });
+        return `[${items.join(', ')}]`;
+    }
+
+    private targetLiteral(fileName: string, scope: string, name: string, node: Node): string {
+        const { line, column } = locationOf(node);
+        const verbosity = this.options.verbosity === 'names' ? { verbosity: 'names' as const } : {};
+        const target: TraceTarget = { kind: 'FUNCTION', file: fileName, scope, name, line, column, ...verbosity };
+        this.options.onTarget?.(target);
+        return JSON.stringify(target);
     }
 }
 
 // Simple interface for existing build system
-export function instrumentSourceCode(filePath: string, sourceCode: string): string {
+export function instrumentSourceCode(filePath: string, sourceCode: string, options?: InstrumentOptions): string {
     const tracer = new TSMorphFunctionTracer();
-    return tracer.instrumentFile(filePath, sourceCode);
-} 
\ No newline at end of file
+    return tracer.instrumentFile(filePath, sourceCode, options);
+}
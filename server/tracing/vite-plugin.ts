@@ -0,0 +1,98 @@
+import * as path from 'path'
+import { fileURLToPath } from 'url'
+import * as ts from 'typescript'
+import type { Plugin } from 'vite'
+import { TSMorphFunctionTracer } from './ts-morph-function-tracer.js'
+import { matchesAny } from './runtime/glob.js'
+
+/**
+ * Vite plugin instrumenting client modules in dev (`vite` serve only; builds are untouched).
+ * Every `.ts`/`.tsx` module under `include` goes through the same function tracer as the server build
+ * (ts-morph-function-tracer.ts) in React mode: components and custom hooks record each render with
+ * their props/arguments, callbacks passed to hooks are named after the hook and inline JSX handlers
+ * after their attribute (`onClick`). Functions keep their shape and hook calls stay in the component,
+ * so React Fast Refresh keeps working; instrumentation is line-aligned, so no source map is needed.
+ * Instrumented modules import the browser runtime (browser/index.ts), which POSTs events to the
+ * dev server collector (`collectorEndpoint`), from where they reach the trace viewer (/__traces).
+ * Must come before react() so it sees TypeScript, not the Fast Refresh transform.
+ * Instrumented code that does not parse is dropped for the original module, with a warning.
+ */
+
+export interface TracingPluginOptions {
+    // Globs relative to the Vite root
+    include?: string[]
+    // The trace viewer is excluded by default: tracing it would feed its own stream
+    exclude?: string[]
+    // Records show paths relative to this directory (the monorepo root by default: `client/src/...`)
+    projectRoot?: string
+    collectorEndpoint?: string
+}
+
+const RUNTIME_ID = 'virtual:trace-runtime'
+const RESOLVED_RUNTIME_ID = '\0' + RUNTIME_ID
+const BROWSER_RUNTIME = fileURLToPath(new URL('./browser/index.ts', import.meta.url))
+
+export function tracingPlugin(options: TracingPluginOptions = {}): Plugin {
+    const include = options.include ?? ['src/**']
+    const exclude = options.exclude ?? ['src/traces/**']
+    const tracer = new TSMorphFunctionTracer()
+    let root = process.cwd()
+    let projectRoot = options.projectRoot ?? path.dirname(root)
+
+    return {
+        name: 'tracing-instrumentation',
+        apply: 'serve',
+        enforce: 'pre',
+
+        configResolved(config) {
+            root = config.root
+            projectRoot = options.projectRoot ?? path.dirname(root)
+        },
+
+        resolveId(id) {
+            return id === RUNTIME_ID ? RESOLVED_RUNTIME_ID : undefined
+        },
+
+        load(id) {
+            if (id !== RESOLVED_RUNTIME_ID) return undefined
+            const runtime = JSON.stringify(BROWSER_RUNTIME.split(path.sep).join('/'))
+            const endpoint = JSON.stringify(options.collectorEndpoint ?? '/api/__traces')
+            return `import { configureCollector } from ${runtime}\nconfigureCollector({ endpoint: ${endpoint} })\nexport * from ${runtime}\n`
+        },
+
+        transform(code, id) {
+            const file = id.split('?')[0]!
+            if (!/\.tsx?$/.test(file) || /\.d\.ts$/.test(file) || file.includes('/node_modules/')) return undefined
+            const relative = path.relative(root, file).split(path.sep).join('/')
+            if (relative.startsWith('..') || !matchesAny(relative, include) || matchesAny(relative, exclude)) return undefined
+
+            try {
+                const instrumented = tracer.instrumentFile(file, code, {
+                    runtimeSpecifier: RUNTIME_ID,
+                    projectRoot,
+                    // No Express routes in client modules
+                    routeSites: new Map(),
+                    react: true
+                })
+                if (hasSyntaxErrors(file, instrumented) && !hasSyntaxErrors(file, code)) {
+                    this.warn(`not instrumented: ${relative} (instrumented code does not parse)`)
+                    return undefined
+                }
+                return { code: instrumented, map: null }
+            } catch (error) {
+                // An uninstrumented module beats a broken dev server
+                this.warn(`not instrumented: ${relative} (${(error as Error).message})`)
+                return undefined
+            }
+        }
+    }
+}
+
+function hasSyntaxErrors(fileName: string, code: string): boolean {
+    const { diagnostics = [] } = ts.transpileModule(code, {
+        fileName,
+        reportDiagnostics: true,
+        compilerOptions: { jsx: ts.JsxEmit.Preserve, target: ts.ScriptTarget.ESNext, module: ts.ModuleKind.ESNext }
+    })
+    return diagnostics.some(d => d.category === ts.DiagnosticCategory.Error)
+}